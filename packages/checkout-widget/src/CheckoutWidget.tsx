@@ -1,9 +1,9 @@
-import { QRCodeSVG } from 'qrcode.react';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ConfigurationError,
   LoadingState,
   PaymentError,
+  PaymentQrCode,
   PaymentSuccess,
   WalletAddressLabel,
   WalletConnectPanel,
@@ -152,7 +152,7 @@ const CheckoutWidgetInner: React.FC<MerchantWidgetProps> = ({
   const isPaymentFailed = paymentStatusData?.status === 'failed';
 
   // Get total amount from payment setup data (calculated from actual product pricing)
-  const totalAmount = paymentSetupData?.totalAmount ?? 0;
+  const totalAmount = paymentSetupData?.totalAmount ?? '0';
 
   const formattedAmount = useFormatCurrency(totalAmount);
   // Call onPaymentSuccess callback when payment is completed
@@ -281,13 +281,7 @@ const CheckoutWidgetInner: React.FC<MerchantWidgetProps> = ({
                     }
                   >
                     <div style={qrStyle({ primaryColor })}>
-                      {QRCodeSVG ? (
-                        <QRCodeSVG value={paymentSetupData.paymentUrl} size={168} />
-                      ) : (
-                        <div style={{ color: 'red', padding: '20px' }}>
-                          QRCode component not available
-                        </div>
-                      )}
+                      <PaymentQrCode paymentUrl={paymentSetupData.paymentUrl} size={168} />
                     </div>
                   </ComponentErrorBoundary>
                 )}
@@ -411,7 +405,7 @@ const CheckoutWidgetInner: React.FC<MerchantWidgetProps> = ({
             <PaymentQuote
               email={email}
               reference={paymentSetupData.referenceKey!}
-              amount={paymentSetupData.totalAmount.toString()}
+              amount={paymentSetupData.totalAmount}
               walletAddress={destinationAddress}
               setWidgetStep={setWidgetStep}
               publishableKey={publishableKey}
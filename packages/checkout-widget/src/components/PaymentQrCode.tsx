@@ -0,0 +1,26 @@
+import { renderPaymentQr } from '@beep-it/sdk-core';
+import React, { useMemo } from 'react';
+
+interface PaymentQrCodeProps {
+  paymentUrl: string;
+  size?: number;
+}
+
+/**
+ * QR code for a payment link, rendered with the same sdk-core function servers use for
+ * emails and receipts so every code looks alike
+ */
+export const PaymentQrCode: React.FC<PaymentQrCodeProps> = ({ paymentUrl, size = 168 }) => {
+  // The surrounding card provides the quiet zone
+  const svg = useMemo(() => renderPaymentQr(paymentUrl, { size, margin: 0 }), [paymentUrl, size]);
+
+  return (
+    <img
+      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+      width={size}
+      height={size}
+      alt="Payment QR code"
+      style={{ display: 'block' }}
+    />
+  );
+};
@@ -1,3 +1,4 @@
+import { BlockchainNetwork, Money, SupportedToken, TokenUtils } from '@beep-it/sdk-core';
 import { Wallet } from '@dynamic-labs/sdk-react-core';
 import { isSuiWallet } from '@dynamic-labs/sui';
 import { Transaction } from '@mysten/sui/transactions';
@@ -14,9 +15,7 @@ interface WalletConnectPanelProps {
 const SUI_MOVE_BEEP_PACKAGE_ID =
   '0x9ed50429ae12b4207c648d1f2f7d36b849d3a0227d8df6f45b5494c5f0a56e37';
 const TRANSACTION_REFERENCE = 'trx_refr';
-const SUI_USDC_ADDRESS =
-  '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC';
-const SUI_USDC_DECIMALS = 6;
+const SUI_USDC = TokenUtils.getTokenDefinition(SupportedToken.USDC, BlockchainNetwork.SUI);
 
 const getProviderName = (walletProviderKey: string, address: string): string => {
   const providerKey = walletProviderKey.toLowerCase();
@@ -38,18 +37,6 @@ const getProviderName = (walletProviderKey: string, address: string): string =>
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 };
 
-/**
- * Scales a decimal value to integer base units using the token's decimals
- * @param value - The decimal value as a string (e.g., "10.50")
- * @param decimals - The number of decimals for the token (e.g., 6 for USDC)
- * @returns The scaled integer value as a string
- */
-const scaleToInteger = (value: number, decimals: number): string => {
-  const scaleFactor = Math.pow(10, decimals);
-  const scaled = Math.floor(value * scaleFactor);
-  return scaled.toString();
-};
-
 const useConnectButtonText = ({
   isLoading,
   isConnected,
@@ -98,7 +85,7 @@ const payToAddress = async ({
     // Fetch USDC coins owned by the user
     const { data: coins } = await suiClient.getCoins({
       owner: primaryWallet.address,
-      coinType: SUI_USDC_ADDRESS,
+      coinType: SUI_USDC.address,
     });
 
     if (!coins.length) {
@@ -126,8 +113,12 @@ const payToAddress = async ({
       });
     }
 
-    // Calculate amount in base units
-    const baseUnits = scaleToInteger(paymentSetupData.totalAmount, SUI_USDC_DECIMALS);
+    // Calculate amount in base units, flooring digits beyond the token's precision
+    const baseUnits = Money.parse(paymentSetupData.totalAmount, {
+      token: SUI_USDC.token,
+      chain: SUI_USDC.chain,
+      rounding: 'floor',
+    }).toBaseUnits();
 
     // Split the amount to send
     const [sendCoin] = tx.splitCoins(tx.object(mergeCoin.coinObjectId), [baseUnits]);
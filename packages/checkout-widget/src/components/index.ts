@@ -1,5 +1,6 @@
 export { ConfigurationError } from './ConfigurationError';
 export { PaymentError } from './PaymentError';
+export { PaymentQrCode } from './PaymentQrCode';
 export { LoadingState } from './LoadingState';
 export { PaymentSuccess } from './PaymentSuccess';
 export { WalletAddressLabel } from './WalletAddressLabel';
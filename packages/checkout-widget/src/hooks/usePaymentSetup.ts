@@ -13,7 +13,8 @@ export interface PaymentSetupData {
   paymentUrl: string | null;
   paymentLabel?: string;
   processedAssets: BeepPurchaseAsset[];
-  totalAmount: number;
+  /** Decimal string as returned by the server, e.g. `'12.50'`; never a float */
+  totalAmount: string;
   isCashPaymentEligible: boolean;
   destinationAddress: string;
 }
@@ -67,7 +68,7 @@ export const usePaymentSetup = ({
         processedAssets: publicAssets.filter(
           (a): a is BeepPurchaseAsset => 'assetId' in a,
         ) as BeepPurchaseAsset[],
-        totalAmount: resp.amount ? parseFloat(resp.amount) : 0,
+        totalAmount: resp.amount || '0',
         isCashPaymentEligible: resp.isCashPaymentEligible,
         destinationAddress: resp.destinationAddress,
       };
@@ -71,7 +71,7 @@ describe('CheckoutWidget', () => {
         referenceKey: 'test-ref',
         paymentUrl: 'sui:9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM?amount=1&reference=test-ref',
         processedAssets: [{ assetId: 'asset_1', quantity: 1 }],
-        totalAmount: 1.156188, // Amount from the product pricing
+        totalAmount: '1.156188', // Amount from the product pricing
       },
       error: null,
       isLoading: false,
@@ -111,7 +111,7 @@ describe('CheckoutWidget', () => {
         referenceKey: 'test-ref',
         paymentUrl: 'sui:test',
         processedAssets: [{ assetId: 'asset_1', quantity: 1 }],
-        totalAmount: 0,
+        totalAmount: '0',
       },
       error: null,
       isLoading: false,
@@ -134,7 +134,7 @@ describe('CheckoutWidget', () => {
         referenceKey: 'test-ref',
         paymentUrl: 'sui:test',
         processedAssets: [{ assetId: 'created-product-id', quantity: 1 }],
-        totalAmount: 25.5, // Amount calculated from product pricing
+        totalAmount: '25.50', // Amount calculated from product pricing
       },
       error: null,
       isLoading: false,
@@ -165,7 +165,7 @@ describe('CheckoutWidget', () => {
           { assetId: 'product-1-id', quantity: 1 },
           { assetId: 'product-2-id', quantity: 1 },
         ],
-        totalAmount: 25.5, // 10.00 + 15.50
+        totalAmount: '25.50', // 10.00 + 15.50
       },
       error: null,
       isLoading: false,
@@ -194,7 +194,7 @@ describe('CheckoutWidget', () => {
           { assetId: 'new-product-id', quantity: 1 },
           { assetId: 'existing-asset-id', quantity: 2 },
         ],
-        totalAmount: 30.0, // Assume existing product contributes 10.00 (5.00 × 2)
+        totalAmount: '30.00', // Assume existing product contributes 10.00 (5.00 × 2)
       },
       error: null,
       isLoading: false,
@@ -255,7 +255,7 @@ describe('CheckoutWidget', () => {
           { assetId: 'p2', quantity: 1 },
           { assetId: 'p3', quantity: 1 },
         ],
-        totalAmount: 70.0, // 12.34 + 56.78 + 0.88
+        totalAmount: '70.00', // 12.34 + 56.78 + 0.88
       },
       error: null,
       isLoading: false,
@@ -273,7 +273,7 @@ describe('CheckoutWidget', () => {
         referenceKey: 'test-ref',
         paymentUrl: 'sui:test',
         processedAssets: [{ assetId: 'asset_1', quantity: 1 }],
-        totalAmount: 1.156188, // Amount calculated from fetched product data
+        totalAmount: '1.156188', // Amount calculated from fetched product data
       },
       error: null,
       isLoading: false,
@@ -115,8 +115,15 @@ const setDefaultResponses = () => {
   });
 };
 
+// Stand-in for the real renderer; the widget only embeds the markup
+const renderPaymentQr = jest.fn(
+  (paymentUrl, options = {}) =>
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.size}" height="${options.size}" data-url="${paymentUrl}"></svg>`,
+);
+
 module.exports = {
   BeepPublicClient: MockBeepPublicClient,
+  renderPaymentQr,
   __mockWidget: mockWidget,
   __resetAllMocks: resetAllMocks,
   __setDefaultResponses: setDefaultResponses,
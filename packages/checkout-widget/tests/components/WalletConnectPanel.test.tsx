@@ -22,7 +22,7 @@ describe('WalletConnectPanel', () => {
       qrCode: 'data:image/png;base64,mockQr',
       referenceKey: 'ref-123',
       paymentUrl: 'sui:url',
-      totalAmount: 25.5,
+      totalAmount: '25.50',
       isCashPaymentEligible: true,
       destinationAddress: 'dest-address-123',
       processedAssets: [],
@@ -55,7 +55,7 @@ describe('usePaymentSetup', () => {
         qrCode: 'data:image/png;base64,mockQrCode',
         referenceKey: 'test-ref-123',
         paymentUrl: 'sui:mock-payment-url',
-        totalAmount: 25.5,
+        totalAmount: '25.50',
         isCashPaymentEligible: true,
         destinationAddress: 'dest-address-123',
       });
@@ -197,7 +197,7 @@ describe('usePaymentSetup', () => {
   });
 
   describe('price formatting', () => {
-    it('parses string amount from response', async () => {
+    it('keeps the amount as the decimal string from the response', async () => {
       __mockWidget.createPaymentSession.mockResolvedValue({
         referenceKey: 'ref-123',
         paymentUrl: 'sui:url',
@@ -214,7 +214,7 @@ describe('usePaymentSetup', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      expect(result.current.data?.totalAmount).toBe(123.45);
+      expect(result.current.data?.totalAmount).toBe('123.45');
     });
 
     it('handles missing amount in response', async () => {
@@ -233,7 +233,7 @@ describe('usePaymentSetup', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      expect(result.current.data?.totalAmount).toBe(0);
+      expect(result.current.data?.totalAmount).toBe('0');
     });
   });
 
@@ -262,7 +262,7 @@ describe('usePaymentSetup', () => {
         qrCode: 'base64-qr-code',
         referenceKey: 'unique-ref',
         paymentUrl: 'sui:payment-url',
-        totalAmount: 99.99,
+        totalAmount: '99.99',
         isCashPaymentEligible: true,
         destinationAddress: 'destination-wallet',
       });
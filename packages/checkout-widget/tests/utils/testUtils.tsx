@@ -87,7 +87,7 @@ export const mockPaymentSetupData = {
   paymentUrl: 'sui:mock-payment-url',
   paymentLabel: 'Test Payment',
   processedAssets: [{ assetId: 'asset_1', quantity: 1 }],
-  totalAmount: 25.5,
+  totalAmount: '25.50',
   isCashPaymentEligible: true,
   destinationAddress: 'mock-destination-address',
 };
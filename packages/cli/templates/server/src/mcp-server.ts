@@ -14,6 +14,7 @@ import { randomUUID } from 'crypto';
 import { checkBeepApiTool } from './tools/checkBeepApi';
 import { issuePaymentTool } from './tools/issuePayment';
 import { checkPaymentStatusTool } from './tools/checkPaymentStatus';
+import { createPayoutTool } from './tools/createPayout';
 import { pauseStreamingTool } from './tools/pauseStreaming';
 import { requestAndPurchaseAssetTool } from './tools/requestAndPurchaseAsset';
 import { startStreamingTool } from './tools/startStreaming';
@@ -39,6 +40,7 @@ const tools: MCPToolRegistry = {
   pauseStreaming: pauseStreamingTool,
   startStreaming: startStreamingTool,
   stopStreaming: stopStreamingTool,
+  createPayout: createPayoutTool,
 };
 
 /**
@@ -0,0 +1,71 @@
+import { validateAddress } from '@beep-it/sdk-core';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { MCPToolDefinition } from '../types';
+import { beepClient } from './beepSDKClient';
+
+export const createPayoutApiSchema = z.object({
+  amount: z.string().describe('Amount to pay out in whole token units, e.g. "12.50".'),
+  destinationWalletAddress: z.string().describe('The wallet address receiving the payout.'),
+  chain: z.string().describe('The chain to pay out on, e.g. SUI, SOLANA or BASE.'),
+  token: z.string().describe('The token to pay out, e.g. USDC.'),
+});
+
+export type CreatePayoutApiParams = z.infer<typeof createPayoutApiSchema>;
+
+export async function createPayout(params: CreatePayoutApiParams) {
+  const { amount, destinationWalletAddress, chain, token } = params;
+
+  // Reject malformed addresses before any funds are reserved
+  const address = validateAddress(chain, destinationWalletAddress);
+  if (!address.valid) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Invalid destination wallet address for ${chain}: ${address.reason}`,
+        },
+      ],
+      data: { reason: address.reason },
+      isError: true,
+    };
+  }
+
+  try {
+    const response = await beepClient.payments.createPayout({
+      amount,
+      destinationWalletAddress: address.normalized,
+      chain,
+      token,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Payout ${response.status}. Payout ID: ${response.payoutId}`,
+        },
+      ],
+      data: response,
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error creating payout: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      data: error,
+      isError: true,
+    };
+  }
+}
+
+export const createPayoutTool: MCPToolDefinition = {
+  name: 'createPayout',
+  description: 'Pay out tokens to a wallet address after checking the address for the chain.',
+  inputSchema: zodToJsonSchema(createPayoutApiSchema),
+  handler: createPayout,
+};
@@ -14,6 +14,7 @@ export enum BeepErrorCode {
   NETWORK_ERROR = 'BEEP_2001',
   TIMEOUT = 'BEEP_2002',
   SERVER_ERROR = 'BEEP_2003',
+  REQUEST_ABORTED = 'BEEP_2004',
 
   // Payment errors (3xxx)
   PAYMENT_FAILED = 'BEEP_3001',
@@ -21,6 +22,9 @@ export enum BeepErrorCode {
   PAYMENT_NOT_FOUND = 'BEEP_3003',
   INSUFFICIENT_FUNDS = 'BEEP_3004',
   PAYMENT_ALREADY_PROCESSED = 'BEEP_3005',
+  INVALID_STATE_TRANSITION = 'BEEP_3006',
+  STREAMING_SESSION_INACTIVE = 'BEEP_3007',
+  SPEND_POLICY_VIOLATION = 'BEEP_3008',
 
   // Invoice errors (4xxx)
   INVOICE_NOT_FOUND = 'BEEP_4001',
@@ -32,10 +36,15 @@ export enum BeepErrorCode {
   MISSING_PARAMETER = 'BEEP_5002',
   INVALID_AMOUNT = 'BEEP_5003',
   INVALID_TOKEN = 'BEEP_5004',
+  INVALID_ADDRESS = 'BEEP_5005',
 
   // Rate limiting (6xxx)
   RATE_LIMIT_EXCEEDED = 'BEEP_6001',
 
+  // Webhook errors (7xxx)
+  INVALID_WEBHOOK_SIGNATURE = 'BEEP_7001',
+  WEBHOOK_TIMESTAMP_OUT_OF_TOLERANCE = 'BEEP_7002',
+
   // Unknown errors (9xxx)
   UNKNOWN_ERROR = 'BEEP_9999',
 }
@@ -121,6 +130,10 @@ export class BeepError extends Error {
 export interface SpecializedErrorOptions {
   code?: BeepErrorCode;
   details?: Record<string, any>;
+  /** Overrides the HTTP status the error class defaults to */
+  statusCode?: number;
+  /** Server-assigned request ID (`x-request-id`), useful when contacting support */
+  requestId?: string;
 }
 
 /**
@@ -130,8 +143,9 @@ export class BeepAuthenticationError extends BeepError {
   constructor(message: string, options: SpecializedErrorOptions = {}) {
     super(message, {
       code: options.code ?? BeepErrorCode.UNAUTHORIZED,
-      statusCode: 401,
+      statusCode: options.statusCode ?? 401,
       details: options.details,
+      requestId: options.requestId,
     });
     this.name = 'BeepAuthenticationError';
   }
@@ -144,8 +158,9 @@ export class BeepValidationError extends BeepError {
   constructor(message: string, options: SpecializedErrorOptions = {}) {
     super(message, {
       code: options.code ?? BeepErrorCode.INVALID_PARAMETER,
-      statusCode: 400,
+      statusCode: options.statusCode ?? 400,
       details: options.details,
+      requestId: options.requestId,
     });
     this.name = 'BeepValidationError';
   }
@@ -158,8 +173,9 @@ export class BeepPaymentError extends BeepError {
   constructor(message: string, options: SpecializedErrorOptions = {}) {
     super(message, {
       code: options.code ?? BeepErrorCode.PAYMENT_FAILED,
-      statusCode: 402,
+      statusCode: options.statusCode ?? 402,
       details: options.details,
+      requestId: options.requestId,
     });
     this.name = 'BeepPaymentError';
   }
@@ -172,7 +188,9 @@ export class BeepNetworkError extends BeepError {
   constructor(message: string, options: SpecializedErrorOptions = {}) {
     super(message, {
       code: options.code ?? BeepErrorCode.NETWORK_ERROR,
+      statusCode: options.statusCode,
       details: options.details,
+      requestId: options.requestId,
     });
     this.name = 'BeepNetworkError';
   }
@@ -194,52 +212,103 @@ export class BeepRateLimitError extends BeepError {
   constructor(message: string, options: RateLimitErrorOptions = {}) {
     super(message, {
       code: BeepErrorCode.RATE_LIMIT_EXCEEDED,
-      statusCode: 429,
+      statusCode: options.statusCode ?? 429,
       details: options.details,
+      requestId: options.requestId,
     });
     this.name = 'BeepRateLimitError';
     this.retryAfter = options.retryAfter;
   }
 }
 
+/**
+ * Webhook signature error - thrown when a webhook delivery cannot be authenticated
+ */
+export class BeepWebhookSignatureError extends BeepError {
+  constructor(message: string, options: SpecializedErrorOptions = {}) {
+    super(message, {
+      code: options.code ?? BeepErrorCode.INVALID_WEBHOOK_SIGNATURE,
+      statusCode: options.statusCode ?? 400,
+      details: options.details,
+      requestId: options.requestId,
+    });
+    this.name = 'BeepWebhookSignatureError';
+  }
+}
+
+/**
+ * Extracts a human-readable message from an API error body
+ */
+function extractErrorMessage(data: any, fallback: string): string {
+  if (typeof data?.message === 'string' && data.message) return data.message;
+  if (typeof data?.error === 'string' && data.error) return data.error;
+  return fallback;
+}
+
 /**
  * Utility function to create appropriate error from axios error response
  */
 export function createBeepErrorFromAxios(error: any): BeepError {
-  const response = error.response;
-  const requestId = response?.headers?.['x-request-id'];
+  // Already mapped (e.g. rethrown from a retried request)
+  if (error instanceof BeepError) {
+    return error;
+  }
+
+  const response = error?.response;
 
   if (!response) {
-    // Network error
-    return new BeepNetworkError(error.message || 'Network connection failed', {
-      code: BeepErrorCode.NETWORK_ERROR,
-      details: { originalError: error },
-    });
+    // Cancelled through an AbortSignal: deliberate, so not reported as an outage
+    if (error?.code === 'ERR_CANCELED' || error?.name === 'AbortError') {
+      return new BeepNetworkError('Request was aborted', {
+        code: BeepErrorCode.REQUEST_ABORTED,
+        details: { originalError: error },
+      });
+    }
+    const timedOut = error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT';
+    return new BeepNetworkError(
+      error?.message || (timedOut ? 'Request timed out' : 'Network connection failed'),
+      {
+        code: timedOut ? BeepErrorCode.TIMEOUT : BeepErrorCode.NETWORK_ERROR,
+        details: { originalError: error },
+      },
+    );
   }
 
-  const status = response.status;
+  const status: number = response.status;
   const data = response.data;
-  const message = data?.message || data?.error || error.message;
+  const requestId: string | undefined = response.headers?.['x-request-id'] ?? data?.requestId;
+  const message = extractErrorMessage(
+    data,
+    error.message || `Request failed with status code ${status}`,
+  );
 
   // Handle specific status codes
   switch (status) {
     case 401:
+    case 403:
       return new BeepAuthenticationError(message, {
         code: BeepErrorCode.UNAUTHORIZED,
+        statusCode: status,
         details: { response: data },
+        requestId,
       });
 
-    case 400: {
+    case 400:
+    case 422: {
       // Try to determine more specific validation error
       if (message.toLowerCase().includes('api key')) {
         return new BeepAuthenticationError(message, {
           code: BeepErrorCode.INVALID_API_KEY,
+          statusCode: status,
           details: { response: data },
+          requestId,
         });
       }
       return new BeepValidationError(message, {
         code: BeepErrorCode.INVALID_PARAMETER,
-        details: { response: data, fields: data?.fields },
+        statusCode: status,
+        details: { response: data, fields: data?.fields ?? data?.errors },
+        requestId,
       });
     }
 
@@ -247,6 +316,7 @@ export function createBeepErrorFromAxios(error: any): BeepError {
       return new BeepPaymentError(message, {
         code: BeepErrorCode.PAYMENT_FAILED,
         details: { response: data },
+        requestId,
       });
 
     case 404: {
@@ -275,6 +345,7 @@ export function createBeepErrorFromAxios(error: any): BeepError {
       return new BeepRateLimitError(message, {
         retryAfter: retryAfter ? parseInt(retryAfter) : undefined,
         details: { response: data },
+        requestId,
       });
     }
 
@@ -10,7 +10,12 @@ import { ProductsModule } from './modules/products';
 import { WidgetModule } from './modules/widget';
 import { UserModule } from './modules/user';
 import { BeepAuthenticationError, BeepErrorCode } from './errors';
-import { BeepDebugger, BeepDebugOptions, createDebugInterceptors } from './utils/debug';
+import { BeepDebugger, BeepDebugOptions, createDebugMiddleware } from './utils/debug';
+import { createErrorMappingInterceptor } from './utils/errorMapping';
+import { BeepTransportOption, resolveTransportAdapter } from './transport';
+import { BeepMiddleware, createMiddlewareAdapter } from './middleware';
+import { BeepTelemetry, BeepTelemetryOptions } from './telemetry';
+import { BeepRetryOptions, createRetryInterceptor } from './utils/retry';
 
 /**
  * Configuration options for initializing the BeepClient
@@ -25,6 +30,27 @@ export interface BeepClientOptions {
   serverUrl?: string;
   /** Debug options for enhanced developer experience */
   debug?: BeepDebugOptions;
+  /**
+   * Automatic retries for failed requests across all modules.
+   * Pass `true` for the default policy or an object to tune it. POST requests are only
+   * retried when they carry an idempotency key.
+   * @default false
+   */
+  retry?: boolean | BeepRetryOptions;
+  /**
+   * HTTP transport used for all requests. Use `'fetch'` on edge runtimes
+   * (Cloudflare Workers, Vercel Edge, Deno) or pass a custom `HttpTransport`.
+   * @default 'axios'
+   */
+  transport?: BeepTransportOption;
+  /**
+   * OpenTelemetry spans and metrics for module request methods and every HTTP request.
+   * Pass your `@opentelemetry/api` module as `api`. Uses the globally registered OTel
+   * providers unless others are passed; a no-op when the application has not registered an
+   * OTel SDK.
+   * @default disabled
+   */
+  telemetry?: BeepTelemetryOptions;
 }
 
 /**
@@ -66,6 +92,7 @@ export interface BeepClientOptions {
 export class BeepClient {
   private client: AxiosInstance;
   private debugger: BeepDebugger;
+  private readonly middleware: BeepMiddleware[] = [];
 
   /** Access to product management functionality (server-side only) */
   public readonly products: ProductsModule;
@@ -101,22 +128,108 @@ export class BeepClient {
 
     this.client = axios.create({
       baseURL: options.serverUrl || 'https://api.justbeep.it',
+      adapter: resolveTransportAdapter(options.transport),
       headers: {
         Authorization: `Bearer ${options.apiKey}`,
         'Content-Type': 'application/json',
         'X-Beep-Client': 'beep-sdk',
       },
     });
+    this.client.defaults.adapter = createMiddlewareAdapter({
+      adapter: this.client.defaults.adapter,
+      middleware: this.middleware,
+    });
 
-    // Add debug interceptors if debugging is enabled
+    if (options.retry) {
+      createRetryInterceptor(this.client, options.retry === true ? {} : options.retry);
+    }
+
+    // Log requests and responses if debugging is enabled
     if (options.debug?.debug) {
-      createDebugInterceptors(this.client, this.debugger);
+      this.use(createDebugMiddleware(this.debugger));
     }
 
+    // Surface every failure as a BeepError subclass
+    createErrorMappingInterceptor(this.client);
+
     this.products = new ProductsModule(this.client);
     this.invoices = new InvoicesModule(this.client);
     this.payments = new PaymentsModule(this.client);
     this.user = new UserModule(this.client);
+
+    if (options.telemetry) {
+      const telemetry = new BeepTelemetry(options.telemetry);
+      this.use(telemetry.middleware());
+      telemetry.instrumentModule({
+        module: this.products,
+        name: 'products',
+        methods: [
+          'createProduct',
+          'getProduct',
+          'listProducts',
+          'listProductsPage',
+          'updateProduct',
+          'deleteProduct',
+        ],
+      });
+      telemetry.instrumentModule({
+        module: this.invoices,
+        name: 'invoices',
+        methods: [
+          'createInvoice',
+          'getInvoice',
+          'listInvoices',
+          'listInvoicesPage',
+          'updateInvoice',
+          'cancelInvoice',
+          'extendInvoiceExpiry',
+          'deleteInvoice',
+        ],
+      });
+      telemetry.instrumentModule({
+        module: this.payments,
+        name: 'payments',
+        methods: [
+          'createPayout',
+          'createPayoutBatch',
+          'getPayout',
+          'listPayouts',
+          'waitForPayout',
+          'waitForPaymentCompletion',
+          'requestAndPurchaseAsset',
+          'issuePayment',
+          'startStreaming',
+          'pauseStreaming',
+          'stopStreaming',
+          'reportUsage',
+          'createStreamingSession',
+          'getStreamingStatus',
+          'listStreamingSessions',
+          'checkPaymentStatus',
+        ],
+      });
+      telemetry.instrumentModule({ module: this.user, name: 'user', methods: ['getCurrentUser'] });
+    }
+  }
+
+  /**
+   * Adds a middleware that wraps every HTTP request made by this client, including retries.
+   * Middleware runs in registration order, each one wrapping the ones added after it.
+   *
+   * @param middleware - Function receiving the request and a `next` callback
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * beep.use(async (request, next) => {
+   *   request.headers['X-Tenant-Id'] = tenantId;
+   *   return next(request);
+   * });
+   * ```
+   */
+  public use(middleware: BeepMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
@@ -142,7 +255,7 @@ export class BeepClient {
    * Checks the health status of the BEEP API server
    *
    * @returns Promise that resolves to the server health status
-   * @throws {Error} When the API is unreachable or returns an error
+   * @throws {BeepError} When the API is unreachable or returns an error
    *
    * @example
    * ```typescript
@@ -151,15 +264,8 @@ export class BeepClient {
    * ```
    */
   public async healthCheck(): Promise<string> {
-    try {
-      const response = await this.client.get('/healthz');
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`API Error: ${error.response?.data?.message || error.message}`);
-      }
-      throw new Error('An unexpected error occurred during health check');
-    }
+    const response = await this.client.get('/healthz');
+    return response.data;
   }
 }
 
@@ -178,6 +284,7 @@ export type {
   Invoice,
   InvoiceStatus,
   PayerType,
+  UpdateInvoicePayload,
 } from './types/invoice';
 
 // Product management types
@@ -198,6 +305,25 @@ export interface BeepPublicClientOptions {
   publishableKey: string;
   /** Optional server URL override */
   serverUrl?: string;
+  /** Debug options; secrets, OTP codes and emails are redacted from the logs */
+  debug?: BeepDebugOptions;
+  /**
+   * Automatic retries for failed requests.
+   * Pass `true` for the default policy or an object to tune it.
+   * @default false
+   */
+  retry?: boolean | BeepRetryOptions;
+  /**
+   * HTTP transport used for all requests (`'axios'`, `'fetch'` or a custom `HttpTransport`)
+   * @default 'axios'
+   */
+  transport?: BeepTransportOption;
+  /**
+   * OpenTelemetry spans and metrics for widget methods and HTTP requests; pass your
+   * `@opentelemetry/api` module as `api`
+   * @default disabled
+   */
+  telemetry?: BeepTelemetryOptions;
 }
 
 /**
@@ -243,6 +369,7 @@ export interface BeepPublicClientOptions {
  */
 export class BeepPublicClient {
   private client: AxiosInstance;
+  private readonly middleware: BeepMiddleware[] = [];
 
   /**
    * Access to public widget endpoints for payment sessions
@@ -271,14 +398,69 @@ export class BeepPublicClient {
 
     this.client = axios.create({
       baseURL: options.serverUrl || 'https://api.justbeep.it',
+      adapter: resolveTransportAdapter(options.transport),
       headers: {
         'Content-Type': 'application/json',
         'X-Beep-Client': 'beep-sdk',
         Authorization: `Bearer ${options.publishableKey}`,
       },
     });
+    this.client.defaults.adapter = createMiddlewareAdapter({
+      adapter: this.client.defaults.adapter,
+      middleware: this.middleware,
+    });
+
+    if (options.retry) {
+      createRetryInterceptor(this.client, options.retry === true ? {} : options.retry);
+    }
+
+    if (options.debug?.debug) {
+      this.use(createDebugMiddleware(new BeepDebugger(options.debug)));
+    }
+
+    createErrorMappingInterceptor(this.client);
 
     this.widget = new WidgetModule(this.client);
+
+    if (options.telemetry) {
+      const telemetry = new BeepTelemetry(options.telemetry);
+      this.use(telemetry.middleware());
+      telemetry.instrumentModule({
+        module: this.widget,
+        name: 'widget',
+        methods: [
+          'createPaymentSession',
+          'generateOTP',
+          'verifyOTP',
+          'generatePaymentQuote',
+          'createCashPaymentOrder',
+          'getPaymentStatus',
+          'waitForPaid',
+          'getDynamicEnv',
+          'getProducts',
+        ],
+      });
+    }
+  }
+
+  /**
+   * Adds a middleware that wraps every HTTP request made by this client, including retries.
+   * Middleware runs in registration order, each one wrapping the ones added after it.
+   *
+   * @param middleware - Function receiving the request and a `next` callback
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * publicBeep.use(async (request, next) => {
+   *   request.headers['X-Tenant-Id'] = tenantId;
+   *   return next(request);
+   * });
+   * ```
+   */
+  public use(middleware: BeepMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 }
 
@@ -292,5 +474,127 @@ export type {
 // Export error types and utilities
 export * from './errors';
 
+// Retry policy
+export { computeRetryDelay } from './utils/retry';
+export type { BeepRetryOptions, RetryAttemptInfo, RetryJitter } from './utils/retry';
+
+// Debug logging and redaction
+export type { BeepDebugOptions, LogOptions } from './utils/debug';
+export { createRedactor, DEFAULT_REDACTED_KEYS, REDACTED } from './utils/redact';
+export type { BeepRedactionOptions } from './utils/redact';
+
+// Middleware
+export type {
+  BeepMiddleware,
+  BeepMiddlewareNext,
+  BeepHttpRequest,
+  BeepHttpResponse,
+} from './middleware';
+
+// OpenTelemetry instrumentation
+export { BEEP_INSTRUMENTATION_NAME, BeepTelemetry, BeepTelemetryAttributes } from './telemetry';
+export type { BeepTelemetryOptions } from './telemetry';
+
+// HTTP transports
+export { FetchTransport, createTransportAdapter } from './transport';
+export type {
+  BeepTransportOption,
+  FetchTransportOptions,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+} from './transport';
+
+// Wallet address validation
+export {
+  CHAIN_ADDRESS_FORMATS,
+  expandSuiAddress,
+  getAddressFormat,
+  isValidAddress,
+  normalizeAddress,
+  validateAddress,
+} from './utils/address';
+export type { AddressFormat, AddressValidationResult } from './utils/address';
+
+// Payment URIs
+export { PaymentUri } from './utils/paymentUri';
+export type { ParsedPaymentUri, PaymentUriParams, PaymentUriScheme } from './utils/paymentUri';
+
+// QR codes
+export { renderPaymentQr } from './qr';
+export type { QrErrorCorrection, QrFormat, QrLogo, RenderPaymentQrOptions } from './qr';
+
+// Streaming sessions and usage metering
+export { StreamingSession } from './streaming';
+export type {
+  CreateStreamingSessionOptions,
+  StreamingSessionAction,
+  StreamingSessionEvents,
+  StreamingSessionOptions,
+  StreamingSessionState,
+  StreamingTransitionHook,
+} from './streaming';
+export { evaluateStreamingPolicy, validateStreamingPolicy } from './streaming/policy';
+export type {
+  StreamingPolicyLimit,
+  StreamingPolicyViolation,
+  StreamingSessionPolicy,
+} from './streaming/policy';
+export { InMemoryUsageEventStore } from './streaming/store';
+export type { UsageEventStore } from './streaming/store';
+export { UsageMeter } from './streaming/usage';
+export type { RecordUsageParams, UsageFlushResult, UsageMeterOptions } from './streaming/usage';
+export type { BeepEventListener } from './utils/emitter';
+
+// Payment and payout polling
+export { Poller } from './utils/poller';
+export type {
+  PollEndReason,
+  PollResult,
+  PollerEvents,
+  PollerOptions,
+  PollingOptions,
+} from './utils/poller';
+export type { PaymentWatchOutcome } from './modules/widget';
+
+// HTTP 402 paywall and paying fetch
+export { BEEP_PAYMENT_REFERENCE_HEADER, beepPaywall } from './paywall';
+export type {
+  BeepPaywall,
+  BeepPaywallOptions,
+  PaymentRequirements,
+  PaywallDecision,
+  PaywallResponseBody,
+} from './paywall';
+export { InMemoryPaywallReferenceStore } from './paywall/store';
+export type { PaywallReferenceStore } from './paywall/store';
+export { createPayingFetch } from './paywall/fetch';
+export type { PayingFetchOptions, PaymentAttempt, SpendPolicy } from './paywall/fetch';
+
+// Payout limits
+export { PAYOUT_MAX_AMOUNT, PAYOUT_MIN_AMOUNT } from './modules/payments';
+
+// Idempotency keys
+export { IDEMPOTENCY_KEY_HEADER, generateIdempotencyKey } from './utils/idempotency';
+export type { IdempotentRequestOptions } from './utils/idempotency';
+
+// Webhook verification
+export { BEEP_SIGNATURE_HEADER, BeepWebhooks, DEFAULT_WEBHOOK_TOLERANCE_SECONDS } from './webhooks';
+export type { GenerateWebhookSignatureOptions, VerifyWebhookSignatureOptions } from './webhooks';
+export {
+  createExpressWebhookHandler,
+  createFastifyWebhookHandler,
+  createNextWebhookHandler,
+  createWebhookProcessor,
+} from './webhooks/handlers';
+export type {
+  BeepWebhookHandlerOptions,
+  WebhookDelivery,
+  WebhookEventHandlers,
+  WebhookHandlerResult,
+} from './webhooks/handlers';
+export { InMemoryWebhookEventStore } from './webhooks/store';
+export type { WebhookEventStore } from './webhooks/store';
+
 // Export all types for convenience
 export * from './types';
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Request/response middleware pipeline for the BEEP SDK clients
+ * Middleware runs for every HTTP attempt (retries included) and is independent of the
+ * configured transport.
+ */
+
+import axios, {
+  AxiosAdapter,
+  AxiosHeaders,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { settleResponse, toHeaderRecord } from '../transport';
+
+/**
+ * An outgoing request as seen by middleware. Mutate it or pass a copy to `next`.
+ */
+export interface BeepHttpRequest {
+  /** Upper-case HTTP method */
+  method: string;
+  /** Server URL the path is resolved against */
+  baseURL?: string;
+  /** Request path, e.g. `/v1/invoices` */
+  url: string;
+  /** Query parameters */
+  params?: Record<string, unknown>;
+  headers: Record<string, string>;
+  /**
+   * Parsed JSON request body. Other bodies (strings, `FormData`, `URLSearchParams`,
+   * binary data) are passed as-is.
+   */
+  body?: unknown;
+  /** Aborted when the caller cancels the request */
+  signal?: AbortSignal;
+  /** Number of retries already made for this request (0 for the first attempt) */
+  readonly retryCount: number;
+}
+
+/**
+ * A response as seen by middleware. Error statuses (4xx/5xx) arrive here as regular
+ * responses; they are turned into `BeepError`s after the pipeline has run.
+ */
+export interface BeepHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON response body */
+  data: unknown;
+}
+
+/** Sends the request to the next middleware, or to the transport for the last one */
+export type BeepMiddlewareNext = (request: BeepHttpRequest) => Promise<BeepHttpResponse>;
+
+/**
+ * Middleware wrapping each HTTP request. `next` rejects only when no response was received
+ * (network failure, timeout, cancellation). Return a response without calling `next` to
+ * short-circuit, e.g. with cached data.
+ *
+ * @example
+ * ```typescript
+ * beep.use(async (request, next) => {
+ *   request.headers['X-Tenant-Id'] = tenantId;
+ *   const startedAt = Date.now();
+ *   const response = await next(request);
+ *   metrics.timing('beep.request', Date.now() - startedAt, { status: response.status });
+ *   return response;
+ * });
+ * ```
+ */
+export type BeepMiddleware = (
+  request: BeepHttpRequest,
+  next: BeepMiddlewareNext,
+) => Promise<BeepHttpResponse>;
+
+/**
+ * Parses JSON strings, leaving anything else untouched
+ */
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string' || !value) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Serializes plain objects and arrays as JSON; strings, form data and binary bodies are
+ * sent unchanged
+ */
+function serializeBody(body: unknown): unknown {
+  return isPlainObject(body) || Array.isArray(body) ? JSON.stringify(body) : body;
+}
+
+function toBeepRequest(config: InternalAxiosRequestConfig): BeepHttpRequest {
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    baseURL: config.baseURL,
+    url: config.url ?? '',
+    params: config.params,
+    headers: toHeaderRecord(config.headers),
+    body: parseJson(config.data),
+    signal: config.signal as AbortSignal | undefined,
+    retryCount: (config as { beepRetryCount?: number }).beepRetryCount ?? 0,
+  };
+}
+
+function toAxiosConfig(options: {
+  config: InternalAxiosRequestConfig;
+  request: BeepHttpRequest;
+}): InternalAxiosRequestConfig {
+  const { config, request } = options;
+  return {
+    ...config,
+    method: request.method.toLowerCase(),
+    baseURL: request.baseURL,
+    url: request.url,
+    params: request.params,
+    headers: AxiosHeaders.from(request.headers),
+    data: serializeBody(request.body),
+    signal: request.signal as AxiosRequestConfig['signal'],
+    // Error statuses flow back through the middleware as responses
+    validateStatus: () => true,
+  };
+}
+
+/**
+ * Wraps an axios adapter with a middleware pipeline. Middleware is read from the array on
+ * every request, so entries added after the client was created apply immediately.
+ *
+ * @param options.adapter - The adapter that performs the request (axios default or a transport)
+ * @param options.middleware - Middleware in registration order; the first one runs outermost
+ */
+export function createMiddlewareAdapter(options: {
+  adapter: AxiosRequestConfig['adapter'];
+  middleware: readonly BeepMiddleware[];
+}): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const send = axios.getAdapter(options.adapter);
+    const middleware = [...options.middleware];
+
+    const dispatch =
+      (index: number): BeepMiddlewareNext =>
+      async (request) => {
+        if (index < middleware.length) {
+          return middleware[index](request, dispatch(index + 1));
+        }
+        const response = await send(toAxiosConfig({ config, request }));
+        return {
+          status: response.status,
+          headers: toHeaderRecord(AxiosHeaders.from(response.headers as AxiosHeaders)),
+          data: parseJson(response.data),
+        };
+      };
+
+    let result: BeepHttpResponse;
+    try {
+      result = await dispatch(0)(toBeepRequest(config));
+    } catch (error) {
+      // Point the error at the caller's config so retries replay the original request
+      if (axios.isAxiosError(error)) {
+        error.config = config;
+      }
+      throw error;
+    }
+
+    return settleResponse({
+      data: result.data,
+      status: result.status,
+      statusText: '',
+      headers: result.headers,
+      config,
+    });
+  };
+}
@@ -1,10 +1,60 @@
 import { AxiosInstance } from 'axios';
 
-import { Invoice, CreateInvoicePayload, SupportedToken, TokenUtils } from '../types';
+import { BeepError, BeepErrorCode, BeepValidationError } from '../errors';
+import {
+  Invoice,
+  CreateInvoicePayload,
+  InvoiceStatus,
+  ListInvoicesParams,
+  Page,
+  TokenSymbol,
+  TokenUtils,
+  UpdateInvoicePayload,
+} from '../types';
+import { IdempotentRequestOptions, idempotentRequestConfig } from '../utils/idempotency';
+import { DEFAULT_PAGE_SIZE, paginate, toListQuery, toPage } from '../utils/pagination';
+
+/** Changes that can be made to an existing invoice */
+type InvoiceChange = 'update' | 'cancel' | 'extend';
+
+/**
+ * Throws when an invoice may no longer change: once it is paid, confirmed, expired (by status
+ * or by `expiresAt`) or cancelled. The server enforces the same rules; checking first saves a
+ * round trip and gives a specific error code.
+ */
+function assertInvoiceChangeable(invoice: Invoice, change: InvoiceChange): void {
+  const status = invoice.status?.toLowerCase();
+  const details = { invoiceId: invoice.id, status: invoice.status, change };
+  if (status === InvoiceStatus.PAID || status === InvoiceStatus.CONFIRMED) {
+    throw new BeepError(`Cannot ${change} invoice ${invoice.id}: it has already been paid`, {
+      code: BeepErrorCode.INVOICE_ALREADY_PAID,
+      statusCode: 409,
+      details,
+    });
+  }
+  if (
+    status === InvoiceStatus.EXPIRED ||
+    (invoice.expiresAt !== undefined && new Date(invoice.expiresAt).getTime() <= Date.now())
+  ) {
+    throw new BeepError(`Cannot ${change} invoice ${invoice.id}: it has expired`, {
+      code: BeepErrorCode.INVOICE_EXPIRED,
+      statusCode: 409,
+      details: { ...details, expiresAt: invoice.expiresAt },
+    });
+  }
+  if (status === InvoiceStatus.CANCELLED) {
+    throw new BeepError(`Cannot ${change} invoice ${invoice.id}: it has been cancelled`, {
+      code: BeepErrorCode.INVALID_STATE_TRANSITION,
+      statusCode: 409,
+      details,
+    });
+  }
+}
 
 /**
  * Module for managing invoices in the BEEP payment system
- * Provides CRUD operations for invoices with support for both product-based and custom invoices
+ * Provides CRUD operations for invoices with support for both product-based and custom invoices,
+ * plus cancellation and expiry extension for pending ones
  */
 export class InvoicesModule {
   private client: AxiosInstance;
@@ -18,8 +68,9 @@ export class InvoicesModule {
    * Supports both product-based invoices (linked to existing products) and custom invoices
    *
    * @param payload - Invoice creation parameters (product-based or custom)
+   * @param options - Optional idempotency key; generated automatically when omitted
    * @returns Promise that resolves to the created invoice
-   * @throws {Error} When invoice creation fails
+   * @throws {BeepError} When invoice creation fails, or `token` is given without `chain`
    *
    * @example
    * ```typescript
@@ -34,21 +85,31 @@ export class InvoicesModule {
    *   description: 'Consulting services',
    *   amount: '100.00',
    *   token: SupportedToken.USDC,
+   *   chain: BlockchainNetwork.SUI,
    *   payerType: 'customer_wallet'
    * });
    * ```
    */
-  async createInvoice(payload: CreateInvoicePayload): Promise<Invoice> {
+  async createInvoice(
+    payload: CreateInvoicePayload,
+    options?: IdempotentRequestOptions,
+  ): Promise<Invoice> {
     const requestPayload = { ...payload };
 
     // Convert token enum to token address for API compatibility
-    if ('token' in requestPayload && !('splTokenAddress' in requestPayload)) {
-      requestPayload.splTokenAddress = TokenUtils.getTokenAddress(
-        requestPayload.token as SupportedToken,
-      );
+    if ('token' in requestPayload && requestPayload.token) {
+      const token = requestPayload.token as TokenSymbol;
+      const chain = TokenUtils.requireChain(token, requestPayload.chain);
+      if (!('splTokenAddress' in requestPayload)) {
+        requestPayload.splTokenAddress = TokenUtils.getTokenAddress(token, chain);
+      }
     }
 
-    const response = await this.client.post<Invoice>('/v1/invoices', requestPayload);
+    const response = await this.client.post<Invoice>(
+      '/v1/invoices',
+      requestPayload,
+      idempotentRequestConfig(options),
+    );
     return response.data;
   }
 
@@ -57,7 +118,7 @@ export class InvoicesModule {
    *
    * @param invoiceId - The unique identifier of the invoice to retrieve
    * @returns Promise that resolves to the invoice details
-   * @throws {Error} When the invoice is not found or retrieval fails
+   * @throws {BeepError} When the invoice is not found or retrieval fails
    *
    * @example
    * ```typescript
@@ -72,20 +133,182 @@ export class InvoicesModule {
   }
 
   /**
-   * Retrieves all invoices for the current merchant
+   * Retrieves invoices for the current merchant
    *
+   * @param params - Optional pagination, status, date range and search filters
    * @returns Promise that resolves to an array of invoices
-   * @throws {Error} When invoice retrieval fails
+   * @throws {BeepError} When invoice retrieval fails
    *
    * @example
    * ```typescript
    * const invoices = await beep.invoices.listInvoices();
    * const pendingInvoices = invoices.filter(inv => inv.status === 'pending');
    * console.log(`Found ${pendingInvoices.length} pending invoices`);
+   *
+   * // Server-side filtering
+   * const recentPaid = await beep.invoices.listInvoices({
+   *   status: InvoiceStatus.PAID,
+   *   dateRange: { from: '2024-01-01T00:00:00Z' },
+   *   limit: 50,
+   * });
    * ```
    */
-  async listInvoices(): Promise<Invoice[]> {
-    const response = await this.client.get<Invoice[]>('/v1/invoices');
+  async listInvoices(params?: ListInvoicesParams): Promise<Invoice[]> {
+    const page = await this.listInvoicesPage(params);
+    return page.items;
+  }
+
+  /**
+   * Retrieves a single page of invoices together with the cursor or offset of the next page
+   *
+   * @param params - Optional pagination, status, date range and search filters
+   * @returns Promise that resolves to the page
+   * @throws {BeepError} When invoice retrieval fails
+   *
+   * @example
+   * ```typescript
+   * const first = await beep.invoices.listInvoicesPage({ limit: 100 });
+   * if (first.nextCursor) {
+   *   const second = await beep.invoices.listInvoicesPage({ limit: 100, cursor: first.nextCursor });
+   * }
+   * ```
+   */
+  async listInvoicesPage(params?: ListInvoicesParams): Promise<Page<Invoice>> {
+    const response = await this.client.get('/v1/invoices', {
+      params: params ? toListQuery(params) : undefined,
+    });
+    return toPage<Invoice>({ data: response.data, params });
+  }
+
+  /**
+   * Iterates over every invoice matching the filters, fetching pages lazily
+   * Only one page is held in memory at a time and breaking out of the loop stops fetching,
+   * which makes this the way to walk large invoice histories.
+   *
+   * @param params - Filters and page size; `limit` defaults to 100 per request
+   * @returns Async iterator of invoices
+   * @throws {BeepError} When fetching a page fails
+   *
+   * @example
+   * ```typescript
+   * for await (const invoice of beep.invoices.iterate({ status: InvoiceStatus.EXPIRED })) {
+   *   await archive(invoice);
+   * }
+   * ```
+   */
+  iterate(params: ListInvoicesParams = {}): AsyncGenerator<Invoice, void, undefined> {
+    return paginate({
+      params: { ...params, limit: params.limit ?? DEFAULT_PAGE_SIZE },
+      fetchPage: (pageParams) => this.listInvoicesPage(pageParams),
+    });
+  }
+
+  /**
+   * Updates the details of a pending invoice
+   *
+   * @param invoiceId - The unique identifier of the invoice to update
+   * @param payload - Fields to change; omitted fields keep their values
+   * @returns Promise that resolves to the updated invoice
+   * @throws {BeepError} With code `INVOICE_ALREADY_PAID` or `INVOICE_EXPIRED` when the invoice
+   * can no longer change, or `INVALID_STATE_TRANSITION` when it has been cancelled
+   *
+   * @example
+   * ```typescript
+   * const invoice = await beep.invoices.updateInvoice('inv_123abc456def', {
+   *   amount: '120.00',
+   *   description: 'Consulting services (revised)',
+   * });
+   * ```
+   */
+  async updateInvoice(invoiceId: string, payload: UpdateInvoicePayload): Promise<Invoice> {
+    assertInvoiceChangeable(await this.getInvoice(invoiceId), 'update');
+    const requestPayload = { ...payload };
+
+    // Convert token enum to token address for API compatibility
+    if (requestPayload.token) {
+      const chain = TokenUtils.requireChain(requestPayload.token, requestPayload.chain);
+      if (!requestPayload.splTokenAddress) {
+        requestPayload.splTokenAddress = TokenUtils.getTokenAddress(requestPayload.token, chain);
+      }
+    }
+
+    const response = await this.client.put<Invoice>(`/v1/invoices/${invoiceId}`, requestPayload);
+    return response.data;
+  }
+
+  /**
+   * Cancels a pending invoice so it can no longer be paid, keeping it (and the reason) on
+   * record. Prefer this to {@link deleteInvoice}, which erases the audit trail.
+   * Cancelling an invoice that is already cancelled returns it unchanged.
+   *
+   * @param invoiceId - The unique identifier of the invoice to cancel
+   * @param reason - Optional note stored with the invoice, e.g. `'Customer changed order'`
+   * @returns Promise that resolves to the cancelled invoice
+   * @throws {BeepError} With code `INVOICE_ALREADY_PAID` or `INVOICE_EXPIRED` when the invoice
+   * can no longer be cancelled
+   *
+   * @example
+   * ```typescript
+   * const invoice = await beep.invoices.cancelInvoice('inv_123abc456def', 'Duplicate order');
+   * console.log(invoice.status); // 'cancelled'
+   * ```
+   */
+  async cancelInvoice(invoiceId: string, reason?: string): Promise<Invoice> {
+    const invoice = await this.getInvoice(invoiceId);
+    if (invoice.status?.toLowerCase() === InvoiceStatus.CANCELLED) return invoice;
+    assertInvoiceChangeable(invoice, 'cancel');
+
+    const response = await this.client.post<Invoice>(`/v1/invoices/${invoiceId}/cancel`, {
+      reason,
+    });
+    return response.data;
+  }
+
+  /**
+   * Moves the expiry of a pending invoice later, giving the payer more time
+   *
+   * @param invoiceId - The unique identifier of the invoice
+   * @param expiresAt - New expiry; must be in the future and after the current one
+   * @returns Promise that resolves to the updated invoice
+   * @throws {BeepValidationError} When `expiresAt` is not a valid date, is in the past or
+   * would shorten the invoice
+   * @throws {BeepError} With code `INVOICE_ALREADY_PAID` or `INVOICE_EXPIRED` when the invoice
+   * can no longer change, or `INVALID_STATE_TRANSITION` when it has been cancelled
+   *
+   * @example
+   * ```typescript
+   * const in24Hours = new Date(Date.now() + 24 * 60 * 60 * 1000);
+   * await beep.invoices.extendInvoiceExpiry('inv_123abc456def', in24Hours);
+   * ```
+   */
+  async extendInvoiceExpiry(invoiceId: string, expiresAt: Date | string): Promise<Invoice> {
+    const newExpiry = new Date(expiresAt);
+    if (Number.isNaN(newExpiry.getTime())) {
+      throw new BeepValidationError(`Invalid expiry date: "${expiresAt}"`, {
+        details: { field: 'expiresAt' },
+      });
+    }
+    if (newExpiry.getTime() <= Date.now()) {
+      throw new BeepValidationError('The new expiry must be in the future', {
+        details: { field: 'expiresAt', expiresAt: newExpiry.toISOString() },
+      });
+    }
+
+    const invoice = await this.getInvoice(invoiceId);
+    assertInvoiceChangeable(invoice, 'extend');
+    if (invoice.expiresAt !== undefined && newExpiry <= new Date(invoice.expiresAt)) {
+      throw new BeepValidationError('The new expiry must be later than the current one', {
+        details: {
+          field: 'expiresAt',
+          expiresAt: newExpiry.toISOString(),
+          currentExpiresAt: invoice.expiresAt,
+        },
+      });
+    }
+
+    const response = await this.client.post<Invoice>(`/v1/invoices/${invoiceId}/extend-expiry`, {
+      expiresAt: newExpiry.toISOString(),
+    });
     return response.data;
   }
 
@@ -94,9 +317,10 @@ export class InvoicesModule {
    *
    * @param invoiceId - The unique identifier of the invoice to delete
    * @returns Promise that resolves when the invoice is successfully deleted
-   * @throws {Error} When the invoice is not found or deletion fails
+   * @throws {BeepError} When the invoice is not found or deletion fails
    *
-   * @remarks Once deleted, an invoice cannot be recovered. Use with caution.
+   * @remarks Once deleted, an invoice cannot be recovered. Use with caution; to stop an
+   * invoice from being paid while keeping its record, use {@link cancelInvoice}.
    *
    * @example
    * ```typescript
@@ -1,21 +1,93 @@
-import { AxiosError, AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
+import { BeepError, BeepErrorCode, BeepValidationError, createBeepErrorFromAxios } from '../errors';
 import {
   BeepPurchaseAsset,
   CheckPaymentStatusPayload,
   CheckPaymentStatusResponse,
+  CreatePayoutPayload,
+  CreatePayoutResponse,
+  GetStreamingStatusPayload,
   IssuePaymentPayload,
   IssuePaymentResponse,
+  Money,
+  ListPayoutsParams,
+  ListStreamingSessionsParams,
   PauseStreamingPayload,
   PauseStreamingResponse,
   PaymentRequestData,
+  Payout,
+  PayoutBatchItem,
+  PayoutBatchItemResult,
+  PayoutBatchItemStatus,
+  PayoutBatchOptions,
+  PayoutBatchReport,
+  PayoutStatus,
+  ReportUsagePayload,
+  ReportUsageResponse,
   RequestAndPurchaseAssetRequestParams,
   RequestAndPurchaseAssetResponse,
   StartStreamingPayload,
   StartStreamingResponse,
   StopStreamingPayload,
   StopStreamingResponse,
+  StreamingSessionStatus,
+  WaitForPayoutResult,
 } from '../types';
+import { CreateStreamingSessionOptions, StreamingSession } from '../streaming';
+import { validateStreamingPolicy } from '../streaming/policy';
 import { InvoiceStatus } from '../types/invoice';
+import { getAddressFormat, normalizeAddress, validateAddress } from '../utils/address';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  IdempotentRequestOptions,
+  generateIdempotencyKey,
+  idempotentRequestConfig,
+} from '../utils/idempotency';
+import { toListQuery, toPage } from '../utils/pagination';
+import { Poller, PollingOptions } from '../utils/poller';
+
+/** Smallest amount accepted by `createPayout`, in whole tokens */
+export const PAYOUT_MIN_AMOUNT = '0.01';
+/** Largest amount accepted by `createPayout`, in whole tokens */
+export const PAYOUT_MAX_AMOUNT = '100000';
+
+/**
+ * Client-side checks a payout must pass before it is sent
+ *
+ * @returns The validation error, or undefined when the payout looks valid
+ */
+function validatePayout(payout: CreatePayoutPayload): BeepValidationError | undefined {
+  // Chains without a known address format are left for the server to check
+  const address = getAddressFormat(payout.chain)
+    ? validateAddress(payout.chain, payout.destinationWalletAddress)
+    : undefined;
+  if (address && !address.valid) {
+    return new BeepValidationError(`Invalid ${payout.chain} address: ${address.reason}`, {
+      code: BeepErrorCode.INVALID_ADDRESS,
+      details: { field: 'destinationWalletAddress' },
+    });
+  }
+
+  let amount: Money;
+  try {
+    amount = Money.parse(payout.amount, { token: payout.token, chain: payout.chain });
+  } catch (error) {
+    return error instanceof BeepValidationError
+      ? error
+      : new BeepValidationError(String(error), { code: BeepErrorCode.INVALID_AMOUNT });
+  }
+  const limits = { token: payout.token, chain: payout.chain };
+  if (
+    amount.lessThan(Money.parse(PAYOUT_MIN_AMOUNT, limits)) ||
+    amount.greaterThan(Money.parse(PAYOUT_MAX_AMOUNT, limits))
+  ) {
+    return new BeepValidationError(
+      `Payout amount ${payout.amount} is outside ${PAYOUT_MIN_AMOUNT}-${PAYOUT_MAX_AMOUNT}`,
+      { code: BeepErrorCode.INVALID_AMOUNT, details: { field: 'amount' } },
+    );
+  }
+  return undefined;
+}
 
 /**
  * Module for handling payment operations including asset purchases and SUI transactions
@@ -34,112 +106,276 @@ export class PaymentsModule {
    *
    * Notes:
    * - Do not pass walletId. The server derives the wallet based on your API key's merchant and requested chain.
+   * - `chain` is required; `token` must be available on it (see `TokenUtils.getTokenChains`).
    * - amount is a human-readable decimal string (e.g., "1.0" for 1 USDC, "0.5" for 0.5 SUI).
    *   The server converts to the token's base units internally.
    * - Minimum: 0.01 per transaction. Maximum: 100,000 per transaction.
    * - This endpoint responds immediately with acceptance/rejection. Actual transfer executes asynchronously after funds are reserved.
+   * - The destination address is validated and normalized for `chain` before sending
+   *   (see `validateAddress`); malformed addresses throw a BeepValidationError (INVALID_ADDRESS).
+   *   Addresses on chains without a known format (see `CHAIN_ADDRESS_FORMATS`) are sent as given.
+   * - Every payout is sent with an idempotency key so a retried request can never pay twice.
+   *   Pass your own key (e.g. your withdrawal ID) to also dedupe across process restarts.
    *
    * Example:
-   * const res = await beep.payments.createPayout({
-   *   amount: '1.50',  // 1.50 USDC (human-readable)
-   *   destinationWalletAddress: 'DEST_ADDRESS',
-   *   chain: 'SUI',
-   *   token: 'USDC',
-   * });
+   * const res = await beep.payments.createPayout(
+   *   {
+   *     amount: '1.50', // 1.50 USDC (human-readable)
+   *     destinationWalletAddress: 'DEST_ADDRESS',
+   *     chain: BlockchainNetwork.SUI,
+   *     token: SupportedToken.USDC,
+   *   },
+   *   { idempotencyKey: `withdrawal-${withdrawal.id}` },
+   * );
    */
-  public async createPayout(params: {
-    amount: string;
-    destinationWalletAddress: string;
-    chain: string;
-    token: string;
-  }): Promise<{
-    payoutId: string;
-    status: 'accepted' | 'rejected';
-    message: string;
-    withdrawRequestId?: number;
-    requestedAmount?: string;
-    reservedAmount?: string;
-    createdAt: string;
-    error?: string;
-  }> {
-    const { data } = await this.client.post('/v1/payouts', params);
+  public async createPayout(
+    params: CreatePayoutPayload,
+    options?: IdempotentRequestOptions,
+  ): Promise<CreatePayoutResponse> {
+    const payload: CreatePayoutPayload = {
+      ...params,
+      destinationWalletAddress: getAddressFormat(params.chain)
+        ? normalizeAddress(params.chain, params.destinationWalletAddress)
+        : params.destinationWalletAddress,
+    };
+    const { data } = await this.client.post(
+      '/v1/payouts',
+      payload,
+      idempotentRequestConfig(options),
+    );
     return data;
   }
 
   /**
-   * Waits for a payment to complete by polling the 402 endpoint using a reference key.
-   * The request is considered complete when the response no longer includes `referenceKey`.
+   * Sends many payouts with bounded concurrency and reports the outcome of each one.
+   * Every item is validated first (address format for its chain, token known on the chain,
+   * amount within 0.01-100,000); invalid items are reported and never sent. A failing item
+   * does not stop the others.
+   *
+   * Retrying: pass a stable `idempotencyPrefix` and a unique `reference` per item (items
+   * without one are reported as `invalid`), then re-run the batch with the `failed` items (or
+   * all of them) - already accepted payouts are deduped by their idempotency keys. Without a
+   * prefix every call uses fresh keys, so re-running it pays everyone again.
+   *
+   * @param items - Recipients to pay
+   * @param options.concurrency - Maximum requests in flight (default 5)
+   * @param options.idempotencyPrefix - Prefix for per-item idempotency keys, e.g. the cycle ID
+   * @param options.dryRun - Only validate; nothing is sent
+   * @returns Per-item results in input order, plus counts per status
+   *
+   * @example
+   * const report = await beep.payments.createPayoutBatch(
+   *   sellers.map((s) => ({
+   *     reference: s.id,
+   *     amount: s.balance,
+   *     destinationWalletAddress: s.wallet,
+   *     chain: BlockchainNetwork.SUI,
+   *     token: SupportedToken.USDC,
+   *   })),
+   *   { concurrency: 10, idempotencyPrefix: `cycle-${cycleId}` },
+   * );
+   * const retry = report.results.filter((r) => r.status === 'failed').map((r) => r.item);
    */
-  public async waitForPaymentCompletion(options: {
-    assets: BeepPurchaseAsset[];
-    paymentReference: string;
-    paymentLabel?: string;
-    intervalMs?: number; // default 15s
-    timeoutMs?: number; // default 5 min
-    signal?: AbortSignal;
-    onUpdate?: (response: PaymentRequestData | null) => void;
-    onError?: (error: unknown) => void;
-  }): Promise<{ paid: boolean; last?: PaymentRequestData | null }> {
-    const baseIntervalMs = options.intervalMs ?? 15_000;
-    let currentIntervalMs = baseIntervalMs;
-    const timeoutMs = options.timeoutMs ?? 5 * 60_000;
-    const deadline = Date.now() + timeoutMs;
+  public async createPayoutBatch(
+    items: PayoutBatchItem[],
+    options: PayoutBatchOptions = {},
+  ): Promise<PayoutBatchReport> {
+    const dryRun = options.dryRun ?? false;
+    const seenReferences = new Set<string>();
+
+    const prepared = items.map((item, index): PayoutBatchItemResult => {
+      const { reference } = item;
+      // Keys come from the caller's references, never from positions, which shift when only
+      // the failed items are re-submitted
+      const idempotencyKey =
+        options.idempotencyPrefix && reference
+          ? `${options.idempotencyPrefix}:${reference}`
+          : generateIdempotencyKey();
 
-    let last: PaymentRequestData | null = null;
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      if (options.signal?.aborted) {
-        return { paid: false, last };
+      let error = validatePayout(item);
+      if (!error && options.idempotencyPrefix && !reference) {
+        error = new BeepValidationError('Every payout needs a reference with idempotencyPrefix', {
+          code: BeepErrorCode.MISSING_PARAMETER,
+          details: { field: 'reference' },
+        });
       }
-      try {
-        // Call the endpoint directly to inspect status codes and normalize 402
+      if (!error && reference && seenReferences.has(reference)) {
+        error = new BeepValidationError(`Duplicate payout reference "${reference}" in batch`, {
+          details: { field: 'reference' },
+        });
+      }
+      if (reference) seenReferences.add(reference);
+
+      if (error) return { index, item, status: 'invalid', idempotencyKey, error };
+      return { index, item, status: 'validated', idempotencyKey };
+    });
+
+    const results = dryRun
+      ? prepared
+      : await mapWithConcurrency({
+          items: prepared,
+          concurrency: options.concurrency ?? 5,
+          fn: async (result): Promise<PayoutBatchItemResult> => {
+            if (result.status === 'invalid') return result;
+            const { reference: _reference, ...payout } = result.item;
+            try {
+              const response = await this.createPayout(payout, {
+                idempotencyKey: result.idempotencyKey,
+              });
+              return {
+                ...result,
+                status: response.status === 'accepted' ? 'accepted' : 'rejected',
+                response,
+              };
+            } catch (error) {
+              return { ...result, status: 'failed', error: createBeepErrorFromAxios(error) };
+            }
+          },
+        });
+
+    const counts: Record<PayoutBatchItemStatus, number> = {
+      validated: 0,
+      invalid: 0,
+      accepted: 0,
+      rejected: 0,
+      failed: 0,
+    };
+    results.forEach((result) => counts[result.status]++);
+    return { dryRun, results, counts };
+  }
+
+  /**
+   * Retrieves the current state of a payout
+   *
+   * @param payoutId - The ID returned by `createPayout`
+   * @returns Promise that resolves to the payout, including the transaction hash once broadcast
+   * @throws {BeepError} When the payout is not found or retrieval fails
+   *
+   * @example
+   * const payout = await beep.payments.getPayout(res.payoutId);
+   * console.log(payout.status, payout.transactionHash);
+   */
+  public async getPayout(payoutId: string): Promise<Payout> {
+    const { data } = await this.client.get<Payout>(`/v1/payouts/${encodeURIComponent(payoutId)}`);
+    return data;
+  }
+
+  /**
+   * Lists payouts, optionally filtered by status, chain, token, destination or date range
+   *
+   * @param params - Pagination and filter parameters
+   * @returns Promise that resolves to the matching payouts
+   * @throws {BeepError} When retrieval fails
+   *
+   * @example
+   * const failed = await beep.payments.listPayouts({
+   *   status: PayoutStatus.FAILED,
+   *   dateRange: { from: '2024-06-01T00:00:00Z' },
+   * });
+   */
+  public async listPayouts(params?: ListPayoutsParams): Promise<Payout[]> {
+    const { data } = await this.client.get('/v1/payouts', {
+      params: params ? toListQuery(params) : undefined,
+    });
+    return toPage<Payout>({ data, params }).items;
+  }
+
+  /**
+   * Polls a payout until it settles (COMPLETED, FAILED or CANCELED), the timeout elapses or
+   * the signal is aborted. Transient errors (429/5xx/network) back off and keep polling;
+   * 400/401/403/404/422 stop immediately.
+   *
+   * @param payoutId - The ID returned by `createPayout`
+   * @param options.intervalMs - Poll interval (default 15s)
+   * @param options.timeoutMs - Give up after this long (default 5 min)
+   * @param options.maxIntervalMs - Longest backoff delay (default 60s)
+   * @param options.jitter - Jitter applied to every delay (default `none`)
+   * @returns `settled: true` with the final payout and its transaction hash, or
+   *   `settled: false` with the last payout seen
+   *
+   * @example
+   * const { payoutId } = await beep.payments.createPayout(params);
+   * const { settled, payout, transactionHash } = await beep.payments.waitForPayout(payoutId, {
+   *   timeoutMs: 10 * 60_000,
+   *   onUpdate: (p) => console.info('payout', p.status),
+   * });
+   * if (payout?.status === PayoutStatus.COMPLETED) markWithdrawalPaid(transactionHash);
+   */
+  public async waitForPayout(
+    payoutId: string,
+    options: PollingOptions & {
+      onUpdate?: (payout: Payout) => void;
+      onError?: (error: unknown) => void;
+    } = {},
+  ): Promise<WaitForPayoutResult> {
+    const { onUpdate, onError, ...polling } = options;
+    const settledStatuses = [PayoutStatus.COMPLETED, PayoutStatus.FAILED, PayoutStatus.CANCELED];
+    const poller = new Poller({
+      ...polling,
+      fetch: () => this.getPayout(payoutId),
+      settle: (payout: Payout) =>
+        settledStatuses.includes(payout.status) ? payout.status : undefined,
+    });
+    if (onUpdate) poller.on('update', onUpdate);
+    if (onError) poller.on('error', onError);
+
+    const { outcome, last } = await poller.result;
+    if (outcome === undefined) return { settled: false, payout: last };
+    return { settled: true, payout: last, transactionHash: last?.transactionHash ?? undefined };
+  }
+
+  /**
+   * Waits for a payment to complete by polling the 402 endpoint using a reference key.
+   * The request is considered complete when a 2xx response no longer includes `referenceKey`,
+   * or carries no payment request at all; a 402 is always pending. Polling stops early when
+   * the invoice expires, fails or is cancelled. A failed poll is never read as paid.
+   */
+  public async waitForPaymentCompletion(
+    options: PollingOptions & {
+      assets: BeepPurchaseAsset[];
+      paymentReference: string;
+      paymentLabel?: string;
+      onUpdate?: (response: PaymentRequestData | null) => void;
+      onError?: (error: unknown) => void;
+    },
+  ): Promise<{ paid: boolean; last?: PaymentRequestData | null }> {
+    const { assets, paymentReference, paymentLabel, onUpdate, onError, ...polling } = options;
+    const poller = new Poller({
+      ...polling,
+      // Call the endpoint directly to inspect status codes and normalize 402
+      fetch: async (): Promise<{ pending: boolean; data: PaymentRequestData | null }> => {
         try {
           const resp = await this.client.post<RequestAndPurchaseAssetResponse>(
             `/v1/payment/request-payment`,
-            {
-              assets: options.assets,
-              paymentReference: options.paymentReference,
-              paymentLabel: options.paymentLabel,
-              generateQrCode: false,
-            },
+            { assets, paymentReference, paymentLabel, generateQrCode: false },
           );
-          last = resp.data.data;
+          return { pending: false, data: resp.data.data ?? null };
         } catch (err) {
-          const ax = err as AxiosError<any>;
-          const status = ax.response?.status;
           // Normalize 402 (still pending)
-          if (status === 402) {
-            last = ax.response?.data?.data ?? null;
-          } else {
-            // Fatal classes: 400/401/403/404/422 ⇒ abort early
-            if (status && [400, 401, 403, 404, 422].includes(status)) {
-              options.onError?.(err);
-              return { paid: false, last };
-            }
-            // Transient: 429/5xx/network ⇒ backoff and continue
-            options.onError?.(err);
-            // Exponential backoff with cap at 60s (do not mutate base interval)
-            currentIntervalMs = Math.min(Math.ceil(currentIntervalMs * 1.5), 60_000);
-            last = last ?? null;
+          if (err instanceof BeepError && err.statusCode === 402) {
+            return { pending: true, data: err.details?.response?.data ?? null };
           }
+          throw err;
         }
-        options.onUpdate?.(last);
-        // Abort if server indicates expired/failed
-        if (last?.status === InvoiceStatus.EXPIRED || last?.status === InvoiceStatus.FAILED) {
-          return { paid: false, last };
+      },
+      settle: ({ pending, data }) => {
+        if (
+          data?.status === InvoiceStatus.EXPIRED ||
+          data?.status === InvoiceStatus.FAILED ||
+          data?.status === InvoiceStatus.CANCELLED
+        ) {
+          return data.status;
         }
-        const paid = !last?.referenceKey;
-        if (paid) return { paid: true, last };
-        // Reset interval on a successful round-trip
-        currentIntervalMs = baseIntervalMs;
-      } catch (e) {
-        // Unknown error – treat as transient
-        options.onError?.(e);
-        currentIntervalMs = Math.min(Math.ceil(currentIntervalMs * 1.5), 60_000);
-      }
-      if (Date.now() >= deadline) return { paid: false, last };
-      await new Promise((r) => setTimeout(r, currentIntervalMs));
-    }
+        // A 402 is pending even without a payload; a 2xx without a payment request is paid
+        if (pending || data?.referenceKey) return undefined;
+        return 'paid';
+      },
+    });
+    if (onUpdate) poller.on('update', ({ data }) => onUpdate(data));
+    if (onError) poller.on('error', onError);
+
+    const { outcome, last } = await poller.result;
+    return { paid: outcome === 'paid', last: last?.data ?? null };
   }
 
   /**
@@ -158,7 +394,11 @@ export class PaymentsModule {
    *   we consider the payment complete when the response does NOT include referenceKey.
    *
    * @param input - Parameters for the asset purchase request
-   * @returns Payment request data or null when the input is invalid
+   * @param options.strict - Throw a `BeepError` instead of logging and returning null on failure
+   * @returns Payment request data, or null when the input is invalid or the request fails
+   *   (unless `strict` is set)
+   * @throws {BeepValidationError} In strict mode, when neither paymentReference nor assets are given
+   * @throws {BeepError} In strict mode, when the request fails with anything other than a 402
    *
    * @example
    * // Phase 1: request
@@ -176,11 +416,31 @@ export class PaymentsModule {
    *   generateQrCode: false
    * });
    * const isPaid = !check?.referenceKey; // When no referenceKey is returned, payment is complete
+   *
+   * // Strict mode: failures throw typed errors instead of resolving to null
+   * const strictReq = await beep.payments.requestAndPurchaseAsset(
+   *   { assets: [{ assetId: 'uuid', quantity: 1 }] },
+   *   { strict: true },
+   * );
    */
   async requestAndPurchaseAsset(
     input: RequestAndPurchaseAssetRequestParams,
+    options: { strict: true },
+  ): Promise<PaymentRequestData>;
+  async requestAndPurchaseAsset(
+    input: RequestAndPurchaseAssetRequestParams,
+    options?: { strict?: boolean },
+  ): Promise<PaymentRequestData | null>;
+  async requestAndPurchaseAsset(
+    input: RequestAndPurchaseAssetRequestParams,
+    options: { strict?: boolean } = {},
   ): Promise<PaymentRequestData | null> {
     if (!input.paymentReference && !input.assets?.length) {
+      if (options.strict) {
+        throw new BeepValidationError('One of paymentReference or assets is required', {
+          code: BeepErrorCode.MISSING_PARAMETER,
+        });
+      }
       console.error('One of paymentReference or assets is required');
       return null;
     }
@@ -194,8 +454,11 @@ export class PaymentsModule {
     } catch (error) {
       // Normalize HTTP 402 Payment Required by returning its payload so callers
       // can proceed with showing the paymentUrl/qrCode and keep polling.
-      if ((error as any).response?.status === 402) {
-        return (error as any).response?.data?.data;
+      if (error instanceof BeepError && error.statusCode === 402) {
+        return error.details?.response?.data;
+      }
+      if (options.strict) {
+        throw error;
       }
       console.error('Failed to request and purchase asset:', error);
       return null;
@@ -218,8 +481,9 @@ export class PaymentsModule {
    * publishable keys for security reasons.
    *
    * @param payload - Payment request details including assets and merchant information
+   * @param options - Optional idempotency key; generated automatically when omitted
    * @returns Promise resolving to payment session identifiers
-   * @throws {Error} When the request fails or authentication is invalid
+   * @throws {BeepError} When the request fails or authentication is invalid
    *
    * @example
    * ```typescript
@@ -239,10 +503,14 @@ export class PaymentsModule {
    * console.log('Invoice ID for management:', paymentSession.invoiceId);
    * ```
    */
-  async issuePayment(payload: IssuePaymentPayload): Promise<IssuePaymentResponse> {
+  async issuePayment(
+    payload: IssuePaymentPayload,
+    options?: IdempotentRequestOptions,
+  ): Promise<IssuePaymentResponse> {
     const response = await this.client.post<IssuePaymentResponse>(
       '/v1/invoices/issue-payment',
       payload,
+      idempotentRequestConfig(options),
     );
     return response.data;
   }
@@ -259,7 +527,7 @@ export class PaymentsModule {
    *
    * @param payload - Streaming session start details
    * @returns Promise resolving to confirmation of the started session
-   * @throws {Error} When the invoice is invalid or already active
+   * @throws {BeepError} When the invoice is invalid or already active
    *
    * @example
    * ```typescript
@@ -289,7 +557,7 @@ export class PaymentsModule {
    *
    * @param payload - Streaming session pause details
    * @returns Promise resolving to pause operation result
-   * @throws {Error} When the invoice is not in a valid state for pausing
+   * @throws {BeepError} When the invoice is not in a valid state for pausing
    *
    * @example
    * ```typescript
@@ -321,7 +589,7 @@ export class PaymentsModule {
    *
    * @param payload - Streaming session stop details
    * @returns Promise resolving to final session details and reference keys
-   * @throws {Error} When the invoice cannot be stopped or doesn't exist
+   * @throws {BeepError} When the invoice cannot be stopped or doesn't exist
    *
    * @example
    * ```typescript
@@ -340,6 +608,126 @@ export class PaymentsModule {
     return response.data;
   }
 
+  /**
+   * Reports metered usage for a streaming session
+   *
+   * Prefer {@link UsageMeter}, which batches, persists and retries these calls for you.
+   * Events carry their own IDs, so sending the same event twice records it once.
+   *
+   * **Important Security Note**: This method requires a secret API key and is only
+   * available when using `BeepClient`. It will NOT work with `BeepPublicClient`.
+   *
+   * @param payload - Invoice ID and the usage events to record
+   * @param options - Optional idempotency key; generated automatically when omitted
+   * @returns Promise resolving to the number of recorded events
+   * @throws {BeepError} When the invoice is not streaming or the request fails
+   */
+  async reportUsage(
+    payload: ReportUsagePayload,
+    options?: IdempotentRequestOptions,
+  ): Promise<ReportUsageResponse> {
+    const response = await this.client.post<ReportUsageResponse>(
+      '/v1/invoices/usage',
+      payload,
+      idempotentRequestConfig(options),
+    );
+    return response.data;
+  }
+
+  /**
+   * Issues a streaming payment and wraps it in a {@link StreamingSession}
+   *
+   * The session tracks the invoice ID and lifecycle state for you, rejects illegal
+   * transitions before calling the API, and emits events on every state change.
+   *
+   * **Important Security Note**: This method requires a secret API key and is only
+   * available when using `BeepClient`. It will NOT work with `BeepPublicClient`.
+   *
+   * @param payload - Same payload as `issuePayment`
+   * @param options.idempotencyKey - Optional idempotency key for the issue request
+   * @param options.policy - Spending cap, maximum duration and idle timeout; once one is
+   * reached the session pauses or stops itself and emits `limitReached`
+   * @returns A session in the `issued` state
+   * @throws {BeepValidationError} When the policy is malformed; nothing is issued
+   *
+   * @example
+   * ```typescript
+   * const session = await beep.payments.createStreamingSession({
+   *   assetChunks: [{ assetId: 'video-streaming-uuid', quantity: 1 }],
+   *   payingMerchantId: 'merchant_who_will_be_charged',
+   * });
+   *
+   * await session.start();
+   * // ... later
+   * const { referenceKeys } = await session.stop();
+   * ```
+   */
+  async createStreamingSession(
+    payload: IssuePaymentPayload,
+    options: CreateStreamingSessionOptions = {},
+  ): Promise<StreamingSession> {
+    const { policy, ...requestOptions } = options;
+    if (policy) validateStreamingPolicy(policy);
+    const issued = await this.issuePayment(payload, requestOptions);
+    return new StreamingSession({
+      payments: this,
+      invoiceId: issued.invoiceId,
+      referenceKey: issued.referenceKey,
+      policy,
+    });
+  }
+
+  /**
+   * Retrieves the live status of a streaming session, including current charges and the
+   * estimated remaining time based on the payer's balance
+   *
+   * **Important Security Note**: This method requires a secret API key and is only
+   * available when using `BeepClient`. It will NOT work with `BeepPublicClient`.
+   *
+   * @param payload.invoiceId - Invoice ID of the streaming session
+   * @returns Promise that resolves to the session status
+   * @throws {BeepError} When the session is not found or retrieval fails
+   *
+   * @example
+   * ```typescript
+   * const status = await beep.payments.getStreamingStatus({ invoiceId: session.invoiceId });
+   * if (isStreamingActive(status)) {
+   *   console.log(`${status.currentCharges} so far, ~${status.estimatedRemainingMinutes} min left`);
+   * }
+   * ```
+   */
+  async getStreamingStatus(payload: GetStreamingStatusPayload): Promise<StreamingSessionStatus> {
+    const { data } = await this.client.post<StreamingSessionStatus>(
+      '/v1/invoices/streaming-status',
+      { invoiceId: payload.invoiceId },
+    );
+    return data;
+  }
+
+  /**
+   * Lists streaming sessions, optionally filtered by status, paying merchant or date range
+   *
+   * **Important Security Note**: This method requires a secret API key and is only
+   * available when using `BeepClient`. It will NOT work with `BeepPublicClient`.
+   *
+   * @param params - Pagination and filter parameters
+   * @returns Promise that resolves to the matching session statuses
+   * @throws {BeepError} When retrieval fails
+   *
+   * @example
+   * ```typescript
+   * const live = await beep.payments.listStreamingSessions({ status: ['active', 'paused'] });
+   * ```
+   */
+  async listStreamingSessions(
+    params?: ListStreamingSessionsParams,
+  ): Promise<StreamingSessionStatus[]> {
+    const { data } = await this.client.get('/v1/invoices/streaming-sessions', {
+      params: params ? toListQuery(params) : undefined,
+    });
+    return toPage<StreamingSessionStatus>({ data, params }).items;
+  }
+
   /**
    * Checks payment status for a given reference key.
    * Calls the server `/v1/invoices/check-payment-status` endpoint with an API key.
@@ -2,11 +2,16 @@ import { AxiosInstance } from 'axios';
 
 import {
   CreateProductPayload,
+  ListProductsParams,
+  Money,
+  Page,
   Product,
   SupportedToken,
   TokenUtils,
   UpdateProductPayload,
 } from '../types';
+import { IdempotentRequestOptions, idempotentRequestConfig } from '../utils/idempotency';
+import { DEFAULT_PAGE_SIZE, paginate, toListQuery, toPage } from '../utils/pagination';
 
 /**
  * Module for managing products in the BEEP payment system
@@ -25,8 +30,9 @@ export class ProductsModule {
    * Products can be used to generate invoices with consistent pricing and metadata
    *
    * @param payload - Product creation parameters including name, price, and token information
+   * @param options - Optional idempotency key; generated automatically when omitted
    * @returns Promise that resolves to the created product
-   * @throws {Error} When product creation fails
+   * @throws {BeepError} When product creation fails, or `token` is given without `chain`
    *
    * @example
    * ```typescript
@@ -36,6 +42,7 @@ export class ProductsModule {
    *   description: 'Lifetime access to premium features',
    *   price: '99.99',
    *   token: SupportedToken.USDC,
+   *   chain: BlockchainNetwork.SOLANA,
    *   isSubscription: false
    * });
    *
@@ -45,33 +52,40 @@ export class ProductsModule {
    *   description: 'Monthly subscription with full access',
    *   price: '19.99',
    *   token: SupportedToken.USDC,
+   *   chain: BlockchainNetwork.SUI,
    *   isSubscription: true
    * });
    * ```
    */
-  async createProduct(payload: CreateProductPayload): Promise<Product> {
+  async createProduct(
+    payload: CreateProductPayload,
+    options?: IdempotentRequestOptions,
+  ): Promise<Product> {
     const requestPayload = { ...payload };
 
     // Convert token enum to token address for API compatibility
-    if (requestPayload.token && !requestPayload.splTokenAddress) {
-      requestPayload.splTokenAddress = TokenUtils.getTokenAddress(requestPayload.token);
+    if (requestPayload.token) {
+      const chain = TokenUtils.requireChain(requestPayload.token, requestPayload.chain);
+      if (!requestPayload.splTokenAddress) {
+        requestPayload.splTokenAddress = TokenUtils.getTokenAddress(requestPayload.token, chain);
+      }
     }
 
     // Convert decimal price to base units for blockchain compatibility
     if (requestPayload.price) {
       const token = requestPayload.token || SupportedToken.USDC;
-      const decimals = TokenUtils.getTokenDecimals(token);
-      const priceValue =
-        typeof requestPayload.price === 'string'
-          ? parseFloat(requestPayload.price)
-          : requestPayload.price;
-
       // Convert to base units (e.g., 0.01 USDC with 6 decimals becomes 10000)
-      const priceInBaseUnits = Math.round(priceValue * 10 ** decimals);
-      requestPayload.price = priceInBaseUnits.toString();
+      requestPayload.price = Money.parse(requestPayload.price, {
+        token,
+        chain: requestPayload.chain,
+      }).toBaseUnits();
     }
 
-    const response = await this.client.post<Product>('/v1/products', requestPayload);
+    const response = await this.client.post<Product>(
+      '/v1/products',
+      requestPayload,
+      idempotentRequestConfig(options),
+    );
     return response.data;
   }
 
@@ -80,7 +94,7 @@ export class ProductsModule {
    *
    * @param productId - The unique identifier of the product to retrieve
    * @returns Promise that resolves to the product details
-   * @throws {Error} When the product is not found or retrieval fails
+   * @throws {BeepError} When the product is not found or retrieval fails
    *
    * @example
    * ```typescript
@@ -94,21 +108,60 @@ export class ProductsModule {
   }
 
   /**
-   * Retrieves all products for the current merchant
+   * Retrieves products for the current merchant
    *
+   * @param params - Optional pagination, status, date range and search filters
    * @returns Promise that resolves to an array of products
-   * @throws {Error} When product retrieval fails
+   * @throws {BeepError} When product retrieval fails
    *
    * @example
    * ```typescript
    * const products = await beep.products.listProducts();
    * const subscriptions = products.filter(p => p.isSubscription);
    * console.log(`Found ${subscriptions.length} subscription products`);
+   *
+   * // Server-side filtering
+   * const matches = await beep.products.listProducts({ search: 'premium', limit: 20 });
    * ```
    */
-  async listProducts(): Promise<Product[]> {
-    const response = await this.client.get<Product[]>('/v1/products');
-    return response.data;
+  async listProducts(params?: ListProductsParams): Promise<Product[]> {
+    const page = await this.listProductsPage(params);
+    return page.items;
+  }
+
+  /**
+   * Retrieves a single page of products together with the cursor or offset of the next page
+   *
+   * @param params - Optional pagination, status, date range and search filters
+   * @returns Promise that resolves to the page
+   * @throws {BeepError} When product retrieval fails
+   */
+  async listProductsPage(params?: ListProductsParams): Promise<Page<Product>> {
+    const response = await this.client.get('/v1/products', {
+      params: params ? toListQuery(params) : undefined,
+    });
+    return toPage<Product>({ data: response.data, params });
+  }
+
+  /**
+   * Iterates over every product matching the filters, fetching pages lazily
+   *
+   * @param params - Filters and page size; `limit` defaults to 100 per request
+   * @returns Async iterator of products
+   * @throws {BeepError} When fetching a page fails
+   *
+   * @example
+   * ```typescript
+   * for await (const product of beep.products.iterate({ isSubscription: true })) {
+   *   console.log(product.name);
+   * }
+   * ```
+   */
+  iterate(params: ListProductsParams = {}): AsyncGenerator<Product, void, undefined> {
+    return paginate({
+      params: { ...params, limit: params.limit ?? DEFAULT_PAGE_SIZE },
+      fetchPage: (pageParams) => this.listProductsPage(pageParams),
+    });
   }
 
   /**
@@ -118,7 +171,7 @@ export class ProductsModule {
    * @param productId - The unique identifier of the product to update
    * @param payload - Product update parameters (all fields optional)
    * @returns Promise that resolves to the updated product
-   * @throws {Error} When the product is not found or update fails
+   * @throws {BeepError} When the product is not found or update fails
    *
    * @example
    * ```typescript
@@ -139,8 +192,11 @@ export class ProductsModule {
     const requestPayload = { ...payload };
 
     // Convert token enum to token address for API compatibility
-    if (requestPayload.token && !requestPayload.splTokenAddress) {
-      requestPayload.splTokenAddress = TokenUtils.getTokenAddress(requestPayload.token);
+    if (requestPayload.token) {
+      const chain = TokenUtils.requireChain(requestPayload.token, requestPayload.chain);
+      if (!requestPayload.splTokenAddress) {
+        requestPayload.splTokenAddress = TokenUtils.getTokenAddress(requestPayload.token, chain);
+      }
     }
 
     const response = await this.client.put<Product>(`/v1/products/${productId}`, requestPayload);
@@ -152,7 +208,7 @@ export class ProductsModule {
    *
    * @param productId - The unique identifier of the product to delete
    * @returns Promise that resolves when the product is successfully deleted
-   * @throws {Error} When the product is not found or deletion fails
+   * @throws {BeepError} When the product is not found or deletion fails
    *
    * @remarks Once deleted, a product cannot be recovered. Existing invoices linked to this product will remain unaffected.
    *
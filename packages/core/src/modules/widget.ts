@@ -1,4 +1,5 @@
-import { AxiosError, AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
+import { InvoiceStatus } from '../types/invoice';
 import {
   GenerateOTPRequest,
   GenerateOTPResponse,
@@ -14,6 +15,27 @@ import {
   GeneratePaymentQuoteResponse,
   GetProductsResponse,
 } from '../types/public';
+import { IdempotentRequestOptions, idempotentRequestConfig } from '../utils/idempotency';
+import { Poller, PollingOptions } from '../utils/poller';
+
+/** Final states reported by `watchPayment` */
+export type PaymentWatchOutcome = 'paid' | 'expired' | 'failed' | 'cancelled';
+
+const paymentWatchOutcome = (
+  status: PublicPaymentStatusResponse,
+): PaymentWatchOutcome | undefined => {
+  if (status.paid) return 'paid';
+  switch (status.status?.toLowerCase()) {
+    case InvoiceStatus.EXPIRED:
+      return 'expired';
+    case InvoiceStatus.FAILED:
+      return 'failed';
+    case InvoiceStatus.CANCELLED:
+      return 'cancelled';
+    default:
+      return undefined;
+  }
+};
 
 export class WidgetModule {
   private client: AxiosInstance;
@@ -23,10 +45,15 @@ export class WidgetModule {
   }
 
   /**
-   * Creates a payment session (public, CORS-open) for Checkout Widget
+   * Creates a payment session (public, CORS-open) for Checkout Widget.
+   *
+   * No idempotency key is sent unless one is passed: a custom header makes browsers send a
+   * CORS preflight, which fails unless the server allows `Idempotency-Key`. Without a key the
+   * request is not retried.
    */
   async createPaymentSession(
     input: PublicPaymentSessionRequest,
+    options?: IdempotentRequestOptions,
   ): Promise<PublicPaymentSessionResponse> {
     const body: PublicPaymentSessionRequest = {
       assets: input.assets,
@@ -36,6 +63,7 @@ export class WidgetModule {
     const res = await this.client.post<PublicPaymentSessionResponse>(
       '/v1/widget/payment-session',
       body,
+      options?.idempotencyKey ? idempotentRequestConfig(options) : undefined,
     );
     return res.data;
   }
@@ -85,49 +113,51 @@ export class WidgetModule {
   }
 
   /**
-   * Waits for payment completion by polling the public status endpoint until paid or timeout.
-   * Designed for browser/public usage (no secret keys).
+   * Watches a payment through the public status endpoint until it is paid, expires, fails or
+   * is cancelled.
+   * Designed for browser/public usage (no secret keys). Polling starts immediately.
+   *
+   * @example
+   * ```typescript
+   * for await (const status of beep.widget.watchPayment(referenceKey)) {
+   *   render(status);
+   * }
+   *
+   * // or
+   * const watcher = beep.widget.watchPayment(referenceKey, { jitter: 'equal' });
+   * watcher.on('paid', () => showReceipt());
+   * watcher.on('expired', () => offerNewInvoice());
+   * ```
    */
-  async waitForPaid(options: {
-    referenceKey: string;
-    intervalMs?: number; // default 15s
-    timeoutMs?: number; // default 5 min
-    signal?: AbortSignal;
-    onUpdate?: (status: PublicPaymentStatusResponse) => void;
-    onError?: (error: unknown) => void;
-  }): Promise<{ paid: boolean; last?: PublicPaymentStatusResponse }> {
-    const baseIntervalMs = options.intervalMs ?? 15_000;
-    let currentIntervalMs = baseIntervalMs;
-    const timeoutMs = options.timeoutMs ?? 5 * 60_000;
-    const deadline = Date.now() + timeoutMs;
+  watchPayment(
+    referenceKey: string,
+    options: PollingOptions = {},
+  ): Poller<PublicPaymentStatusResponse, PaymentWatchOutcome> {
+    return new Poller({
+      ...options,
+      fetch: () => this.getPaymentStatus(referenceKey),
+      settle: paymentWatchOutcome,
+    });
+  }
 
-    let last: PublicPaymentStatusResponse | undefined;
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      if (options.signal?.aborted) return { paid: false, last };
-      try {
-        const res = await this.client.get<PublicPaymentStatusResponse>(
-          `/v1/widget/payment-status/${encodeURIComponent(options.referenceKey)}`,
-        );
-        last = res.data;
-        options.onUpdate?.(last);
-        if (last?.paid) return { paid: true, last };
-        // Reset backoff on a successful round-trip
-        currentIntervalMs = baseIntervalMs;
-      } catch (err) {
-        options.onError?.(err);
-        const ax = err as AxiosError<any>;
-        const status = ax.response?.status;
-        // Fatal for invalid/missing reference keys: abort early
-        if (status && [400, 401, 403, 404, 422].includes(status)) {
-          return { paid: false, last };
-        }
-        // Transient (429/5xx/network): backoff and continue
-        currentIntervalMs = Math.min(Math.ceil(currentIntervalMs * 1.5), 60_000);
-      }
-      if (Date.now() >= deadline) return { paid: false, last };
-      await new Promise((r) => setTimeout(r, currentIntervalMs));
-    }
+  /**
+   * Waits for payment completion by polling the public status endpoint until paid, expired,
+   * failed, cancelled or timeout. Built on {@link watchPayment}.
+   * Designed for browser/public usage (no secret keys).
+   */
+  async waitForPaid(
+    options: PollingOptions & {
+      referenceKey: string;
+      onUpdate?: (status: PublicPaymentStatusResponse) => void;
+      onError?: (error: unknown) => void;
+    },
+  ): Promise<{ paid: boolean; last?: PublicPaymentStatusResponse }> {
+    const { referenceKey, onUpdate, onError, ...polling } = options;
+    const watcher = this.watchPayment(referenceKey, polling);
+    if (onUpdate) watcher.on('update', onUpdate);
+    if (onError) watcher.on('error', onError);
+    const { outcome, last } = await watcher.result;
+    return { paid: outcome === 'paid', last };
   }
 
   async getDynamicEnv() {
@@ -0,0 +1,290 @@
+/**
+ * @fileoverview `fetch` wrapper for buying agents: pays HTTP 402 paywalls with a BeepClient
+ * and retries the request with the payment reference
+ */
+
+import { BeepError, BeepErrorCode, BeepValidationError, createBeepErrorFromAxios } from '../errors';
+import type { BeepClient } from '../index';
+import type { MoneyAmount } from '../types/common';
+import { InvoiceStatus } from '../types/invoice';
+import type { PaymentRequestData } from '../types/payment';
+import { Money } from '../types/money';
+import type { PollingOptions } from '../utils/poller';
+import { BEEP_PAYMENT_REFERENCE_HEADER } from './index';
+import type { PaymentRequirements, PaywallResponseBody } from './index';
+
+/**
+ * Limits on what a paying fetch may spend. Every payment must pass all of them.
+ *
+ * Amounts and tokens are checked against what BEEP reports for the payment reference, not
+ * against the figures in the server's 402 body.
+ *
+ * @example
+ * ```typescript
+ * const policy: SpendPolicy = {
+ *   maxAmountPerRequest: '0.50',
+ *   maxTotalAmount: '20.00',
+ *   allowedHosts: ['api.example.com'],
+ * };
+ * ```
+ */
+export interface SpendPolicy {
+  /** Highest amount a single request may cost */
+  maxAmountPerRequest?: MoneyAmount;
+  /** Highest amount all payments made through this fetch may add up to */
+  maxTotalAmount?: MoneyAmount;
+  /** Token addresses payments may be made in */
+  allowedTokens?: string[];
+  /** Hostnames that may be paid */
+  allowedHosts?: string[];
+  /** Final say on each payment that passed the limits above, e.g. to ask a human */
+  approve?: (payment: PaymentAttempt) => boolean | Promise<boolean>;
+}
+
+/**
+ * A payment about to be made, or just made, for a request
+ */
+export interface PaymentAttempt {
+  /** URL of the request that asked for payment */
+  url: string;
+  /** What the server asked for */
+  requirements: PaymentRequirements;
+  /** Amount the reference charges according to BEEP, in decimal format */
+  amount: string;
+  /** Address of the token the reference charges in according to BEEP */
+  token: string;
+}
+
+/**
+ * Configuration for {@link createPayingFetch}
+ */
+export interface PayingFetchOptions {
+  /** Client that pays and confirms payments */
+  beepClient: BeepClient;
+  /** Spending limits checked before every payment */
+  policy: SpendPolicy;
+  /** Merchant charged by the default `pay`; required unless `pay` is given */
+  payingMerchantId?: string;
+  /**
+   * Makes the payment. Defaults to issuing a charge against the seller's invoice with
+   * `beepClient.payments.issuePayment`; replace it to settle another way, e.g. from a wallet.
+   */
+  pay?: (payment: PaymentAttempt) => Promise<void>;
+  /** Timing for the wait for confirmation; see `waitForPaymentCompletion` */
+  wait?: PollingOptions;
+  /** Called once a payment is confirmed, before the request is retried */
+  onPayment?: (payment: PaymentAttempt) => void;
+  /**
+   * Underlying fetch implementation
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+// Enough precision for any supported token's amounts
+const COMPARISON_DECIMALS = 18;
+
+const toMoney = (amount: MoneyAmount | number): Money =>
+  Money.parse(amount, { decimals: COMPARISON_DECIMALS });
+
+const isPaymentRequirements = (value: unknown): value is PaymentRequirements => {
+  const payment = value as Partial<PaymentRequirements> | undefined;
+  return (
+    typeof payment?.referenceKey === 'string' &&
+    typeof payment.invoiceId === 'string' &&
+    // Never let a server choose which header the reference is sent in, e.g. Authorization
+    typeof payment.header === 'string' &&
+    payment.header.toLowerCase() === BEEP_PAYMENT_REFERENCE_HEADER &&
+    (typeof payment.amount === 'number' || typeof payment.amount === 'string') &&
+    Array.isArray(payment.assets)
+  );
+};
+
+/** Returns the BEEP payment requirements of a 402 response, or undefined for other paywalls */
+const readRequirements = async (response: Response): Promise<PaymentRequirements | undefined> => {
+  try {
+    const body = (await response.clone().json()) as PaywallResponseBody;
+    return isPaymentRequirements(body?.payment) ? body.payment : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const urlOf = (input: RequestInfo | URL): string =>
+  input instanceof Request ? input.url : input.toString();
+
+const policyViolation = (
+  message: string,
+  payment: Pick<PaymentAttempt, 'url' | 'requirements'>,
+): BeepError =>
+  new BeepError(message, {
+    code: BeepErrorCode.SPEND_POLICY_VIOLATION,
+    details: { url: payment.url, requirements: payment.requirements },
+  });
+
+/**
+ * Wraps `fetch` so requests behind a BEEP paywall are paid for automatically.
+ *
+ * When a response is a 402 carrying BEEP payment requirements (see `beepPaywall`), the
+ * reference is looked up with BEEP, its amount and token are checked against the spend
+ * policy, the payment is made, confirmation is awaited
+ * with `waitForPaymentCompletion`, and the request is sent once more with the reference in
+ * the `x-beep-payment-reference` header. Other responses, including 402s from other paywalls
+ * or ones naming a different header, are returned untouched.
+ *
+ * A request whose body is a stream cannot be sent twice; pass a `Request`, a string or a
+ * buffer instead.
+ *
+ * The returned function rejects with a `BeepError` with code `SPEND_POLICY_VIOLATION` when
+ * the policy forbids a payment or BEEP does not confirm the requested invoice, `PAYMENT_EXPIRED` or `PAYMENT_FAILED` when the payment is
+ * not confirmed, or the error thrown by `pay`.
+ *
+ * @returns A function with the same signature as `fetch`
+ * @throws {BeepValidationError} When neither `pay` nor `payingMerchantId` is given, or a
+ * policy amount is malformed
+ *
+ * @example
+ * ```typescript
+ * const payingFetch = createPayingFetch({
+ *   beepClient: beep,
+ *   payingMerchantId: 'merchant_agent',
+ *   policy: { maxAmountPerRequest: '0.50', maxTotalAmount: '20.00' },
+ * });
+ *
+ * const report = await payingFetch('https://api.example.com/reports/42').then((r) => r.json());
+ * ```
+ */
+export function createPayingFetch(
+  options: PayingFetchOptions,
+): (input: RequestInfo | URL, init?: RequestInit) => Promise<Response> {
+  const { beepClient, policy, payingMerchantId } = options;
+  if (!options.pay && !payingMerchantId) {
+    throw new BeepValidationError('payingMerchantId is required unless pay is given', {
+      code: BeepErrorCode.MISSING_PARAMETER,
+      details: { field: 'payingMerchantId' },
+    });
+  }
+  const maxPerRequest =
+    policy.maxAmountPerRequest === undefined ? undefined : toMoney(policy.maxAmountPerRequest);
+  const maxTotal = policy.maxTotalAmount === undefined ? undefined : toMoney(policy.maxTotalAmount);
+
+  const pay =
+    options.pay ??
+    (async ({ requirements }: PaymentAttempt): Promise<void> => {
+      await beepClient.payments.issuePayment(
+        {
+          assetChunks: requirements.assets,
+          payingMerchantId: payingMerchantId as string,
+          invoiceId: requirements.invoiceId,
+        },
+        // Never charge twice for the same payment request
+        { idempotencyKey: `paywall_${requirements.referenceKey}` },
+      );
+    });
+
+  // Includes payments in flight
+  let spent = toMoney(0);
+
+  /**
+   * Reads the amount and token of the reference from BEEP, so a server cannot understate
+   * what the payment will cost in its 402 body
+   */
+  const confirm = async (
+    url: string,
+    requirements: PaymentRequirements,
+  ): Promise<PaymentAttempt> => {
+    const data: PaymentRequestData | null = await beepClient.payments.requestAndPurchaseAsset(
+      {
+        assets: requirements.assets,
+        paymentReference: requirements.referenceKey,
+        generateQrCode: false,
+      },
+      { strict: true },
+    );
+    if (
+      data?.referenceKey !== requirements.referenceKey ||
+      data.invoiceId !== requirements.invoiceId ||
+      data.amount === undefined ||
+      data.amount === null
+    ) {
+      throw policyViolation('BEEP does not confirm the requested payment', { url, requirements });
+    }
+    return { url, requirements, amount: String(data.amount), token: data.splTokenAddress };
+  };
+
+  /** Checks the policy and reserves the amount against maxTotalAmount */
+  const reserve = async (payment: PaymentAttempt, amount: Money): Promise<void> => {
+    if (policy.allowedHosts) {
+      // Resolve relative URLs against the page in browsers
+      const host = new URL(payment.url, globalThis.location?.href).hostname;
+      if (!policy.allowedHosts.includes(host)) {
+        throw policyViolation(`Paying ${host} is not allowed`, payment);
+      }
+    }
+    if (policy.allowedTokens && !policy.allowedTokens.includes(payment.token)) {
+      throw policyViolation(`Paying in token ${payment.token} is not allowed`, payment);
+    }
+    if (maxPerRequest && amount.greaterThan(maxPerRequest)) {
+      throw policyViolation(
+        `${payment.amount} exceeds the per-request limit of ${policy.maxAmountPerRequest}`,
+        payment,
+      );
+    }
+    if (policy.approve && !(await policy.approve(payment))) {
+      throw policyViolation('Payment was not approved', payment);
+    }
+    // Checked last, with no await before the reservation, so concurrent requests cannot race
+    if (maxTotal && spent.add(amount).greaterThan(maxTotal)) {
+      throw policyViolation(
+        `${payment.amount} would exceed the total limit of ${policy.maxTotalAmount}`,
+        payment,
+      );
+    }
+    spent = spent.add(amount);
+  };
+
+  return async (input, init) => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    // A Request body can only be read once; keep a copy for the retry
+    const retryInput = input instanceof Request ? input.clone() : input;
+
+    const response = await fetchImpl(input, init);
+    if (response.status !== 402) return response;
+    const requirements = await readRequirements(response);
+    if (!requirements) return response;
+
+    const payment = await confirm(urlOf(input), requirements);
+    const amount = toMoney(payment.amount);
+    await reserve(payment, amount);
+    try {
+      await pay(payment);
+    } catch (error) {
+      spent = spent.subtract(amount);
+      throw createBeepErrorFromAxios(error);
+    }
+
+    const { paid, last } = await beepClient.payments.waitForPaymentCompletion({
+      ...options.wait,
+      assets: requirements.assets,
+      paymentReference: requirements.referenceKey,
+    });
+    if (!paid) {
+      const expired = last?.status === InvoiceStatus.EXPIRED;
+      throw new BeepError(
+        expired
+          ? 'The payment request expired before it was paid'
+          : 'The payment was not confirmed',
+        {
+          code: expired ? BeepErrorCode.PAYMENT_EXPIRED : BeepErrorCode.PAYMENT_FAILED,
+          details: { url: payment.url, requirements, last },
+        },
+      );
+    }
+    options.onPayment?.(payment);
+
+    const headers = new Headers(retryInput instanceof Request ? retryInput.headers : undefined);
+    new Headers(init?.headers).forEach((value, key) => headers.set(key, value));
+    headers.set(BEEP_PAYMENT_REFERENCE_HEADER, requirements.referenceKey);
+    return fetchImpl(retryInput, { ...init, headers });
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * @fileoverview HTTP 402 paywall for Express, Fastify and fetch-style route handlers, built on
+ * the two-phase `requestAndPurchaseAsset` flow
+ */
+
+import { BeepError, BeepErrorCode } from '../errors';
+import type { PaymentsModule } from '../modules/payments';
+import { InvoiceStatus } from '../types/invoice';
+import type { BeepPurchaseAsset, PaymentRequestData } from '../types/payment';
+import type {
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  FastifyLikeReply,
+  FastifyLikeRequest,
+} from '../webhooks/handlers';
+import { InMemoryPaywallReferenceStore, PaywallReferenceStore } from './store';
+
+/** Header clients send the reference key of a payment in */
+export const BEEP_PAYMENT_REFERENCE_HEADER = 'x-beep-payment-reference';
+
+/**
+ * Configuration for {@link beepPaywall}
+ */
+export interface BeepPaywallOptions {
+  /** Module used to request and verify payments; needs a secret API key */
+  payments: PaymentsModule;
+  /** Assets a request has to pay for */
+  assets: BeepPurchaseAsset[];
+  /** Label shown on the payment request (e.g. merchant name) */
+  paymentLabel?: string;
+  /**
+   * Include a QR code in the payment requirements
+   * @default false
+   */
+  generateQrCode?: boolean;
+  /**
+   * Store used to skip checking references that were already verified as paid
+   * @default InMemoryPaywallReferenceStore
+   */
+  store?: PaywallReferenceStore;
+  /**
+   * How long a verified reference grants access, in milliseconds. By default a paid
+   * reference unlocks the routes for as long as the store remembers it, for any client
+   * that presents it.
+   */
+  accessTtlMs?: number;
+  /**
+   * Most payment requests (each one an invoice) this paywall creates per window for
+   * requests without a usable reference; further requests get a 429. The limit is shared by
+   * all clients, so put a per-client rate limiter in front of the paywall as well.
+   * @default { max: 100, windowMs: 60000 }
+   */
+  paymentRequestLimit?: { max: number; windowMs: number };
+  /** Called when BEEP cannot be reached to request or verify a payment */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * What a client has to pay to get through the paywall, sent in the 402 response body
+ */
+export interface PaymentRequirements {
+  /** Reference key to pay against and to send back in {@link header} */
+  referenceKey: string;
+  /** Invoice created for the payment */
+  invoiceId: string;
+  /** Assets the payment is for */
+  assets: BeepPurchaseAsset[];
+  /** URL where the payment can be completed */
+  paymentUrl: string;
+  /** Amount to pay, in decimal format */
+  amount: number;
+  /** Address of the token to pay in */
+  token: string;
+  /** When the payment request expires */
+  expiresAt: string;
+  /** QR code for mobile wallets, when `generateQrCode` is set */
+  qrCode?: string;
+  /** Header to send `referenceKey` in once paid */
+  header: string;
+}
+
+/**
+ * JSON body of a rejected request
+ */
+export interface PaywallResponseBody {
+  error: string;
+  /** Present on 402 responses */
+  payment?: PaymentRequirements;
+}
+
+/**
+ * Framework-independent outcome of checking a request
+ */
+export type PaywallDecision =
+  | { allowed: true; referenceKey: string }
+  | {
+      allowed: false;
+      /**
+       * 402 when payment is required, 429 when too many payment requests were created
+       * recently, 502 when BEEP could not be reached
+       */
+      status: number;
+      body: PaywallResponseBody;
+    };
+
+/**
+ * A paywall with one adapter per framework. Adapters created from the same paywall share
+ * its store of verified references.
+ */
+export interface BeepPaywall {
+  /**
+   * Checks a payment reference taken from a request
+   *
+   * @param referenceKey - Value of the {@link BEEP_PAYMENT_REFERENCE_HEADER} header, if any
+   */
+  check(referenceKey: string | null | undefined): Promise<PaywallDecision>;
+  /** Express middleware; calls `next()` once the request is paid for */
+  express(): (
+    req: ExpressLikeRequest,
+    res: ExpressLikeResponse,
+    next: (error?: unknown) => void,
+  ) => Promise<void>;
+  /** Fastify `preHandler` hook; replies with 402 unless the request is paid for */
+  fastify(): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<void>;
+  /** Wraps a fetch-style route handler so it only runs once the request is paid for */
+  fetch(
+    handler: (request: Request) => Response | Promise<Response>,
+  ): (request: Request) => Promise<Response>;
+}
+
+/** Statuses BEEP answers with for references it does not know or cannot use */
+const INVALID_REFERENCE_STATUSES = [400, 404, 422];
+
+const headerValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+const toRequirements = (
+  data: PaymentRequestData,
+  assets: BeepPurchaseAsset[],
+): PaymentRequirements => ({
+  referenceKey: data.referenceKey,
+  invoiceId: data.invoiceId,
+  assets,
+  paymentUrl: data.paymentUrl,
+  amount: data.amount,
+  token: data.splTokenAddress,
+  expiresAt: new Date(data.expiresAt).toISOString(),
+  ...(data.qrCode && { qrCode: data.qrCode }),
+  header: BEEP_PAYMENT_REFERENCE_HEADER,
+});
+
+/**
+ * Creates an HTTP 402 paywall.
+ *
+ * Requests without a payment reference get a 402 with fresh payment requirements (URL, amount,
+ * token, reference key). Requests carrying a reference in the `x-beep-payment-reference` header
+ * are checked with BEEP and let through once paid; a pending reference gets its requirements
+ * again, and an unknown, expired, failed or cancelled one gets new requirements. Verified
+ * references are kept in the store, scoped to this paywall's assets, so they are not checked
+ * again; they grant access until `accessTtlMs` passes, or for as long as the store keeps them.
+ *
+ * Response codes:
+ * - 402 when payment is required
+ * - 429 when `paymentRequestLimit` new payment requests were already created in this window
+ * - 502 when BEEP could not be reached to request or verify the payment
+ *
+ * @example
+ * ```typescript
+ * const paywall = beepPaywall({
+ *   payments: beep.payments,
+ *   assets: [{ assetId: 'premium-report', quantity: 1 }],
+ *   paymentLabel: 'Acme Research',
+ * });
+ *
+ * app.get('/reports/:id', paywall.express(), (req, res) => res.json(loadReport(req.params.id)));
+ *
+ * // Next.js App Router
+ * export const GET = paywall.fetch(async () => Response.json(await loadReport()));
+ * ```
+ */
+export function beepPaywall(options: BeepPaywallOptions): BeepPaywall {
+  const store = options.store ?? new InMemoryPaywallReferenceStore();
+  const limit = options.paymentRequestLimit ?? { max: 100, windowMs: 60_000 };
+  // A reference paid for one set of assets must not unlock a paywall for another
+  const scope = JSON.stringify(
+    options.assets
+      .map(({ assetId, quantity }) => [assetId, quantity])
+      .sort(([a], [b]) => String(a).localeCompare(String(b))),
+  );
+  const storeKey = (referenceKey: string) => `${scope}:${referenceKey}`;
+  let requestWindow = { start: 0, count: 0 };
+
+  const requestPayment = async (paymentReference?: string): Promise<PaymentRequestData> =>
+    options.payments.requestAndPurchaseAsset(
+      {
+        assets: options.assets,
+        paymentLabel: options.paymentLabel,
+        generateQrCode: options.generateQrCode ?? false,
+        ...(paymentReference && { paymentReference }),
+      },
+      { strict: true },
+    );
+
+  const paymentRequired = async (): Promise<PaywallDecision> => {
+    const now = Date.now();
+    if (now - requestWindow.start >= limit.windowMs) requestWindow = { start: now, count: 0 };
+    if (requestWindow.count >= limit.max) {
+      return { allowed: false, status: 429, body: { error: 'Too many payment requests' } };
+    }
+    requestWindow.count++;
+
+    const data = await requestPayment();
+    if (!data?.referenceKey) {
+      throw new BeepError('BEEP did not return a payment reference', {
+        code: BeepErrorCode.SERVER_ERROR,
+      });
+    }
+    return {
+      allowed: false,
+      status: 402,
+      body: { error: 'Payment required', payment: toRequirements(data, options.assets) },
+    };
+  };
+
+  const verify = async (referenceKey: string): Promise<PaywallDecision> => {
+    let data: PaymentRequestData;
+    try {
+      data = await requestPayment(referenceKey);
+    } catch (error) {
+      const status = error instanceof BeepError ? error.statusCode : undefined;
+      // Unknown or malformed references get a new payment request; anything else is an outage
+      if (status && INVALID_REFERENCE_STATUSES.includes(status)) return paymentRequired();
+      throw error;
+    }
+
+    // A 402 without a payload says nothing about the reference, so never treat it as paid
+    if (!data) return paymentRequired();
+    // The 402 flow reports a completed payment by omitting the reference key
+    if (!data.referenceKey) {
+      await store.add(storeKey(referenceKey), options.accessTtlMs);
+      return { allowed: true, referenceKey };
+    }
+    if (
+      data.status === InvoiceStatus.EXPIRED ||
+      data.status === InvoiceStatus.FAILED ||
+      data.status === InvoiceStatus.CANCELLED
+    ) {
+      return paymentRequired();
+    }
+    return {
+      allowed: false,
+      status: 402,
+      body: { error: 'Payment pending', payment: toRequirements(data, options.assets) },
+    };
+  };
+
+  const check = async (referenceKey: string | null | undefined): Promise<PaywallDecision> => {
+    try {
+      if (!referenceKey) return await paymentRequired();
+      if (await store.has(storeKey(referenceKey))) return { allowed: true, referenceKey };
+      return await verify(referenceKey);
+    } catch (error) {
+      try {
+        options.onError?.(error);
+      } catch {
+        // check never rejects: Express 4 would leave the rejection unhandled
+      }
+      return { allowed: false, status: 502, body: { error: 'Payment verification failed' } };
+    }
+  };
+
+  return {
+    check,
+
+    // eslint-disable-next-line max-params -- Express middleware signature
+    express: () => async (req, res, next) => {
+      const decision = await check(headerValue(req.headers[BEEP_PAYMENT_REFERENCE_HEADER]));
+      if (decision.allowed) {
+        next();
+        return;
+      }
+      res.status(decision.status).json(decision.body);
+    },
+
+    fastify: () => async (request, reply) => {
+      const decision = await check(headerValue(request.headers[BEEP_PAYMENT_REFERENCE_HEADER]));
+      if (!decision.allowed) await reply.code(decision.status).send(decision.body);
+    },
+
+    fetch: (handler) => async (request) => {
+      const decision = await check(request.headers.get(BEEP_PAYMENT_REFERENCE_HEADER));
+      if (decision.allowed) return handler(request);
+      return new Response(JSON.stringify(decision.body), {
+        status: decision.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    },
+  };
+}
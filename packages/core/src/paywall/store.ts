@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Storage for payment references a paywall has already verified as paid
+ */
+
+/**
+ * Records which payment references are known to be paid, so they are not checked with BEEP
+ * on every request. Implement this on top of Redis, a database table, etc. when running more
+ * than one process. Keys are scoped to the paywall's assets by the paywall itself.
+ */
+export interface PaywallReferenceStore {
+  /** Returns true when the reference has been verified as paid and has not expired */
+  has(key: string): boolean | Promise<boolean>;
+  /**
+   * Marks the reference as paid
+   *
+   * @param ttlMs - How long the reference grants access, in milliseconds; forever when omitted
+   */
+  add(key: string, ttlMs?: number): void | Promise<void>;
+}
+
+/**
+ * Default in-process store that remembers the most recently verified references.
+ * Suitable for a single server instance; references are lost on restart.
+ */
+export class InMemoryPaywallReferenceStore implements PaywallReferenceStore {
+  // Key to expiry time; Infinity for references that never expire
+  private readonly references = new Map<string, number>();
+  private readonly maxSize: number;
+
+  /**
+   * @param maxSize - Number of references to remember before evicting the oldest
+   */
+  constructor(maxSize: number = 10_000) {
+    this.maxSize = maxSize;
+  }
+
+  has(key: string): boolean {
+    const expiresAt = this.references.get(key);
+    if (expiresAt === undefined) return false;
+    if (expiresAt > Date.now()) return true;
+    this.references.delete(key);
+    return false;
+  }
+
+  add(key: string, ttlMs?: number): void {
+    // Re-insert so a renewed reference moves to the back of the eviction order
+    this.references.delete(key);
+    this.references.set(key, ttlMs === undefined ? Infinity : Date.now() + ttlMs);
+    if (this.references.size > this.maxSize) {
+      // Maps iterate in insertion order, so the first entry is the oldest
+      const oldest = this.references.keys().next().value;
+      if (oldest !== undefined) this.references.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * @fileoverview Minimal QR Code (ISO/IEC 18004) encoder: byte mode, versions 1-40, all four
+ * error correction levels. Kept in-house so rendering works in browsers and servers without
+ * pulling in canvas or image dependencies.
+ */
+
+import { BeepErrorCode, BeepValidationError } from '../errors';
+
+/**
+ * How much of the code can be damaged or covered (e.g. by a logo) and still scan:
+ * L ~7%, M ~15%, Q ~25%, H ~30%
+ */
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+/**
+ * A square grid of modules; `modules[y][x]` is true for dark modules
+ */
+export interface QrMatrix {
+  /** Version 1-40; the grid is `4 * version + 17` modules wide */
+  version: number;
+  /** Width and height in modules, without a quiet zone */
+  size: number;
+  modules: boolean[][];
+}
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30,
+    30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30,
+    30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+  ],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14,
+    15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23,
+    25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34,
+    34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35,
+    37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+};
+
+// Two-bit level indicator stored in the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const bit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+/** Number of modules that carry data (codewords and remainder bits) in a version */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QrErrorCorrection): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version]
+  );
+}
+
+/** Multiplies in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => (result[i] ^= gfMultiply(coefficient, factor)));
+  }
+  return result;
+}
+
+/** Encodes the bytes as one byte-mode segment, padded to the version's data capacity */
+function encodeData(bytes: Uint8Array, options: { version: number; capacity: number }): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, options.version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacityBits = options.capacity * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+  }
+  return codewords;
+}
+
+/** Splits data into blocks, appends each block's error correction and interleaves them */
+function addErrorCorrection(
+  data: number[],
+  options: { version: number; level: QrErrorCorrection },
+): number[] {
+  const { version, level } = options;
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+
+  const divisor = reedSolomonDivisor(eccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(
+      offset,
+      offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1),
+    );
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Placeholder so short and long blocks line up when interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+/**
+ * Penalty score of a masked grid (ISO/IEC 18004 section 7.8.3); the mask with the lowest
+ * score is used
+ */
+function penalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let score = 0;
+  let dark = 0;
+
+  for (let i = 0; i < size; i++) {
+    let rowRun = 0;
+    let columnRun = 0;
+    let rowPattern = 0;
+    let columnPattern = 0;
+    for (let j = 0; j < size; j++) {
+      // Runs of five or more same-colored modules
+      if (j > 0 && modules[i][j] === modules[i][j - 1]) rowRun++;
+      else {
+        if (rowRun >= 5) score += rowRun - 2;
+        rowRun = 1;
+      }
+      if (j > 0 && modules[j][i] === modules[j - 1][i]) columnRun++;
+      else {
+        if (columnRun >= 5) score += columnRun - 2;
+        columnRun = 1;
+      }
+
+      // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+      rowPattern = ((rowPattern << 1) & 0x7ff) | (modules[i][j] ? 1 : 0);
+      columnPattern = ((columnPattern << 1) & 0x7ff) | (modules[j][i] ? 1 : 0);
+      if (j >= 10) {
+        if (rowPattern === 0x5d0 || rowPattern === 0x05d) score += 40;
+        if (columnPattern === 0x5d0 || columnPattern === 0x05d) score += 40;
+      }
+
+      // 2x2 blocks of one color
+      if (
+        i > 0 &&
+        j > 0 &&
+        modules[i][j] === modules[i - 1][j] &&
+        modules[i][j] === modules[i][j - 1] &&
+        modules[i][j] === modules[i - 1][j - 1]
+      ) {
+        score += 3;
+      }
+      if (modules[i][j]) dark++;
+    }
+    if (rowRun >= 5) score += rowRun - 2;
+    if (columnRun >= 5) score += columnRun - 2;
+  }
+
+  // Deviation of the dark share from 50%, in steps of 5%
+  const total = size * size;
+  score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+  return score;
+}
+
+/**
+ * Encodes text (as UTF-8) into a QR code, using the smallest version that fits
+ *
+ * @throws {BeepValidationError} With code `INVALID_PARAMETER` when the text does not fit in
+ * a version 40 code at the requested error correction level
+ */
+export function encodeQr(text: string, level: QrErrorCorrection): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  for (; version <= 40; version++) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= dataCodewords(version, level) * 8) break;
+  }
+  if (version > 40) {
+    throw new BeepValidationError(
+      `Text of ${bytes.length} bytes is too long for a QR code at error correction ${level}`,
+      { code: BeepErrorCode.INVALID_PARAMETER, details: { length: bytes.length, level } },
+    );
+  }
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = ([x, y]: [number, number], dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  const drawFormat = (mask: number) => {
+    const data = (FORMAT_BITS[level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) setFunction([8, i], bit(bits, i));
+    setFunction([8, 7], bit(bits, 6));
+    setFunction([8, 8], bit(bits, 7));
+    setFunction([7, 8], bit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunction([14 - i, 8], bit(bits, i));
+
+    for (let i = 0; i < 8; i++) setFunction([size - 1 - i, 8], bit(bits, i));
+    for (let i = 8; i < 15; i++) setFunction([8, size - 15 + i], bit(bits, i));
+    setFunction([8, size - 8], true);
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction([6, i], i % 2 === 0);
+    setFunction([i, 6], i % 2 === 0);
+  }
+
+  // Finder patterns and their separators
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunction([x, y], distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap a finder
+  const alignments = alignmentPositions(version);
+  const last = alignments.length - 1;
+  alignments.forEach((cy, i) =>
+    alignments.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction([cx + dx, cy + dy], Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }),
+  );
+
+  // Reserve the format areas; the real bits are drawn once the mask is chosen
+  drawFormat(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction([a, b], bit(bits, i));
+      setFunction([b, a], bit(bits, i));
+    }
+  }
+
+  // Codewords in the zig-zag order: two-module columns from the right, alternating direction
+  const codewords = addErrorCorrection(
+    encodeData(bytes, { version, capacity: dataCodewords(version, level) }),
+    { version, level },
+  );
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // The vertical timing pattern takes a whole column
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && index < codewords.length * 8) {
+          modules[y][x] = bit(codewords[index >>> 3], 7 - (index & 7));
+          index++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormat(mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    // Masking is an XOR, so applying it again undoes it
+    applyMask(mask);
+  }
+  applyMask(bestMask);
+  drawFormat(bestMask);
+
+  return { version, size, modules };
+}
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Renders payment links as QR codes (SVG markup or PNG data URLs) for emails,
+ * receipts and the checkout widget. Browser-safe and dependency-free.
+ */
+
+import { BeepErrorCode, BeepValidationError } from '../errors';
+import { QrErrorCorrection, encodeQr } from './encoder';
+import { toPngDataUrl } from './png';
+
+export type { QrErrorCorrection } from './encoder';
+
+/** Output of {@link renderPaymentQr} */
+export type QrFormat = 'svg' | 'png-dataurl';
+
+/**
+ * Image drawn in the middle of the code. The modules underneath are cleared, so pair it with
+ * a high error correction level.
+ */
+export interface QrLogo {
+  /**
+   * Image URL. Use a data URL when the SVG is shown through an `<img>` tag or in email, where
+   * external images inside an SVG are not loaded.
+   */
+  src: string;
+  /**
+   * Width of the logo as a fraction of the code's width, at most 0.3
+   * @default 0.2
+   */
+  size?: number;
+}
+
+/**
+ * Options for {@link renderPaymentQr}
+ */
+export interface RenderPaymentQrOptions {
+  /**
+   * `svg` returns SVG markup; `png-dataurl` returns a `data:image/png;base64,` URL
+   * @default 'svg'
+   */
+  format?: QrFormat;
+  /**
+   * Width and height of the image in pixels
+   * @default 256
+   */
+  size?: number;
+  /**
+   * Light border around the code, in modules. Scanners expect 4 unless the code sits on a
+   * light background that provides it.
+   * @default 4
+   */
+  margin?: number;
+  /** Logo drawn in the middle of the code; SVG only */
+  logo?: QrLogo;
+  /**
+   * Error correction level
+   * @default 'H' with a logo, otherwise 'M'
+   */
+  errorCorrection?: QrErrorCorrection;
+}
+
+const MAX_LOGO_SIZE = 0.3;
+
+const invalid = (message: string, details?: Record<string, unknown>): BeepValidationError =>
+  new BeepValidationError(message, { code: BeepErrorCode.INVALID_PARAMETER, details });
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Renders a payment link, such as `paymentUrl` from a payment request or a
+ * {@link PaymentUri.build} result, as a QR code
+ *
+ * @param paymentUrl - Text to encode
+ * @param options - Format, size, margin, logo and error correction
+ * @returns SVG markup, or a PNG data URL for `format: 'png-dataurl'`
+ * @throws {BeepValidationError} With code `MISSING_PARAMETER` for an empty link, or
+ * `INVALID_PARAMETER` for invalid options, a logo on a PNG, or a link too long for a QR code
+ *
+ * @example
+ * ```typescript
+ * // Server: attach a QR code to a receipt email
+ * const png = renderPaymentQr(payment.paymentUrl, { format: 'png-dataurl', size: 300 });
+ * html += `<img src="${png}" width="300" height="300" alt="Scan to pay">`;
+ *
+ * // Browser: inline SVG with a logo
+ * container.innerHTML = renderPaymentQr(paymentUrl, { logo: { src: logoDataUrl } });
+ * ```
+ */
+export function renderPaymentQr(paymentUrl: string, options: RenderPaymentQrOptions = {}): string {
+  const { format = 'svg', size = 256, margin = 4, logo } = options;
+  if (typeof paymentUrl !== 'string' || !paymentUrl) {
+    throw new BeepValidationError('paymentUrl is required', {
+      code: BeepErrorCode.MISSING_PARAMETER,
+      details: { field: 'paymentUrl' },
+    });
+  }
+  if (format !== 'svg' && format !== 'png-dataurl') {
+    throw invalid(`Unsupported QR format: ${format}`, { format });
+  }
+  if (!Number.isInteger(size) || size < 1) {
+    throw invalid('QR size must be a positive whole number of pixels', { size });
+  }
+  if (!Number.isInteger(margin) || margin < 0) {
+    throw invalid('QR margin must be a whole number of modules', { margin });
+  }
+  const logoSize = logo?.size ?? 0.2;
+  if (logo && !(logoSize > 0 && logoSize <= MAX_LOGO_SIZE)) {
+    throw invalid(`Logo size must be above 0 and at most ${MAX_LOGO_SIZE}`, { size: logoSize });
+  }
+  if (logo && format !== 'svg') {
+    throw invalid('Logos are only supported in SVG output', { format });
+  }
+
+  const qr = encodeQr(paymentUrl, options.errorCorrection ?? (logo ? 'H' : 'M'));
+  const cells = qr.size + margin * 2;
+
+  // Centered square of modules under the logo; odd like the code so it stays centered
+  let logoModules = logo ? Math.ceil(qr.size * logoSize) : 0;
+  if (logoModules % 2 === 0 && logoModules > 0) logoModules++;
+  const logoStart = (qr.size - logoModules) / 2;
+  const underLogo = (x: number, y: number) =>
+    x >= logoStart && x < logoStart + logoModules && y >= logoStart && y < logoStart + logoModules;
+  const isDark = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < qr.size && y < qr.size && qr.modules[y][x] && !underLogo(x, y);
+
+  if (format === 'png-dataurl') {
+    if (size < cells) {
+      throw invalid(`A PNG of this code needs at least ${cells} pixels`, { size, minimum: cells });
+    }
+    return toPngDataUrl({
+      size,
+      isDark: (x, y) =>
+        isDark(Math.floor((x * cells) / size) - margin, Math.floor((y * cells) / size) - margin),
+    });
+  }
+
+  // One path of horizontal runs keeps the markup small and renders without seams
+  let path = '';
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; ) {
+      if (!isDark(x, y)) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < qr.size && isDark(x, y)) x++;
+      path += `M${start + margin} ${y + margin}h${x - start}v1H${start + margin}z`;
+    }
+  }
+  const image = logo
+    ? `<image href="${escapeAttribute(logo.src)}" x="${logoStart + margin}" y="${logoStart + margin}" ` +
+      `width="${logoModules}" height="${logoModules}" preserveAspectRatio="xMidYMid meet"/>`
+    : '';
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+    `viewBox="0 0 ${cells} ${cells}" shape-rendering="crispEdges">` +
+    `<path fill="#FFFFFF" d="M0 0h${cells}v${cells}H0z"/>` +
+    `<path fill="#000000" d="${path}"/>${image}</svg>`
+  );
+}
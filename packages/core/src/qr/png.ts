@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Writes black-and-white images as PNG data URLs without canvas or zlib, so
+ * it runs the same in browsers, Node and edge runtimes
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Largest payload of an uncompressed deflate block
+const MAX_STORED_BLOCK = 0xffff;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+const uint32 = (value: number): number[] => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+function chunk(type: string, data: Uint8Array): number[] {
+  const typed = new Uint8Array(4 + data.length);
+  for (let i = 0; i < 4; i++) typed[i] = type.charCodeAt(i);
+  typed.set(data, 4);
+  return [...uint32(data.length), ...typed, ...uint32(crc32(typed))];
+}
+
+/**
+ * Wraps data in a zlib stream of stored (uncompressed) blocks. One-bit images are small
+ * enough that compression is not worth an implementation.
+ */
+function zlibStore(data: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+  out.set([0x78, 0x01]);
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = data.subarray(i * MAX_STORED_BLOCK, (i + 1) * MAX_STORED_BLOCK);
+    const length = block.length;
+    out.set(
+      [
+        i === blockCount - 1 ? 1 : 0,
+        length & 0xff,
+        length >>> 8,
+        ~length & 0xff,
+        (~length >>> 8) & 0xff,
+      ],
+      offset,
+    );
+    out.set(block, offset + 5);
+    offset += 5 + length;
+  }
+  out.set(uint32(adler32(data)), offset);
+  return out;
+}
+
+/**
+ * Encodes a square one-bit image as a `data:image/png;base64,` URL
+ *
+ * @param options.size - Width and height in pixels
+ * @param options.isDark - Whether the pixel at (x, y) is black
+ */
+export function toPngDataUrl(options: {
+  size: number;
+  isDark: (x: number, y: number) => boolean;
+}): string {
+  const { size, isDark } = options;
+  const rowLength = 1 + Math.ceil(size / 8);
+  const pixels = new Uint8Array(rowLength * size);
+  for (let y = 0; y < size; y++) {
+    // Byte 0 of each row is the filter type (none); light pixels are 1 in grayscale
+    for (let x = 0; x < size; x++) {
+      if (!isDark(x, y)) pixels[y * rowLength + 1 + (x >>> 3)] |= 0x80 >>> (x & 7);
+    }
+  }
+
+  // Width, height, bit depth 1, color type 0 (grayscale), compression, filter, interlace
+  const header = new Uint8Array([...uint32(size), ...uint32(size), 1, 0, 0, 0, 0]);
+  const png = Uint8Array.from([
+    ...PNG_SIGNATURE,
+    ...chunk('IHDR', header),
+    ...chunk('IDAT', zlibStore(pixels)),
+    ...chunk('IEND', new Uint8Array(0)),
+  ]);
+
+  let binary = '';
+  for (const byte of png) binary += String.fromCharCode(byte);
+  return `data:image/png;base64,${btoa(binary)}`;
+}
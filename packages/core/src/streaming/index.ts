@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Stateful wrapper around the streaming payment lifecycle
+ * (issue → start → pause/resume → stop)
+ */
+
+import { BeepError, BeepErrorCode, createBeepErrorFromAxios } from '../errors';
+import type { PaymentsModule } from '../modules/payments';
+import type {
+  PauseStreamingResponse,
+  StartStreamingResponse,
+  StopStreamingResponse,
+} from '../types/payment';
+import type { StreamingSessionStatus } from '../types/streaming-payments';
+import { TypedEmitter } from '../utils/emitter';
+import type { IdempotentRequestOptions } from '../utils/idempotency';
+import {
+  StreamingPolicyViolation,
+  StreamingSessionPolicy,
+  evaluateStreamingPolicy,
+  validateStreamingPolicy,
+} from './policy';
+
+/**
+ * Local lifecycle state of a streaming session
+ *
+ * - `issued`: the invoice exists but no charges accrue yet
+ * - `streaming`: charges accrue
+ * - `paused`: charging is halted; the session can be resumed
+ * - `stopped`: charges are finalized; terminal
+ */
+export type StreamingSessionState = 'issued' | 'streaming' | 'paused' | 'stopped';
+
+/** Operations that move a session between states */
+export type StreamingSessionAction = 'start' | 'pause' | 'resume' | 'stop';
+
+/**
+ * Events emitted by a {@link StreamingSession}
+ */
+export interface StreamingSessionEvents {
+  /** Emitted after every successful transition */
+  stateChange: {
+    from: StreamingSessionState;
+    to: StreamingSessionState;
+    action: StreamingSessionAction;
+  };
+  started: StartStreamingResponse;
+  paused: PauseStreamingResponse;
+  resumed: StartStreamingResponse;
+  stopped: StopStreamingResponse;
+  /**
+   * Emitted when the policy is breached, just before the session is paused or stopped
+   */
+  limitReached: StreamingPolicyViolation;
+  /**
+   * Emitted when an API call fails; the state is left unchanged. `checkPolicy` failures are
+   * retried on the next check, and pause the session once the policy's `maxFailedChecks`
+   * status checks in a row have failed.
+   */
+  error: { action: StreamingSessionAction | 'checkPolicy'; error: BeepError };
+}
+
+/**
+ * Runs before a transition's API call; see {@link StreamingSession.addTransitionHook}
+ */
+export type StreamingTransitionHook = (
+  transition: StreamingSessionEvents['stateChange'],
+) => void | Promise<void>;
+
+/**
+ * Options for creating a {@link StreamingSession}
+ */
+export interface StreamingSessionOptions {
+  /** Module used for the API calls */
+  payments: PaymentsModule;
+  /** Invoice ID returned by `issuePayment` */
+  invoiceId: string;
+  /** Reference key returned by `issuePayment` */
+  referenceKey?: string;
+  /**
+   * State to resume from, e.g. when rebuilding a session for an existing invoice
+   * @default 'issued'
+   */
+  state?: StreamingSessionState;
+  /** Spending cap and auto-stop rules enforced while streaming */
+  policy?: StreamingSessionPolicy;
+}
+
+/**
+ * Options for `payments.createStreamingSession`
+ */
+export interface CreateStreamingSessionOptions extends IdempotentRequestOptions {
+  /** Spending cap and auto-stop rules enforced while streaming */
+  policy?: StreamingSessionPolicy;
+}
+
+const TRANSITIONS: Record<
+  StreamingSessionAction,
+  { from: readonly StreamingSessionState[]; to: StreamingSessionState }
+> = {
+  start: { from: ['issued'], to: 'streaming' },
+  pause: { from: ['streaming'], to: 'paused' },
+  resume: { from: ['paused'], to: 'streaming' },
+  stop: { from: ['issued', 'streaming', 'paused'], to: 'stopped' },
+};
+
+/**
+ * A streaming payment session with a local state machine.
+ *
+ * Illegal transitions (e.g. pausing a session that was never started, or anything after
+ * `stop()`) throw a `BeepError` with code `INVALID_STATE_TRANSITION` without calling the API.
+ * Only one transition may be in flight at a time.
+ *
+ * With a `policy`, the session checks its status every `checkIntervalMs` while streaming and
+ * pauses or stops itself once the charge cap, maximum duration or idle timeout is reached,
+ * emitting `limitReached` with the reason first. Between checks charges keep accruing, so
+ * they can overshoot the cap by up to one interval. If the status cannot be loaded
+ * `maxFailedChecks` times in a row, the session pauses rather than streaming unchecked.
+ *
+ * @example
+ * ```typescript
+ * const session = await beep.payments.createStreamingSession({
+ *   assetChunks: [{ assetId: 'gpu-minutes', quantity: 1 }],
+ *   payingMerchantId: 'merchant_123',
+ * });
+ *
+ * session.on('stateChange', ({ from, to }) => console.info(`${from} → ${to}`));
+ *
+ * await session.start();
+ * await session.pause();
+ * await session.resume();
+ * await session.stop();
+ *
+ * reconcile(session.referenceKeys);
+ * ```
+ */
+export class StreamingSession extends TypedEmitter<StreamingSessionEvents> {
+  /** Invoice ID the session bills against */
+  readonly invoiceId: string;
+  /** Reference key returned when the session was issued */
+  readonly referenceKey?: string;
+  /** Guardrails enforced while streaming */
+  readonly policy?: StreamingSessionPolicy;
+
+  private readonly payments: PaymentsModule;
+  private currentState: StreamingSessionState;
+  private currentAction?: StreamingSessionAction;
+  private collectedReferenceKeys: string[] = [];
+  private streamedMs = 0;
+  private streamingSince?: number;
+  private lastActivityAt = Date.now();
+  private policyTimers: ReturnType<typeof setTimeout>[] = [];
+  private checkingPolicy = false;
+  private durationDue = false;
+  private failedChecks = 0;
+  private readonly transitionHooks = new Set<StreamingTransitionHook>();
+
+  /**
+   * @throws {BeepValidationError} When the policy is malformed
+   */
+  constructor(options: StreamingSessionOptions) {
+    super();
+    if (options.policy) validateStreamingPolicy(options.policy);
+    this.payments = options.payments;
+    this.invoiceId = options.invoiceId;
+    this.referenceKey = options.referenceKey;
+    this.policy = options.policy;
+    this.currentState = options.state ?? 'issued';
+    if (this.currentState === 'streaming') this.enterStreaming();
+  }
+
+  /** Current local state */
+  get state(): StreamingSessionState {
+    return this.currentState;
+  }
+
+  /** Transition whose API call is in flight, if any */
+  get pendingAction(): StreamingSessionAction | undefined {
+    return this.currentAction;
+  }
+
+  /** Reference keys of the charges finalized by `stop()`, for reconciliation */
+  get referenceKeys(): readonly string[] {
+    return this.collectedReferenceKeys;
+  }
+
+  /** Time spent streaming so far, summed across resumes, in milliseconds */
+  get streamingDurationMs(): number {
+    const current = this.streamingSince === undefined ? 0 : Date.now() - this.streamingSince;
+    return this.streamedMs + current;
+  }
+
+  /**
+   * Records activity, which resets the policy's idle timeout.
+   * `UsageMeter.record` calls this for you.
+   */
+  markActivity(): void {
+    this.lastActivityAt = Date.now();
+  }
+
+  /**
+   * Returns true when `action` is allowed from the current state and nothing else is in flight
+   */
+  can(action: StreamingSessionAction): boolean {
+    return !this.currentAction && TRANSITIONS[action].from.includes(this.currentState);
+  }
+
+  /**
+   * Registers a hook that runs once a transition has been accepted but before its API call,
+   * while the session is still in its previous state. Transitions wait for every hook; a hook
+   * that throws cancels the transition and is reported like a failed API call.
+   * `UsageMeter` uses this to report usage before charging halts.
+   *
+   * @returns A function that removes the hook
+   */
+  addTransitionHook(hook: StreamingTransitionHook): () => void {
+    this.transitionHooks.add(hook);
+    return () => this.transitionHooks.delete(hook);
+  }
+
+  /**
+   * Starts charging. Allowed from `issued`.
+   */
+  async start(): Promise<StartStreamingResponse> {
+    const response = await this.transition('start', () =>
+      this.payments.startStreaming({ invoiceId: this.invoiceId }),
+    );
+    this.emit('started', response);
+    return response;
+  }
+
+  /**
+   * Halts charging without ending the session. Allowed from `streaming`.
+   *
+   * @throws {BeepError} With code `INVALID_STATE_TRANSITION` when the server reports the
+   * session could not be paused
+   */
+  async pause(): Promise<PauseStreamingResponse> {
+    const response = await this.transition('pause', async () => {
+      const result = await this.payments.pauseStreaming({ invoiceId: this.invoiceId });
+      if (!result.success) {
+        throw new BeepError('The server did not pause the streaming session', {
+          code: BeepErrorCode.INVALID_STATE_TRANSITION,
+          details: { invoiceId: this.invoiceId, action: 'pause' },
+        });
+      }
+      return result;
+    });
+    this.emit('paused', response);
+    return response;
+  }
+
+  /**
+   * Resumes charging after `pause()`. Allowed from `paused`.
+   */
+  async resume(): Promise<StartStreamingResponse> {
+    const response = await this.transition('resume', () =>
+      this.payments.startStreaming({ invoiceId: this.invoiceId }),
+    );
+    this.emit('resumed', response);
+    return response;
+  }
+
+  /**
+   * Finalizes all charges and ends the session. Allowed from any state except `stopped`.
+   * The returned reference keys are also collected in {@link referenceKeys}.
+   */
+  async stop(): Promise<StopStreamingResponse> {
+    const response = await this.transition('stop', () =>
+      this.payments.stopStreaming({ invoiceId: this.invoiceId }),
+    );
+    for (const key of response.referenceKeys ?? []) {
+      if (!this.collectedReferenceKeys.includes(key)) this.collectedReferenceKeys.push(key);
+    }
+    this.emit('stopped', response);
+    return response;
+  }
+
+  private async transition<T>(action: StreamingSessionAction, call: () => Promise<T>): Promise<T> {
+    if (this.currentAction) {
+      throw new BeepError(`Cannot ${action} while ${this.currentAction} is in progress`, {
+        code: BeepErrorCode.INVALID_STATE_TRANSITION,
+        details: { invoiceId: this.invoiceId, action, pendingAction: this.currentAction },
+      });
+    }
+    const { from, to } = TRANSITIONS[action];
+    if (!from.includes(this.currentState)) {
+      throw new BeepError(`Cannot ${action} a streaming session that is ${this.currentState}`, {
+        code: BeepErrorCode.INVALID_STATE_TRANSITION,
+        details: { invoiceId: this.invoiceId, action, state: this.currentState },
+      });
+    }
+
+    this.currentAction = action;
+    let result: T;
+    try {
+      for (const hook of [...this.transitionHooks]) {
+        await hook({ from: this.currentState, to, action });
+      }
+      result = await call();
+    } catch (error) {
+      const beepError = createBeepErrorFromAxios(error);
+      this.emit('error', { action, error: beepError });
+      throw beepError;
+    } finally {
+      this.currentAction = undefined;
+      // The duration limit passed during this transition; enforce it once the state settles
+      if (this.durationDue) void Promise.resolve().then(() => this.enforceMaxDuration());
+    }
+
+    const previous = this.currentState;
+    this.currentState = to;
+    if (previous === 'streaming') this.leaveStreaming();
+    if (to === 'streaming') this.enterStreaming();
+    this.emit('stateChange', { from: previous, to, action });
+    return result;
+  }
+
+  private enterStreaming(): void {
+    this.streamingSince = Date.now();
+    this.markActivity();
+    this.failedChecks = 0;
+    if (!this.policy) return;
+
+    // Left ref'd on purpose: the session keeps charging until it is halted, so the process
+    // must stay alive to enforce the policy
+    const check = () => void this.checkPolicy();
+    this.policyTimers.push(setInterval(check, this.policy.checkIntervalMs ?? 15_000));
+    if (this.policy.maxDurationMs !== undefined) {
+      // Fire exactly at the duration limit rather than on the next interval
+      this.policyTimers.push(
+        setTimeout(
+          () => void this.enforceMaxDuration(),
+          this.policy.maxDurationMs - this.streamedMs,
+        ),
+      );
+    }
+  }
+
+  private leaveStreaming(): void {
+    this.streamedMs = this.streamingDurationMs;
+    this.streamingSince = undefined;
+    for (const timer of this.policyTimers) clearTimeout(timer);
+    this.policyTimers = [];
+    this.durationDue = false;
+  }
+
+  /**
+   * Halts the session at `maxDurationMs`. Runs even while a status check is loading, since
+   * that check may take longer than the time left.
+   */
+  private async enforceMaxDuration(): Promise<void> {
+    const policy = this.policy;
+    if (!policy || this.currentState !== 'streaming') return;
+    if (this.currentAction) {
+      // The transition in flight may fail and leave the session streaming
+      this.durationDue = true;
+      return;
+    }
+    this.durationDue = false;
+    const violation = evaluateStreamingPolicy({
+      policy: { maxDurationMs: policy.maxDurationMs, action: policy.action },
+      streamedMs: this.streamingDurationMs,
+      idleMs: 0,
+    });
+    if (violation) await this.enforce(violation);
+  }
+
+  private async enforce(violation: StreamingPolicyViolation): Promise<void> {
+    this.emit('limitReached', violation);
+    await (violation.action === 'pause' ? this.pause() : this.stop()).catch(() => {
+      // Already reported through the error event; the next check tries again
+    });
+  }
+
+  private async checkPolicy(): Promise<void> {
+    const policy = this.policy;
+    if (!policy || this.checkingPolicy || this.currentState !== 'streaming') return;
+    this.checkingPolicy = true;
+    try {
+      let status: StreamingSessionStatus | undefined;
+      if (policy.maxTotalCharge !== undefined || policy.idleTimeoutMs !== undefined) {
+        try {
+          status = await this.payments.getStreamingStatus({ invoiceId: this.invoiceId });
+          this.failedChecks = 0;
+        } catch (error) {
+          this.failedChecks++;
+          this.emit('error', { action: 'checkPolicy', error: createBeepErrorFromAxios(error) });
+        }
+      }
+      // The caller may have paused or stopped the session while the status was loading
+      if (this.currentState !== 'streaming' || this.currentAction) return;
+
+      const serverActivity = status?.lastActivityAt ? Date.parse(status.lastActivityAt) : NaN;
+      const lastActivity = Math.max(
+        this.lastActivityAt,
+        Number.isNaN(serverActivity) ? 0 : serverActivity,
+      );
+      const maxFailedChecks = policy.maxFailedChecks ?? 3;
+      const violation =
+        evaluateStreamingPolicy({
+          policy,
+          status,
+          streamedMs: this.streamingDurationMs,
+          idleMs: Date.now() - lastActivity,
+        }) ??
+        (this.failedChecks >= maxFailedChecks
+          ? {
+              limit: 'statusUnavailable' as const,
+              // Fail closed, but reversibly: the caller can resume once the API is reachable
+              action: 'pause' as const,
+              message: `Streaming status failed to load ${this.failedChecks} times in a row`,
+            }
+          : undefined);
+      if (violation) await this.enforce(violation);
+    } catch (error) {
+      // Runs from a timer, so anything thrown here would be an unhandled rejection
+      this.emit('error', { action: 'checkPolicy', error: createBeepErrorFromAxios(error) });
+    } finally {
+      this.checkingPolicy = false;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Spending caps and auto-stop rules for streaming sessions
+ */
+
+import { BeepErrorCode, BeepValidationError } from '../errors';
+import type { MoneyAmount } from '../types/common';
+import { Money } from '../types/money';
+import type { StreamingSessionStatus } from '../types/streaming-payments';
+
+/** Limits a {@link StreamingSessionPolicy} can enforce */
+export type StreamingPolicyLimit =
+  | 'maxTotalCharge'
+  | 'maxDuration'
+  | 'idleTimeout'
+  | 'statusUnavailable';
+
+/**
+ * Guardrails applied to a streaming session while it is streaming.
+ *
+ * Charges and idle time are only checked every `checkIntervalMs`, so charges can exceed
+ * `maxTotalCharge` by up to one interval's worth of usage before the session is halted.
+ * Lower the interval, or keep some headroom in the cap, when that matters.
+ *
+ * @example
+ * ```typescript
+ * const policy: StreamingSessionPolicy = {
+ *   maxTotalCharge: '25.00',
+ *   maxDurationMs: 60 * 60_000,
+ *   idleTimeoutMs: 5 * 60_000,
+ * };
+ * ```
+ */
+export interface StreamingSessionPolicy {
+  /** Highest total charge allowed, as a decimal amount in the session's token */
+  maxTotalCharge?: MoneyAmount;
+  /** Longest time the session may spend streaming, summed across resumes, in milliseconds */
+  maxDurationMs?: number;
+  /**
+   * Longest time without activity, in milliseconds. Activity is a start or resume, usage
+   * recorded through `UsageMeter`, a `markActivity()` call, or the server's `lastActivityAt`.
+   */
+  idleTimeoutMs?: number;
+  /**
+   * What to do once a limit is reached
+   * @default 'stop'
+   */
+  action?: 'pause' | 'stop';
+  /**
+   * How often the session status is checked while streaming, in milliseconds. Limits are
+   * only enforced on these checks (and exactly at `maxDurationMs`). These timers keep a
+   * Node.js process alive while the session is streaming; pause or stop it to let the
+   * process exit.
+   * @default 15000
+   */
+  checkIntervalMs?: number;
+  /**
+   * Consecutive failed status checks after which the session is paused, whatever `action`
+   * says, because the charge cap and idle timeout can no longer be enforced
+   * @default 3
+   */
+  maxFailedChecks?: number;
+}
+
+/**
+ * Why a session was paused or stopped by its policy
+ */
+export interface StreamingPolicyViolation {
+  /** The limit that was reached */
+  limit: StreamingPolicyLimit;
+  /** The action taken */
+  action: 'pause' | 'stop';
+  /** Human-readable explanation */
+  message: string;
+  /** Status the decision was based on, when one was fetched */
+  status?: StreamingSessionStatus;
+}
+
+// Enough precision for any supported token's charges
+const COMPARISON_DECIMALS = 18;
+
+const toMoney = (amount: MoneyAmount): Money =>
+  Money.parse(amount, { decimals: COMPARISON_DECIMALS });
+
+/**
+ * Throws when a policy contains a malformed amount, a non-positive duration or a
+ * non-positive failed check count
+ *
+ * @throws {BeepValidationError} With code `INVALID_AMOUNT` or `INVALID_PARAMETER`
+ */
+export function validateStreamingPolicy(policy: StreamingSessionPolicy): void {
+  if (policy.maxTotalCharge !== undefined && toMoney(policy.maxTotalCharge).isNegative()) {
+    throw new BeepValidationError('maxTotalCharge must not be negative', {
+      code: BeepErrorCode.INVALID_AMOUNT,
+      details: { field: 'maxTotalCharge' },
+    });
+  }
+  for (const field of ['maxDurationMs', 'idleTimeoutMs', 'checkIntervalMs'] as const) {
+    const value = policy[field];
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new BeepValidationError(`${field} must be a positive number of milliseconds`, {
+        details: { field },
+      });
+    }
+  }
+  const { maxFailedChecks } = policy;
+  if (
+    maxFailedChecks !== undefined &&
+    !(Number.isInteger(maxFailedChecks) && maxFailedChecks > 0)
+  ) {
+    throw new BeepValidationError('maxFailedChecks must be a positive whole number', {
+      details: { field: 'maxFailedChecks' },
+    });
+  }
+}
+
+/**
+ * Checks a session against its policy
+ *
+ * @param options.policy - The policy to enforce
+ * @param options.status - Latest server status, if one was fetched
+ * @param options.streamedMs - Time spent streaming so far
+ * @param options.idleMs - Time since the last activity
+ * @returns The first limit reached (charge, then duration, then idle), or undefined
+ */
+export function evaluateStreamingPolicy(options: {
+  policy: StreamingSessionPolicy;
+  status?: StreamingSessionStatus;
+  streamedMs: number;
+  idleMs: number;
+}): StreamingPolicyViolation | undefined {
+  const { policy, status, streamedMs, idleMs } = options;
+  const action = policy.action ?? 'stop';
+
+  if (
+    policy.maxTotalCharge !== undefined &&
+    status?.currentCharges !== undefined &&
+    !toMoney(status.currentCharges).lessThan(toMoney(policy.maxTotalCharge))
+  ) {
+    return {
+      limit: 'maxTotalCharge',
+      action,
+      message: `Charges of ${status.currentCharges} reached the cap of ${policy.maxTotalCharge}`,
+      status,
+    };
+  }
+  if (policy.maxDurationMs !== undefined && streamedMs >= policy.maxDurationMs) {
+    return {
+      limit: 'maxDuration',
+      action,
+      message: `Streamed for ${streamedMs} ms, limit is ${policy.maxDurationMs} ms`,
+      status,
+    };
+  }
+  if (policy.idleTimeoutMs !== undefined && idleMs >= policy.idleTimeoutMs) {
+    return {
+      limit: 'idleTimeout',
+      action,
+      message: `No activity for ${idleMs} ms, limit is ${policy.idleTimeoutMs} ms`,
+      status,
+    };
+  }
+  return undefined;
+}
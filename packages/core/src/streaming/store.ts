@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Storage for usage events that have not been reported yet
+ */
+
+import type { UsageEvent } from '../types/payment';
+
+/**
+ * Holds usage events until the server has accepted them, so billable usage survives a crash.
+ * Implement this on top of Redis, SQLite, a database table, etc. for durable metering.
+ */
+export interface UsageEventStore {
+  /** Persists newly recorded events */
+  save(events: UsageEvent[]): void | Promise<void>;
+  /** Returns every unsent event, oldest first */
+  load(): UsageEvent[] | Promise<UsageEvent[]>;
+  /** Deletes events once the server has accepted them */
+  remove(eventIds: string[]): void | Promise<void>;
+}
+
+/**
+ * Default in-process store. Events are lost if the process exits before they are flushed;
+ * pass a durable store to `UsageMeter` when that matters.
+ */
+export class InMemoryUsageEventStore implements UsageEventStore {
+  private readonly events = new Map<string, UsageEvent>();
+
+  save(events: UsageEvent[]): void {
+    for (const event of events) this.events.set(event.id, event);
+  }
+
+  load(): UsageEvent[] {
+    // Maps iterate in insertion order, so this is oldest first
+    return Array.from(this.events.values());
+  }
+
+  remove(eventIds: string[]): void {
+    for (const id of eventIds) this.events.delete(id);
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Client-side usage metering for streaming sessions: buffers usage events,
+ * persists them until they are reported and flushes them in batches
+ */
+
+import { BeepError, BeepErrorCode, BeepValidationError, createBeepErrorFromAxios } from '../errors';
+import type { PaymentsModule } from '../modules/payments';
+import type { UsageEvent } from '../types/payment';
+import { generateIdempotencyKey } from '../utils/idempotency';
+import type { StreamingSession } from './index';
+import { InMemoryUsageEventStore, UsageEventStore } from './store';
+
+/**
+ * Options for {@link UsageMeter}
+ */
+export interface UsageMeterOptions {
+  /** Module used to report usage */
+  payments: PaymentsModule;
+  /**
+   * Where unsent events are kept until the server accepts them
+   * @default InMemoryUsageEventStore
+   */
+  store?: UsageEventStore;
+  /**
+   * How often buffered events are flushed, in milliseconds. Set to 0 to only flush on size,
+   * session pause/stop or explicit `flush()` calls.
+   * @default 10000
+   */
+  flushIntervalMs?: number;
+  /**
+   * Flush as soon as this many events are waiting; also the most events sent per request
+   * @default 100
+   */
+  maxBatchSize?: number;
+  /**
+   * Called when a batch cannot be reported. The events stay in the store and are retried on
+   * the next flush; remove them from the store to give up on them.
+   */
+  onError?: (failure: { error: BeepError; invoiceId?: string; events: UsageEvent[] }) => void;
+}
+
+/**
+ * Usage to record against a streaming session
+ */
+export interface RecordUsageParams {
+  /** Session the usage is billed to; must be `streaming` */
+  session: StreamingSession;
+  /** Asset consumed */
+  assetId: string;
+  /** Amount consumed, in the asset's unit; must be positive */
+  quantity: number;
+  /** Optional attributes for reconciliation, e.g. a request ID */
+  metadata?: UsageEvent['metadata'];
+  /**
+   * When the usage happened
+   * @default now
+   */
+  timestamp?: Date;
+}
+
+/**
+ * Outcome of a flush
+ */
+export interface UsageFlushResult {
+  /** Events the server accepted */
+  sent: number;
+  /** Events still waiting in the store */
+  pending: number;
+}
+
+/**
+ * Buffers usage events for streaming sessions and reports them in batches.
+ *
+ * Events are written to the store before `record()` resolves and removed only after the server
+ * accepts them, so a crash never loses billable usage when a durable store is used; events a
+ * durable store still holds from an earlier run are flushed on the next interval. Batches are
+ * flushed on an interval, once `maxBatchSize` events are waiting, and before a session's
+ * `pause()` or `stop()` call reaches the server. Usage is rejected while a session is not
+ * streaming or is being paused or stopped.
+ *
+ * @example
+ * ```typescript
+ * const meter = new UsageMeter({ payments: beep.payments, store: new RedisUsageStore(redis) });
+ *
+ * await session.start();
+ * await meter.record({ session, assetId: 'llm-tokens', quantity: completion.usage.totalTokens });
+ *
+ * // On shutdown
+ * await meter.close();
+ * ```
+ */
+export class UsageMeter {
+  private readonly payments: PaymentsModule;
+  private readonly store: UsageEventStore;
+  private readonly flushIntervalMs: number;
+  private readonly maxBatchSize: number;
+  private readonly onError?: UsageMeterOptions['onError'];
+  private readonly sessions = new Map<StreamingSession, () => void>();
+  private timer?: ReturnType<typeof setInterval>;
+  private inFlight?: Promise<UsageFlushResult>;
+  private unsent = 0;
+  private readonly restored: Promise<void>;
+
+  constructor(options: UsageMeterOptions) {
+    this.payments = options.payments;
+    this.store = options.store ?? new InMemoryUsageEventStore();
+    this.flushIntervalMs = options.flushIntervalMs ?? 10_000;
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 100);
+    this.onError = options.onError;
+    this.restored = this.restorePending();
+  }
+
+  /**
+   * Records usage for a streaming session
+   *
+   * @returns The stored event
+   * @throws {BeepError} With code `STREAMING_SESSION_INACTIVE` when the session is not streaming
+   * @throws {BeepValidationError} When the asset ID is missing or the quantity is not positive
+   */
+  async record(params: RecordUsageParams): Promise<UsageEvent> {
+    const { session } = params;
+    if (session.state !== 'streaming') {
+      throw new BeepError(`Cannot record usage for a streaming session that is ${session.state}`, {
+        code: BeepErrorCode.STREAMING_SESSION_INACTIVE,
+        details: { invoiceId: session.invoiceId, state: session.state },
+      });
+    }
+    if (session.pendingAction) {
+      // The final flush for this pause or stop may already have been sent
+      throw new BeepError(
+        `Cannot record usage while a streaming session ${session.pendingAction} is in progress`,
+        {
+          code: BeepErrorCode.STREAMING_SESSION_INACTIVE,
+          details: { invoiceId: session.invoiceId, pendingAction: session.pendingAction },
+        },
+      );
+    }
+    if (!params.assetId) {
+      throw new BeepValidationError('assetId is required', {
+        code: BeepErrorCode.MISSING_PARAMETER,
+        details: { field: 'assetId' },
+      });
+    }
+    if (!Number.isFinite(params.quantity) || params.quantity <= 0) {
+      throw new BeepValidationError('Usage quantity must be a positive number', {
+        details: { field: 'quantity' },
+      });
+    }
+
+    const event: UsageEvent = {
+      id: generateIdempotencyKey(),
+      invoiceId: session.invoiceId,
+      assetId: params.assetId,
+      quantity: params.quantity,
+      timestamp: (params.timestamp ?? new Date()).toISOString(),
+      ...(params.metadata && { metadata: params.metadata }),
+    };
+    await this.store.save([event]);
+    this.unsent++;
+    session.markActivity();
+
+    this.watch(session);
+    this.startTimer();
+    if (this.unsent >= this.maxBatchSize) void this.flush();
+    return event;
+  }
+
+  /**
+   * Reports every event in the store, grouped per invoice and split into batches of at most
+   * `maxBatchSize`. Waits for a flush already in progress first, so events recorded before
+   * the call are always attempted. Never throws; failures go to `onError`.
+   */
+  async flush(): Promise<UsageFlushResult> {
+    while (this.inFlight) await this.inFlight;
+    this.inFlight = this.sendPending();
+    try {
+      return await this.inFlight;
+    } finally {
+      this.inFlight = undefined;
+    }
+  }
+
+  /**
+   * Stops the flush timer, detaches from all sessions and flushes what is left
+   */
+  async close(): Promise<UsageFlushResult> {
+    await this.restored;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    for (const detach of this.sessions.values()) detach();
+    this.sessions.clear();
+    return this.flush();
+  }
+
+  private watch(session: StreamingSession): void {
+    if (this.sessions.has(session)) return;
+    // Report everything recorded while streaming before the server halts charging, so the
+    // usage lands while the invoice still accepts it
+    const removeHook = session.addTransitionHook(async ({ to }) => {
+      if (to !== 'streaming') await this.flush();
+    });
+    const unsubscribe = session.on('stateChange', ({ to }) => {
+      if (to === 'stopped') detach();
+    });
+    const detach = () => {
+      removeHook();
+      unsubscribe();
+      this.sessions.delete(session);
+    };
+    this.sessions.set(session, detach);
+  }
+
+  /**
+   * Picks up events a durable store kept from an earlier run, so they are flushed without
+   * waiting for new usage to start the timer
+   */
+  private async restorePending(): Promise<void> {
+    let events: UsageEvent[];
+    try {
+      events = await this.store.load();
+    } catch (error) {
+      this.onError?.({ error: createBeepErrorFromAxios(error), events: [] });
+      return;
+    }
+    if (!events.length) return;
+    this.unsent = Math.max(this.unsent, events.length);
+    this.startTimer();
+  }
+
+  private startTimer(): void {
+    if (this.timer || this.flushIntervalMs <= 0) return;
+    this.timer = setInterval(() => void this.flush(), this.flushIntervalMs);
+    // Do not keep a Node.js process alive just to flush usage
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  private async sendPending(): Promise<UsageFlushResult> {
+    let events: UsageEvent[];
+    try {
+      events = await this.store.load();
+    } catch (error) {
+      this.onError?.({ error: createBeepErrorFromAxios(error), events: [] });
+      return { sent: 0, pending: this.unsent };
+    }
+
+    const byInvoice = new Map<string, UsageEvent[]>();
+    for (const event of events) {
+      const invoiceEvents = byInvoice.get(event.invoiceId) ?? [];
+      invoiceEvents.push(event);
+      byInvoice.set(event.invoiceId, invoiceEvents);
+    }
+
+    let sent = 0;
+    for (const [invoiceId, invoiceEvents] of byInvoice) {
+      for (let start = 0; start < invoiceEvents.length; start += this.maxBatchSize) {
+        const batch = invoiceEvents.slice(start, start + this.maxBatchSize);
+        try {
+          await this.payments.reportUsage({ invoiceId, events: batch });
+          await this.store.remove(batch.map((event) => event.id));
+          sent += batch.length;
+        } catch (error) {
+          this.onError?.({ error: createBeepErrorFromAxios(error), invoiceId, events: batch });
+          // Keep this invoice's events in order; its later batches wait for the next flush
+          break;
+        }
+      }
+    }
+
+    this.unsent = Math.max(0, this.unsent - sent);
+    return { sent, pending: events.length - sent };
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview OpenTelemetry instrumentation for the BEEP SDK
+ * Works through the `@opentelemetry/api` module the host application passes in, so spans and
+ * metrics flow into whichever OTel SDK it registers - and everything is a no-op when none is
+ * registered. The SDK only imports OTel types, keeping the API an optional peer dependency.
+ */
+
+import type * as OpenTelemetryApi from '@opentelemetry/api';
+import type {
+  Attributes,
+  Counter,
+  Histogram,
+  MeterProvider,
+  Span,
+  Tracer,
+  TracerProvider,
+} from '@opentelemetry/api';
+import { BeepError, BeepErrorCode, BeepValidationError } from '../errors';
+import type { BeepMiddleware } from '../middleware';
+
+/** Instrumentation scope name used for the tracer and meter */
+export const BEEP_INSTRUMENTATION_NAME = '@beep-it/sdk-core';
+
+/**
+ * Options for OpenTelemetry instrumentation
+ */
+export interface BeepTelemetryOptions {
+  /**
+   * The application's `@opentelemetry/api` module (`import * as otel from
+   * '@opentelemetry/api'`). Passed in rather than imported so browser bundles without
+   * telemetry do not include it.
+   */
+  api: typeof OpenTelemetryApi;
+  /**
+   * Tracer provider to create spans with
+   * @default the globally registered provider
+   */
+  tracerProvider?: TracerProvider;
+  /**
+   * Meter provider to record metrics with
+   * @default the globally registered provider
+   */
+  meterProvider?: MeterProvider;
+}
+
+/** Span attribute keys set by the instrumentation */
+export const BeepTelemetryAttributes = {
+  OPERATION: 'beep.operation',
+  ERROR_CODE: 'beep.error.code',
+  REFERENCE_KEY: 'beep.reference_key',
+  INVOICE_ID: 'beep.invoice_id',
+  RETRY_COUNT: 'beep.retry_count',
+  REQUEST_ID: 'beep.request_id',
+  HTTP_METHOD: 'http.request.method',
+  HTTP_STATUS_CODE: 'http.response.status_code',
+  HTTP_ROUTE: 'http.route',
+  ENDPOINT: 'url.path',
+} as const;
+
+/**
+ * Route templates of the BEEP API, matched in order so fixed paths win over `{id}` segments.
+ * Span names use the template so IDs never reach them.
+ */
+const API_ROUTES = [
+  '/healthz',
+  '/v1/invoices',
+  '/v1/invoices/check-payment-status',
+  '/v1/invoices/issue-payment',
+  '/v1/invoices/pause',
+  '/v1/invoices/start',
+  '/v1/invoices/stop',
+  '/v1/invoices/streaming-sessions',
+  '/v1/invoices/streaming-status',
+  '/v1/invoices/usage',
+  '/v1/invoices/{id}',
+  '/v1/invoices/{id}/cancel',
+  '/v1/invoices/{id}/extend-expiry',
+  '/v1/payment/request-payment',
+  '/v1/payouts',
+  '/v1/payouts/{id}',
+  '/v1/products',
+  '/v1/products/{id}',
+  '/v1/user',
+  '/v1/widget/create-cash-payment-order',
+  '/v1/widget/environment',
+  '/v1/widget/generate-otp',
+  '/v1/widget/generate-payment-quote',
+  '/v1/widget/payment-session',
+  '/v1/widget/payment-status/{referenceKey}',
+  '/v1/widget/products',
+  '/v1/widget/verify-otp',
+].map((route) => ({
+  route,
+  pattern: new RegExp(`^${route.replace(/\{\w+\}/g, '[^/]+')}$`),
+}));
+
+/**
+ * Returns the route template for a request URL, or undefined for paths outside the BEEP API
+ */
+function routeTemplate(url: string): string | undefined {
+  const path = url.replace(/^[a-z][a-z\d+.-]*:\/\/[^/]+/i, '').split(/[?#]/)[0];
+  return API_ROUTES.find(({ pattern }) => pattern.test(path))?.route;
+}
+
+/**
+ * Pulls identifiers worth tagging a span with out of call arguments and results
+ */
+function extractIdentifiers(value: unknown): Attributes {
+  if (!value || typeof value !== 'object') return {};
+  const record = value as Record<string, unknown>;
+  const attributes: Attributes = {};
+  const referenceKey = record.referenceKey ?? record.paymentReference;
+  if (typeof referenceKey === 'string') {
+    attributes[BeepTelemetryAttributes.REFERENCE_KEY] = referenceKey;
+  }
+  if (typeof record.invoiceId === 'string') {
+    attributes[BeepTelemetryAttributes.INVOICE_ID] = record.invoiceId;
+  }
+  return attributes;
+}
+
+/**
+ * Creates spans and metrics for SDK operations.
+ * Module methods get an internal span each; every HTTP attempt made inside one gets a
+ * client span, so retries show up as siblings under the operation.
+ */
+export class BeepTelemetry {
+  private readonly api: typeof OpenTelemetryApi;
+  private readonly tracer: Tracer;
+  private readonly operationDuration: Histogram;
+  private readonly operationErrors: Counter;
+  private readonly requestDuration: Histogram;
+
+  constructor(options: BeepTelemetryOptions) {
+    if (!options?.api?.trace || !options.api.metrics) {
+      throw new BeepValidationError('telemetry.api must be the @opentelemetry/api module', {
+        code: BeepErrorCode.MISSING_PARAMETER,
+        details: { field: 'telemetry.api' },
+      });
+    }
+    this.api = options.api;
+    const tracerProvider = options.tracerProvider ?? this.api.trace.getTracerProvider();
+    const meterProvider = options.meterProvider ?? this.api.metrics.getMeterProvider();
+    this.tracer = tracerProvider.getTracer(BEEP_INSTRUMENTATION_NAME);
+
+    const meter = meterProvider.getMeter(BEEP_INSTRUMENTATION_NAME);
+    this.operationDuration = meter.createHistogram('beep.client.operation.duration', {
+      description: 'Duration of SDK operations, including retries and polling',
+      unit: 'ms',
+    });
+    this.operationErrors = meter.createCounter('beep.client.operation.errors', {
+      description: 'SDK operations that failed, by BeepErrorCode',
+    });
+    this.requestDuration = meter.createHistogram('beep.client.request.duration', {
+      description: 'Duration of individual HTTP requests to the BEEP API',
+      unit: 'ms',
+    });
+  }
+
+  /**
+   * Replaces the listed methods of a module instance with traced wrappers. Only list methods
+   * that return a promise for the whole operation: a span around a method that hands back a
+   * poller or async iterator would end before any request is made.
+   *
+   * @param options.module - The module instance, e.g. `client.payments`
+   * @param options.name - Prefix for operation names, e.g. `payments`
+   * @param options.methods - Public request methods to trace
+   */
+  public instrumentModule<T extends object>(options: {
+    module: T;
+    name: string;
+    methods: (keyof T & string)[];
+  }): void {
+    const target = options.module as Record<string, unknown>;
+
+    for (const method of options.methods) {
+      const original = target[method];
+      if (typeof original !== 'function') continue;
+      target[method] = this.wrap({
+        operation: `${options.name}.${method}`,
+        fn: original.bind(target),
+      });
+    }
+  }
+
+  /**
+   * Middleware that records a client span and latency for each HTTP attempt. Spans are named
+   * `{method} {route}`, e.g. `GET /v1/invoices/{id}`.
+   */
+  public middleware(): BeepMiddleware {
+    return async (request, next) => {
+      const operation = this.api.trace.getActiveSpan();
+      const route = routeTemplate(request.url);
+      const attributes: Attributes = {
+        [BeepTelemetryAttributes.HTTP_METHOD]: request.method,
+        [BeepTelemetryAttributes.ENDPOINT]: request.url,
+        [BeepTelemetryAttributes.RETRY_COUNT]: request.retryCount,
+      };
+      if (route) attributes[BeepTelemetryAttributes.HTTP_ROUTE] = route;
+      operation?.setAttributes({
+        [BeepTelemetryAttributes.ENDPOINT]: request.url,
+        [BeepTelemetryAttributes.RETRY_COUNT]: request.retryCount,
+      });
+
+      return this.tracer.startActiveSpan(
+        // Unknown paths may hold IDs, so they are named by method alone
+        route ? `${request.method} ${route}` : request.method,
+        { kind: this.api.SpanKind.CLIENT, attributes },
+        async (span) => {
+          const startedAt = Date.now();
+          try {
+            const response = await next(request);
+            span.setAttribute(BeepTelemetryAttributes.HTTP_STATUS_CODE, response.status);
+            operation?.setAttribute(BeepTelemetryAttributes.HTTP_STATUS_CODE, response.status);
+            if (response.headers['x-request-id']) {
+              span.setAttribute(
+                BeepTelemetryAttributes.REQUEST_ID,
+                response.headers['x-request-id'],
+              );
+            }
+            if (response.status >= 400) {
+              span.setStatus({ code: this.api.SpanStatusCode.ERROR });
+            }
+            this.requestDuration.record(Date.now() - startedAt, {
+              [BeepTelemetryAttributes.HTTP_METHOD]: request.method,
+              [BeepTelemetryAttributes.HTTP_STATUS_CODE]: response.status,
+            });
+            return response;
+          } catch (error) {
+            span.recordException(error as Error);
+            span.setStatus({
+              code: this.api.SpanStatusCode.ERROR,
+              message: (error as Error)?.message,
+            });
+            this.requestDuration.record(Date.now() - startedAt, {
+              [BeepTelemetryAttributes.HTTP_METHOD]: request.method,
+            });
+            throw error;
+          } finally {
+            span.end();
+          }
+        },
+      );
+    };
+  }
+
+  private wrap(options: {
+    operation: string;
+    fn: (...args: unknown[]) => unknown;
+  }): (...args: unknown[]) => unknown {
+    const { operation, fn } = options;
+    return (...args: unknown[]) =>
+      this.tracer.startActiveSpan(
+        `beep.${operation}`,
+        {
+          attributes: {
+            [BeepTelemetryAttributes.OPERATION]: operation,
+            ...extractIdentifiers(args[0]),
+          },
+        },
+        (span) => {
+          const startedAt = Date.now();
+          let result: unknown;
+          try {
+            result = fn(...args);
+          } catch (error) {
+            this.finish({ span, operation, startedAt, error });
+            throw error;
+          }
+          if (!(result instanceof Promise)) {
+            this.finish({ span, operation, startedAt });
+            return result;
+          }
+          return result.then(
+            (value) => {
+              span.setAttributes(extractIdentifiers(value));
+              this.finish({ span, operation, startedAt });
+              return value;
+            },
+            (error) => {
+              this.finish({ span, operation, startedAt, error });
+              throw error;
+            },
+          );
+        },
+      );
+  }
+
+  private finish(options: {
+    span: Span;
+    operation: string;
+    startedAt: number;
+    error?: unknown;
+  }): void {
+    const { span, operation, startedAt, error } = options;
+    const attributes: Attributes = { [BeepTelemetryAttributes.OPERATION]: operation };
+
+    if (error !== undefined) {
+      if (error instanceof BeepError) {
+        attributes[BeepTelemetryAttributes.ERROR_CODE] = error.code;
+        span.setAttribute(BeepTelemetryAttributes.ERROR_CODE, error.code);
+        if (error.statusCode) {
+          span.setAttribute(BeepTelemetryAttributes.HTTP_STATUS_CODE, error.statusCode);
+        }
+        if (error.requestId) {
+          span.setAttribute(BeepTelemetryAttributes.REQUEST_ID, error.requestId);
+        }
+      }
+      span.recordException(error as Error);
+      span.setStatus({ code: this.api.SpanStatusCode.ERROR, message: (error as Error)?.message });
+      this.operationErrors.add(1, attributes);
+    }
+
+    this.operationDuration.record(Date.now() - startedAt, attributes);
+    span.end();
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview HttpTransport backed by the Fetch API
+ */
+
+import type { HttpRequest, HttpResponse, HttpTransport } from './index';
+
+/**
+ * Options for {@link FetchTransport}
+ */
+export interface FetchTransportOptions {
+  /**
+   * Fetch implementation to use, e.g. a polyfill or an instrumented fetch
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport that sends requests with `fetch`.
+ * Works on any runtime with a WHATWG fetch: Node 18+, browsers, Cloudflare Workers,
+ * Vercel Edge and Deno.
+ *
+ * @example
+ * ```typescript
+ * const beep = new BeepClient({ apiKey: env.BEEP_API_KEY, transport: 'fetch' });
+ * // or, with a custom fetch
+ * const beep = new BeepClient({
+ *   apiKey: env.BEEP_API_KEY,
+ *   transport: new FetchTransport({ fetch: myFetch }),
+ * });
+ * ```
+ */
+export class FetchTransport implements HttpTransport {
+  private readonly fetchImpl?: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.fetchImpl = options.fetch;
+  }
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    // Resolve lazily so the global can be patched after the client is created
+    const fetchImpl = this.fetchImpl ?? globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new Error('fetch is not available in this runtime; pass one via FetchTransport');
+    }
+
+    const response = await fetchImpl(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text(),
+    };
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Pluggable HTTP transport for the BEEP SDK
+ * Lets the clients run on runtimes where axios' Node adapter is unavailable
+ * (Cloudflare Workers, Vercel Edge, Deno Deploy) while every module keeps using the same
+ * axios instance, interceptors included.
+ */
+
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { FetchTransport } from './fetch';
+
+/**
+ * A fully resolved HTTP request handed to a transport
+ */
+export interface HttpRequest {
+  /** Upper-case HTTP method */
+  method: string;
+  /** Absolute URL, including the query string */
+  url: string;
+  headers: Record<string, string>;
+  /** Serialized request body (JSON for all SDK endpoints) */
+  body?: string;
+  /** Aborted when the caller cancels the request or the client timeout elapses */
+  signal?: AbortSignal;
+}
+
+/**
+ * The raw HTTP response returned by a transport.
+ * Non-2xx responses must be resolved, not rejected - the SDK maps them to errors itself.
+ */
+export interface HttpResponse {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  /** Unparsed response body; JSON bodies are parsed by the SDK */
+  body: string;
+}
+
+/**
+ * Sends HTTP requests on behalf of the SDK.
+ * Reject only when no response was received (network failure, abort).
+ */
+export interface HttpTransport {
+  request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * Transport selection for BeepClient and BeepPublicClient:
+ * - `'axios'`: axios' own adapters (Node http / browser XHR)
+ * - `'fetch'`: the global `fetch`, for edge runtimes
+ * - any custom {@link HttpTransport}
+ */
+export type BeepTransportOption = 'axios' | 'fetch' | HttpTransport;
+
+/**
+ * Flattens axios headers into a plain record, dropping unset values
+ */
+export function toHeaderRecord(
+  headers: InternalAxiosRequestConfig['headers'],
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers?.toJSON() ?? {})) {
+    if (value !== undefined && value !== null && value !== false) {
+      result[name] = String(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Combines the caller's abort signal with the client timeout into a single signal
+ */
+function createRequestSignal(config: InternalAxiosRequestConfig): {
+  signal: AbortSignal;
+  timedOut: () => boolean;
+  cleanup: () => void;
+} {
+  const controller = new AbortController();
+  const callerSignal = config.signal as AbortSignal | undefined;
+  let didTimeOut = false;
+
+  const onAbort = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener?.('abort', onAbort);
+  }
+
+  const timer = config.timeout
+    ? setTimeout(() => {
+        didTimeOut = true;
+        controller.abort();
+      }, config.timeout)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeOut,
+    cleanup: () => {
+      if (timer) clearTimeout(timer);
+      callerSignal?.removeEventListener?.('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Resolves a response, or rejects it as an AxiosError when `validateStatus` fails -
+ * mirroring what axios' built-in adapters do.
+ */
+export function settleResponse(response: AxiosResponse): AxiosResponse {
+  const { config, status } = response;
+  const validateStatus = config.validateStatus;
+  if (!status || !validateStatus || validateStatus(status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response,
+  );
+}
+
+/**
+ * Wraps an {@link HttpTransport} as an axios adapter, so retries, debug logging and error
+ * mapping behave identically regardless of the transport.
+ *
+ * @param transport - The transport that performs the actual HTTP call
+ */
+export function createTransportAdapter(transport: HttpTransport): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const { signal, timedOut, cleanup } = createRequestSignal(config);
+    const request: HttpRequest = {
+      method: (config.method ?? 'get').toUpperCase(),
+      url: axios.getUri(config),
+      headers: toHeaderRecord(config.headers),
+      body:
+        config.data === undefined || config.data === null
+          ? undefined
+          : typeof config.data === 'string'
+            ? config.data
+            : JSON.stringify(config.data),
+      signal,
+    };
+
+    let raw: HttpResponse;
+    try {
+      raw = await transport.request(request);
+    } catch (error) {
+      if (timedOut()) {
+        throw new AxiosError(
+          `timeout of ${config.timeout}ms exceeded`,
+          AxiosError.ECONNABORTED,
+          config,
+          request,
+        );
+      }
+      if (signal.aborted) {
+        throw new axios.CanceledError(undefined, undefined, config, request);
+      }
+      throw new AxiosError(
+        (error as Error)?.message || 'Network Error',
+        AxiosError.ERR_NETWORK,
+        config,
+        request,
+      );
+    } finally {
+      cleanup();
+    }
+
+    const response: AxiosResponse = {
+      data: raw.body,
+      status: raw.status,
+      statusText: raw.statusText ?? '',
+      headers: raw.headers,
+      config,
+      request,
+    };
+
+    return settleResponse(response);
+  };
+}
+
+/**
+ * Resolves the `transport` client option to an axios adapter.
+ * Returns undefined for the default so axios keeps its own adapter selection.
+ */
+export function resolveTransportAdapter(transport?: BeepTransportOption): AxiosAdapter | undefined {
+  if (!transport || transport === 'axios') return undefined;
+  return createTransportAdapter(transport === 'fetch' ? new FetchTransport() : transport);
+}
+
+export { FetchTransport } from './fetch';
+export type { FetchTransportOptions } from './fetch';
@@ -43,6 +43,8 @@ export enum BlockchainNetwork {
   SUI = 'SUI',
   /** Solana blockchain network */
   SOLANA = 'SOLANA',
+  /** Base (Ethereum L2) network */
+  BASE = 'BASE',
 }
 
 /**
@@ -96,6 +98,21 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   };
 }
 
+/**
+ * A single page of a list endpoint, normalized by the SDK
+ * @template T The type of items in the page
+ */
+export interface Page<T> {
+  /** Items on this page */
+  items: T[];
+  /** Total number of items matching the query, when the API reports it */
+  total?: number;
+  /** Cursor to pass as `cursor` to fetch the next page */
+  nextCursor?: string;
+  /** Offset to pass as `offset` to fetch the next page, for offset-paginated responses */
+  nextOffset?: number;
+}
+
 /**
  * Sort order for list endpoints
  */
@@ -222,6 +239,8 @@ export function formatMoneyAmount(amount: number, decimals: number = 2): MoneyAm
 
 /**
  * Parse a money amount string to number
+ * @deprecated Floats cannot represent every amount exactly; use `Money.parse` for arithmetic
+ * and conversion to token base units
  */
 export function parseMoneyAmount(amount: MoneyAmount): number {
   return parseFloat(amount);
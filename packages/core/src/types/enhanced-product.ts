@@ -2,7 +2,7 @@
  * @fileoverview Enhanced product types with comprehensive documentation
  */
 
-import { UUID, MoneyAmount, ISODateTime, EntityStatus } from './common';
+import { UUID, MoneyAmount, ISODateTime, EntityStatus, FilterParams, SortOrder } from './common';
 import { SupportedToken } from './token';
 
 /**
@@ -250,14 +250,18 @@ export interface UpdateProductPayload extends Partial<CreateProductPayload> {
 
 /**
  * Product listing parameters
+ * Combines pagination (cursor or offset), sorting and filtering
  */
-export interface ListProductsParams {
+export interface ListProductsParams extends Omit<FilterParams, 'sortOrder'> {
   /** Maximum number of products to return */
   limit?: number;
 
   /** Number of products to skip */
   offset?: number;
 
+  /** Only return subscription (`true`) or one-time (`false`) products */
+  isSubscription?: boolean;
+
   /** Filter by category */
   category?: ProductCategory;
 
@@ -280,7 +284,7 @@ export interface ListProductsParams {
   sortBy?: 'name' | 'price' | 'created' | 'updated' | 'popularity';
 
   /** Sort order */
-  sortOrder?: 'asc' | 'desc';
+  sortOrder?: SortOrder | 'asc' | 'desc';
 
   /** Include products with low/no stock */
   includeOutOfStock?: boolean;
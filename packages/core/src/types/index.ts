@@ -1,8 +1,17 @@
 // Re-export all type definitions for convenient importing
 export * from './invoice';
+export * from './money';
 export * from './payment';
 export * from './product';
+export type { ListProductsParams } from './enhanced-product';
+export type {
+  GetStreamingStatusPayload,
+  ListStreamingSessionsParams,
+  StreamingSessionStatus,
+} from './streaming-payments';
+export { isStreamingActive, isStreamingEnded, isStreamingPaused } from './streaming-payments';
 export * from './token';
+export * from './webhook';
 
 // Export common utility types and helpers
 export * from './common';
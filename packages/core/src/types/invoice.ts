@@ -1,4 +1,5 @@
-import { SupportedToken } from './token';
+import { FilterParams } from './common';
+import { ChainId, SupportedToken, TokenSymbol } from './token';
 
 /**
  * Specifies who is responsible for paying an invoice
@@ -19,6 +20,8 @@ export enum InvoiceStatus {
   EXPIRED = 'expired',
   /** Payment failed or was rejected */
   FAILED = 'failed',
+  /** Cancelled by the merchant before payment; kept for the audit trail */
+  CANCELLED = 'cancelled',
 }
 
 /**
@@ -47,8 +50,10 @@ export interface Invoice {
   splTokenAddress?: string;
   /** Token type for this invoice */
   token?: SupportedToken;
+  /** Chain this invoice is payable on */
+  chain?: ChainId;
   /** Current status of this invoice in the payment flow */
-  status?: 'pending' | 'paid' | 'expired';
+  status?: 'pending' | 'paid' | 'expired' | 'cancelled';
   /** Unique reference key for tracking this invoice */
   referenceKey?: string;
   /** URL where customers can pay this invoice */
@@ -57,6 +62,10 @@ export interface Invoice {
   qrCode?: string;
   /** When this invoice expires and becomes unpayable */
   expiresAt?: string | Date;
+  /** When this invoice was cancelled, if it was */
+  cancelledAt?: string | Date;
+  /** Why this invoice was cancelled, as given to `cancelInvoice` */
+  cancellationReason?: string;
   /** When this invoice was created */
   createdAt?: Date;
   /** When this invoice was last updated */
@@ -92,7 +101,11 @@ export interface CreateCustomInvoicePayload {
    * Token type to use for payment
    * @remarks Preferred over splTokenAddress for supported tokens
    */
-  token?: SupportedToken;
+  token?: TokenSymbol;
+  /**
+   * Chain the invoice is payable on; selects the token address. Required with `token`.
+   */
+  chain?: ChainId;
   /**
    * Custom token address (alternative to token)
    * @remarks Use this for tokens not in the SupportedToken enum
@@ -112,3 +125,31 @@ export interface CreateCustomInvoicePayload {
  * Allows for both product-based and custom invoice creation
  */
 export type CreateInvoicePayload = CreateInvoiceFromProductPayload | CreateCustomInvoicePayload;
+
+/**
+ * Payload for updating a pending invoice
+ * All fields are optional - only provided fields will be updated
+ */
+export interface UpdateInvoicePayload {
+  /** New description */
+  description?: string;
+  /** New amount as a string (e.g., "10.50") */
+  amount?: string;
+  /** New token type */
+  token?: TokenSymbol;
+  /** Chain used to resolve `token` to an address; required with `token` */
+  chain?: ChainId;
+  /** New token address (alternative to token) */
+  splTokenAddress?: string;
+  /** New paying merchant (can be set to null to remove) */
+  payerMerchantId?: string | null;
+}
+
+/**
+ * Query parameters for listing invoices
+ * Combines pagination (cursor or offset), sorting and filtering
+ */
+export interface ListInvoicesParams extends Omit<FilterParams, 'status'> {
+  /** Only return invoices in one of these statuses */
+  status?: InvoiceStatus | InvoiceStatus[];
+}
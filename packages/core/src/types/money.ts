@@ -0,0 +1,363 @@
+/**
+ * @fileoverview Exact decimal money arithmetic backed by bigint token base units
+ */
+
+import { BeepErrorCode, BeepValidationError } from '../errors';
+import { ChainId, TokenSymbol, TokenUtils } from './token';
+
+/**
+ * Identifies the precision of a {@link Money} value: either a supported token (whose decimals
+ * are looked up) or an explicit number of decimals
+ */
+export interface MoneyOptions {
+  /** Token the amount is denominated in; decimals default to the token's */
+  token?: TokenSymbol;
+  /** Chain used to look up the token's decimals */
+  chain?: ChainId;
+  /** Number of decimal places of the base unit, e.g. 6 for USDC */
+  decimals?: number;
+}
+
+/**
+ * How to round results that fall between two base units
+ * - `halfUp`: to the nearest unit, ties away from zero
+ * - `halfEven`: to the nearest unit, ties to the even unit (banker's rounding)
+ * - `floor`: towards negative infinity
+ * - `ceil`: towards positive infinity
+ */
+export type MoneyRounding = 'halfUp' | 'halfEven' | 'floor' | 'ceil';
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Parses a decimal number into an exact integer numerator and power-of-ten scale.
+ * Numbers are read from their shortest decimal representation, so `0.1` is exactly one tenth.
+ */
+function toFraction(value: number | string | bigint): { numerator: bigint; scale: number } {
+  if (typeof value === 'bigint') return { numerator: value, scale: 0 };
+
+  const text = typeof value === 'number' ? String(value) : value.trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new BeepValidationError(`Invalid decimal amount: "${value}"`, {
+      code: BeepErrorCode.INVALID_AMOUNT,
+    });
+  }
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  let digits = BigInt(`${whole || '0'}${fraction}`);
+  let scale = fraction.length - Number(exponent);
+  if (scale < 0) {
+    digits *= BigInt(10) ** BigInt(-scale);
+    scale = 0;
+  }
+  return { numerator: sign === '-' ? -digits : digits, scale };
+}
+
+/**
+ * Divides two bigints, rounding the quotient with the given mode
+ */
+function divide(options: {
+  numerator: bigint;
+  denominator: bigint;
+  rounding: MoneyRounding;
+}): bigint {
+  const { numerator, denominator, rounding } = options;
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === BigInt(0)) return quotient;
+
+  const negative = numerator < BigInt(0) !== denominator < BigInt(0);
+  switch (rounding) {
+    case 'floor':
+      return negative ? quotient - BigInt(1) : quotient;
+    case 'ceil':
+      return negative ? quotient : quotient + BigInt(1);
+    case 'halfUp':
+    case 'halfEven': {
+      const abs = (n: bigint) => (n < BigInt(0) ? -n : n);
+      const twiceRemainder = abs(remainder) * BigInt(2);
+      const tie = twiceRemainder === abs(denominator);
+      const roundsAway =
+        twiceRemainder > abs(denominator) ||
+        (tie && (rounding === 'halfUp' || quotient % BigInt(2) !== BigInt(0)));
+      if (!roundsAway) return quotient;
+      return negative ? quotient - BigInt(1) : quotient + BigInt(1);
+    }
+  }
+}
+
+/**
+ * An immutable monetary amount stored as an integer number of token base units.
+ * Replaces float arithmetic (`parseFloat(price) * 10 ** decimals`) wherever amounts move
+ * between decimal strings and on-chain base units, so no amount is ever off by one unit.
+ *
+ * @example
+ * ```typescript
+ * const price = Money.parse('19.99', { token: SupportedToken.USDC });
+ * price.toBaseUnits(); // '19990000'
+ *
+ * const total = price.multiply(3).add(Money.parse('0.03', { token: SupportedToken.USDC }));
+ * total.format(); // '60.000000'
+ *
+ * const [merchant, platform] = total.allocate([97, 3]);
+ * ```
+ */
+export class Money {
+  /** Amount in base units, e.g. 1500000 for 1.5 USDC */
+  readonly baseUnits: bigint;
+  /** Number of decimal places of the base unit */
+  readonly decimals: number;
+  /** Token the amount is denominated in, when known */
+  readonly token?: TokenSymbol;
+
+  private constructor(options: { baseUnits: bigint; decimals: number; token?: TokenSymbol }) {
+    this.baseUnits = options.baseUnits;
+    this.decimals = options.decimals;
+    this.token = options.token;
+  }
+
+  /**
+   * Parses a decimal amount such as `"10.50"`.
+   * Trailing zeros beyond the token's precision are ignored (`"1.0000000"` is a valid USDC
+   * amount). Amounts that are still too precise are rejected unless `rounding` is given.
+   *
+   * @param amount - Decimal string (preferred) or number
+   * @param options - Token or decimals; defaults to the default token (USDC)
+   * @param options.rounding - Rounds over-precise amounts to whole base units instead of
+   *   rejecting them
+   * @throws {BeepValidationError} When the amount is malformed, or too precise without `rounding`
+   */
+  static parse(
+    amount: string | number,
+    options: MoneyOptions & { rounding?: MoneyRounding } = {},
+  ): Money {
+    const { token, decimals } = Money.resolve(options);
+    let { numerator, scale } = toFraction(amount);
+    while (scale > decimals && numerator % BigInt(10) === BigInt(0)) {
+      numerator /= BigInt(10);
+      scale -= 1;
+    }
+    if (scale > decimals) {
+      if (!options.rounding) {
+        throw new BeepValidationError(
+          `Amount "${amount}" has more than ${decimals} decimal places`,
+          { code: BeepErrorCode.INVALID_AMOUNT },
+        );
+      }
+      numerator = divide({
+        numerator,
+        denominator: BigInt(10) ** BigInt(scale - decimals),
+        rounding: options.rounding,
+      });
+      scale = decimals;
+    }
+    return new Money({
+      baseUnits: numerator * BigInt(10) ** BigInt(decimals - scale),
+      decimals,
+      token,
+    });
+  }
+
+  /**
+   * Creates an amount from integer base units, e.g. an on-chain balance
+   *
+   * @param baseUnits - Integer number of base units
+   * @param options - Token or decimals; defaults to the default token (USDC)
+   * @throws {BeepValidationError} When `baseUnits` is not an integer
+   */
+  static fromBaseUnits(baseUnits: bigint | string | number, options: MoneyOptions = {}): Money {
+    const { token, decimals } = Money.resolve(options);
+    if (typeof baseUnits !== 'bigint' && !/^[+-]?\d+$/.test(String(baseUnits).trim())) {
+      throw new BeepValidationError(`Base units must be an integer, got "${baseUnits}"`, {
+        code: BeepErrorCode.INVALID_AMOUNT,
+      });
+    }
+    return new Money({
+      baseUnits: typeof baseUnits === 'bigint' ? baseUnits : BigInt(String(baseUnits).trim()),
+      decimals,
+      token,
+    });
+  }
+
+  /**
+   * Zero in the given token
+   */
+  static zero(options: MoneyOptions = {}): Money {
+    return Money.fromBaseUnits(BigInt(0), options);
+  }
+
+  /**
+   * Returns true for Money instances
+   */
+  static isMoney(value: unknown): value is Money {
+    return value instanceof Money;
+  }
+
+  private static resolve(options: MoneyOptions): { token?: TokenSymbol; decimals: number } {
+    const token =
+      options.token ?? (options.decimals === undefined ? TokenUtils.getDefaultToken() : undefined);
+    const decimals =
+      options.decimals ?? TokenUtils.getTokenDecimals(token as TokenSymbol, options.chain);
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw new BeepValidationError(`Invalid token decimals: ${decimals}`, {
+        code: BeepErrorCode.INVALID_PARAMETER,
+      });
+    }
+    return { token, decimals };
+  }
+
+  /**
+   * Base units as an integer string, the format the BEEP API and chains expect
+   */
+  toBaseUnits(): string {
+    return this.baseUnits.toString();
+  }
+
+  /**
+   * Formats the amount as a decimal string
+   *
+   * @param options.minimumFractionDigits - Trim trailing zeros down to this many fraction
+   * digits; by default all `decimals` digits are kept
+   *
+   * @example
+   * ```typescript
+   * Money.parse('1.5').format(); // '1.500000'
+   * Money.parse('1.5').format({ minimumFractionDigits: 2 }); // '1.50'
+   * ```
+   */
+  format(options: { minimumFractionDigits?: number } = {}): string {
+    const negative = this.baseUnits < BigInt(0);
+    const digits = (negative ? -this.baseUnits : this.baseUnits)
+      .toString()
+      .padStart(this.decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - this.decimals);
+    let fraction = digits.slice(digits.length - this.decimals);
+
+    if (options.minimumFractionDigits !== undefined) {
+      const keep = Math.min(options.minimumFractionDigits, this.decimals);
+      fraction = fraction.replace(/0+$/, '').padEnd(keep, '0');
+    }
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  add(other: Money): Money {
+    this.assertCompatible(other);
+    return this.withBaseUnits(this.baseUnits + other.baseUnits);
+  }
+
+  subtract(other: Money): Money {
+    this.assertCompatible(other);
+    return this.withBaseUnits(this.baseUnits - other.baseUnits);
+  }
+
+  /**
+   * Multiplies by an exact decimal factor, e.g. a quantity or a fee rate
+   *
+   * @param factor - Integer, decimal string or number
+   * @param options.rounding - How to round to whole base units (default `halfUp`)
+   */
+  multiply(factor: number | string | bigint, options: { rounding?: MoneyRounding } = {}): Money {
+    const { numerator, scale } = toFraction(factor);
+    return this.withBaseUnits(
+      divide({
+        numerator: this.baseUnits * numerator,
+        denominator: BigInt(10) ** BigInt(scale),
+        rounding: options.rounding ?? 'halfUp',
+      }),
+    );
+  }
+
+  /**
+   * Splits the amount by ratios without losing a base unit: every share is rounded down and
+   * the remainder is handed out one unit at a time, starting with the first share.
+   *
+   * @param ratios - Non-negative weights, e.g. `[70, 30]` or `[1, 1, 1]`
+   * @returns One amount per ratio, summing exactly to this amount
+   * @throws {BeepValidationError} When ratios are empty, negative or all zero
+   */
+  allocate(ratios: (number | string)[]): Money[] {
+    const fractions = ratios.map((ratio) => toFraction(ratio));
+    const scale = Math.max(0, ...fractions.map((fraction) => fraction.scale));
+    const weights = fractions.map(
+      (fraction) => fraction.numerator * BigInt(10) ** BigInt(scale - fraction.scale),
+    );
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, BigInt(0));
+    if (weights.length === 0 || weights.some((w) => w < BigInt(0)) || totalWeight <= BigInt(0)) {
+      throw new BeepValidationError('Allocation ratios must be non-negative and not all zero', {
+        code: BeepErrorCode.INVALID_PARAMETER,
+      });
+    }
+
+    const shares = weights.map((weight) =>
+      divide({
+        numerator: this.baseUnits * weight,
+        denominator: totalWeight,
+        rounding: 'floor',
+      }),
+    );
+    let remainder = this.baseUnits - shares.reduce((sum, share) => sum + share, BigInt(0));
+    for (let i = 0; remainder > BigInt(0); i = (i + 1) % shares.length) {
+      if (weights[i] === BigInt(0)) continue;
+      shares[i] += BigInt(1);
+      remainder -= BigInt(1);
+    }
+    return shares.map((share) => this.withBaseUnits(share));
+  }
+
+  /**
+   * Compares two amounts
+   *
+   * @returns -1, 0 or 1 as this amount is less than, equal to or greater than `other`
+   */
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertCompatible(other);
+    if (this.baseUnits === other.baseUnits) return 0;
+    return this.baseUnits < other.baseUnits ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  isZero(): boolean {
+    return this.baseUnits === BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.baseUnits < BigInt(0);
+  }
+
+  /** Same as {@link format} */
+  toString(): string {
+    return this.format();
+  }
+
+  /** Serializes as the decimal string, so amounts survive `JSON.stringify` */
+  toJSON(): string {
+    return this.format();
+  }
+
+  private withBaseUnits(baseUnits: bigint): Money {
+    return new Money({ baseUnits, decimals: this.decimals, token: this.token });
+  }
+
+  private assertCompatible(other: Money): void {
+    const tokensDiffer = this.token && other.token && this.token !== other.token;
+    if (tokensDiffer || this.decimals !== other.decimals) {
+      throw new BeepValidationError(
+        `Cannot combine amounts in ${this.token ?? `${this.decimals} decimals`} and ${
+          other.token ?? `${other.decimals} decimals`
+        }`,
+        { code: BeepErrorCode.INVALID_TOKEN },
+      );
+    }
+  }
+}
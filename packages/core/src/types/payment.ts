@@ -1,5 +1,7 @@
+import type { BeepError } from '../errors';
+import { FilterParams } from './common';
 import { InvoiceStatus } from './invoice';
-import { SupportedToken } from './token';
+import { ChainId, SupportedToken, TokenSymbol } from './token';
 export interface BeepPurchaseAsset {
   assetId: string;
   quantity: number;
@@ -277,6 +279,144 @@ export interface StopStreamingResponse {
   referenceKeys: string[];
 }
 
+/**
+ * A single metered usage record for a streaming session, e.g. tokens generated or API calls
+ * served
+ */
+export interface UsageEvent {
+  /**
+   * Client-generated unique ID
+   * @remarks The server ignores events it has already recorded, so resending is safe
+   */
+  id: string;
+  /** Invoice ID of the streaming session the usage is billed to */
+  invoiceId: string;
+  /** Asset consumed */
+  assetId: string;
+  /** Amount consumed, in the asset's unit */
+  quantity: number;
+  /** When the usage happened (ISO 8601) */
+  timestamp: string;
+  /** Optional attributes for reconciliation, e.g. a request ID */
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Payload for reporting usage of a streaming session
+ */
+export interface ReportUsagePayload {
+  /** Invoice ID of the streaming session */
+  invoiceId: string;
+  /** Usage events for this invoice, oldest first */
+  events: UsageEvent[];
+}
+
+/**
+ * Response returned after reporting usage
+ */
+export interface ReportUsageResponse {
+  /** Number of events recorded */
+  accepted: number;
+  /** Number of events ignored because they had already been recorded */
+  duplicates?: number;
+}
+
+/**
+ * Payload for sending a payout from the merchant treasury wallet
+ */
+export interface CreatePayoutPayload {
+  /** Human-readable decimal amount, e.g. "1.50" for 1.5 USDC */
+  amount: string;
+  /** Wallet that receives the funds */
+  destinationWalletAddress: string;
+  /** Chain to pay out on; the server picks the treasury wallet for this chain */
+  chain: ChainId;
+  /** Token to pay out, e.g. `USDC` */
+  token: TokenSymbol;
+}
+
+/**
+ * Immediate response to a payout request; the transfer itself runs asynchronously
+ */
+export interface CreatePayoutResponse {
+  payoutId: string;
+  status: 'accepted' | 'rejected';
+  message: string;
+  withdrawRequestId?: number;
+  requestedAmount?: string;
+  reservedAmount?: string;
+  createdAt: string;
+  error?: string;
+}
+
+/**
+ * One recipient in a payout batch
+ */
+export interface PayoutBatchItem extends CreatePayoutPayload {
+  /**
+   * Your stable identifier for this recipient in the cycle (e.g. a seller or withdrawal ID).
+   * Combined with `idempotencyPrefix` it forms the idempotency key, so re-running a batch
+   * after a partial failure never pays the same recipient twice. Required, and unique within
+   * the batch, when `idempotencyPrefix` is set.
+   */
+  reference?: string;
+}
+
+/**
+ * Options for `createPayoutBatch`
+ */
+export interface PayoutBatchOptions {
+  /**
+   * Maximum number of payout requests in flight
+   * @default 5
+   */
+  concurrency?: number;
+  /**
+   * Prefix for per-item idempotency keys (`<prefix>:<reference>`), e.g. the payout cycle ID.
+   * Items must then each carry a `reference`. Without a prefix every run generates fresh
+   * keys: retries within the call are safe, but re-running the batch pays everyone again.
+   */
+  idempotencyPrefix?: string;
+  /** Validate every item and report the outcome without sending anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of one batch item
+ * - `validated`: passed validation in a dry run
+ * - `invalid`: failed client-side validation and was not sent
+ * - `accepted` / `rejected`: the API's answer
+ * - `failed`: the request errored (network, 5xx, ...) and can be retried
+ */
+export type PayoutBatchItemStatus = 'validated' | 'invalid' | 'accepted' | 'rejected' | 'failed';
+
+/**
+ * Per-item entry of a payout batch report
+ */
+export interface PayoutBatchItemResult {
+  /** Position of the item in the input array */
+  index: number;
+  item: PayoutBatchItem;
+  status: PayoutBatchItemStatus;
+  /** Idempotency key the item was (or would be) sent with */
+  idempotencyKey: string;
+  /** API response for sent items */
+  response?: CreatePayoutResponse;
+  /** Validation or request error for `invalid` and `failed` items */
+  error?: BeepError;
+}
+
+/**
+ * Result of `createPayoutBatch`
+ */
+export interface PayoutBatchReport {
+  dryRun: boolean;
+  /** One entry per input item, in input order */
+  results: PayoutBatchItemResult[];
+  /** Number of items per status */
+  counts: Record<PayoutBatchItemStatus, number>;
+}
+
 export enum PayoutStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
@@ -285,6 +425,60 @@ export enum PayoutStatus {
   CANCELED = 'CANCELED',
 }
 
+/**
+ * A payout and its progress through the asynchronous transfer
+ */
+export interface Payout {
+  /** Identifier returned by `createPayout` */
+  payoutId: string;
+  /** Current transfer status */
+  status: PayoutStatus;
+  /** Human-readable decimal amount */
+  amount: string;
+  /** Chain the payout is sent on */
+  chain: ChainId;
+  /** Token being paid out */
+  token: TokenSymbol;
+  /** Wallet receiving the funds */
+  destinationWalletAddress: string;
+  /** On-chain transaction hash, once the transfer has been broadcast */
+  transactionHash?: string | null;
+  /** Why the payout failed or was canceled */
+  failureReason?: string | null;
+  /** Internal withdrawal request ID */
+  withdrawRequestId?: number;
+  /** When the payout was requested */
+  createdAt: string;
+  /** When the status last changed */
+  updatedAt?: string;
+}
+
+/**
+ * Query parameters for listing payouts
+ */
+export interface ListPayoutsParams extends Omit<FilterParams, 'status'> {
+  /** Only return payouts in one of these statuses */
+  status?: PayoutStatus | PayoutStatus[];
+  /** Only return payouts on this chain */
+  chain?: ChainId;
+  /** Only return payouts of this token */
+  token?: TokenSymbol;
+  /** Only return payouts to this wallet */
+  destinationWalletAddress?: string;
+}
+
+/**
+ * Outcome of waiting for a payout
+ */
+export interface WaitForPayoutResult {
+  /** True once the payout reached COMPLETED, FAILED or CANCELED */
+  settled: boolean;
+  /** Last payout state seen, if any request succeeded */
+  payout?: Payout;
+  /** On-chain transaction hash, when the transfer was broadcast */
+  transactionHash?: string;
+}
+
 export interface CheckPaymentStatusPayload {
   /** The payment reference key to check */
   referenceKey: string;
@@ -1,4 +1,4 @@
-import { SupportedToken } from './token';
+import { ChainId, SupportedToken, TokenSymbol } from './token';
 
 /**
  * Represents a product in the BEEP payment system
@@ -19,6 +19,8 @@ export interface Product {
   splTokenAddress: string;
   /** Token type for this product (derived from splTokenAddress) */
   token?: SupportedToken;
+  /** Chain the product is priced on */
+  chain?: ChainId;
   /** Whether this product represents a recurring subscription */
   isSubscription: boolean;
   /** When this product was created */
@@ -48,9 +50,15 @@ export interface CreateProductPayload {
   splTokenAddress?: string;
   /**
    * Supported token type (optional if splTokenAddress is provided)
-   * @remarks Preferred over splTokenAddress when available
+   * @remarks Preferred over splTokenAddress when available. Custom tokens must be registered
+   * with `TokenUtils.registerToken` first.
    */
-  token?: SupportedToken;
+  token?: TokenSymbol;
+  /**
+   * Chain the product is priced on; selects the token address and decimals. Required with
+   * `token`.
+   */
+  chain?: ChainId;
   /**
    * Whether this product represents a subscription
    * @default false
@@ -75,7 +83,9 @@ export interface UpdateProductPayload {
   /** New token address */
   splTokenAddress?: string;
   /** New token type */
-  token?: SupportedToken;
+  token?: TokenSymbol;
+  /** Chain used to resolve `token` to an address; required with `token` */
+  chain?: ChainId;
   /** Change subscription status */
   isSubscription?: boolean;
 }
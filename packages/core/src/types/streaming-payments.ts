@@ -3,7 +3,7 @@
  * @module streaming-payments
  */
 
-import { UUID, MoneyAmount, ISODateTime } from './common';
+import { FilterParams, UUID, MoneyAmount, ISODateTime } from './common';
 
 /**
  * Start streaming payment parameters
@@ -180,12 +180,29 @@ export interface StreamingSessionStatus {
  * Get streaming session status parameters
  */
 export interface GetStreamingStatusPayload {
-  /** API key for authentication */
-  apiKey: string;
+  /**
+   * API key for authentication
+   * @deprecated Not needed with `payments.getStreamingStatus`; the client's API key is used
+   */
+  apiKey?: string;
   /** Invoice ID to check */
   invoiceId: UUID;
 }
 
+/**
+ * Filters for listing streaming sessions
+ * @example
+ * ```typescript
+ * const live = await beep.payments.listStreamingSessions({ status: ['active', 'paused'] });
+ * ```
+ */
+export interface ListStreamingSessionsParams extends Omit<FilterParams, 'status'> {
+  /** Only return sessions in one of these statuses */
+  status?: StreamingSessionStatus['status'] | StreamingSessionStatus['status'][];
+  /** Only return sessions billed to this merchant */
+  payingMerchantId?: string;
+}
+
 /**
  * Type guards for streaming responses
  */
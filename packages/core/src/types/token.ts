@@ -1,3 +1,6 @@
+import { BeepErrorCode, BeepValidationError } from '../errors';
+import { BlockchainNetwork } from './common';
+
 /**
  * Enumeration of SUI tokens supported by the BEEP payment platform
  * Each token represents a different cryptocurrency that can be used for payments
@@ -8,8 +11,147 @@ export enum SupportedToken {
 }
 
 /**
- * Mapping of supported token enums to their corresponding token addresses on SUI
- * These addresses are used for blockchain transactions and token identification
+ * A token identifier: one of the built-in {@link SupportedToken}s or the symbol of a token
+ * registered at runtime with {@link TokenUtils.registerToken}
+ */
+export type TokenSymbol = SupportedToken | (string & Record<never, never>);
+
+/**
+ * A chain identifier: one of the built-in {@link BlockchainNetwork}s or a custom chain name
+ */
+export type ChainId = BlockchainNetwork | (string & Record<never, never>);
+
+/**
+ * Everything the SDK needs to know about a token on one chain
+ */
+export interface TokenDefinition {
+  /** Token identifier, e.g. `USDC` */
+  token: TokenSymbol;
+  /** Chain the token lives on */
+  chain: ChainId;
+  /** Mint address (Solana), coin type (SUI) or contract address (EVM) */
+  address: string;
+  /** Decimal places of the base unit, e.g. 6 for USDC */
+  decimals: number;
+  /** Symbol shown to users */
+  symbol: string;
+  /**
+   * Transaction explorer URL, with `{signature}` replaced by the transaction signature
+   * @example 'https://solscan.io/tx/{signature}'
+   */
+  explorerUrlTemplate?: string;
+}
+
+/**
+ * Tokens known to the SDK out of the box
+ */
+export const BUILT_IN_TOKENS: readonly TokenDefinition[] = [
+  {
+    token: SupportedToken.USDC,
+    chain: BlockchainNetwork.SOLANA,
+    address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T',
+    decimals: 6,
+    symbol: 'USDC',
+    explorerUrlTemplate: 'https://solscan.io/tx/{signature}',
+  },
+  {
+    token: SupportedToken.USDC,
+    chain: BlockchainNetwork.SUI,
+    address: '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+    decimals: 6,
+    symbol: 'USDC',
+    explorerUrlTemplate: 'https://suiscan.xyz/mainnet/tx/{signature}',
+  },
+  {
+    token: SupportedToken.USDC,
+    chain: BlockchainNetwork.BASE,
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    decimals: 6,
+    symbol: 'USDC',
+    explorerUrlTemplate: 'https://basescan.org/tx/{signature}',
+  },
+];
+
+/**
+ * Registry of token definitions keyed by (token, chain).
+ * Lookups are case-insensitive on both token and chain.
+ */
+export class TokenRegistry {
+  private readonly definitions = new Map<string, TokenDefinition>();
+
+  constructor(definitions: readonly TokenDefinition[] = []) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  private static key(options: { token: string; chain: string }): string {
+    return `${options.token.toUpperCase()}:${options.chain.toUpperCase()}`;
+  }
+
+  /**
+   * Adds a token, replacing any existing definition for the same (token, chain)
+   *
+   * @throws {BeepValidationError} When the definition is incomplete
+   */
+  register(definition: TokenDefinition): void {
+    if (!definition.token || !definition.chain || !definition.address) {
+      throw new BeepValidationError('Token definitions need a token, chain and address', {
+        code: BeepErrorCode.INVALID_TOKEN,
+      });
+    }
+    if (!Number.isInteger(definition.decimals) || definition.decimals < 0) {
+      throw new BeepValidationError(`Invalid decimals for ${definition.token}`, {
+        code: BeepErrorCode.INVALID_TOKEN,
+      });
+    }
+    this.definitions.set(TokenRegistry.key(definition), { ...definition });
+  }
+
+  /**
+   * Removes a token from one chain
+   *
+   * @returns True if a definition was removed
+   */
+  unregister(token: TokenSymbol, chain: ChainId): boolean {
+    return this.definitions.delete(TokenRegistry.key({ token, chain }));
+  }
+
+  get(token: TokenSymbol, chain: ChainId): TokenDefinition | undefined {
+    return this.definitions.get(TokenRegistry.key({ token, chain }));
+  }
+
+  /**
+   * Finds the definition with the given address, optionally restricted to one chain
+   */
+  findByAddress(address: string, chain?: ChainId): TokenDefinition | undefined {
+    return this.list({ chain }).find((definition) =>
+      // EVM addresses are case-insensitive; mint addresses and coin types are compared exactly
+      definition.address.startsWith('0x') && !definition.address.includes('::')
+        ? definition.address.toLowerCase() === address.toLowerCase()
+        : definition.address === address,
+    );
+  }
+
+  /**
+   * Lists registered definitions, optionally filtered by token and/or chain
+   */
+  list(filter: { token?: TokenSymbol; chain?: ChainId } = {}): TokenDefinition[] {
+    return [...this.definitions.values()].filter(
+      (definition) =>
+        (!filter.token || definition.token.toUpperCase() === filter.token.toUpperCase()) &&
+        (!filter.chain || definition.chain.toUpperCase() === filter.chain.toUpperCase()),
+    );
+  }
+}
+
+/**
+ * The registry TokenUtils resolves through. Register custom tokens here (or via
+ * {@link TokenUtils.registerToken}) before using them in products, invoices or payouts.
+ */
+export const tokenRegistry = new TokenRegistry(BUILT_IN_TOKENS);
+
+/**
+ * Mapping of supported token enums to their corresponding token addresses on Solana
+ * @deprecated Use `TokenUtils.getTokenAddress(token, chain)`, which covers every chain
  */
 export const TOKEN_ADDRESSES: Record<SupportedToken, string> = {
   [SupportedToken.USDC]: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T', // USDC token address
@@ -17,8 +159,7 @@ export const TOKEN_ADDRESSES: Record<SupportedToken, string> = {
 
 /**
  * Decimal precision for each supported token
- * Used for converting between human-readable decimal amounts and blockchain base units
- * For example: 1.0 USDC = 1,000,000 base units (10^6)
+ * @deprecated Use `TokenUtils.getTokenDecimals(token, chain)`, which covers every chain
  */
 export const TOKEN_DECIMALS: Record<SupportedToken, number> = {
   [SupportedToken.USDC]: 6, // USDC uses 6 decimal places
@@ -27,29 +168,86 @@ export const TOKEN_DECIMALS: Record<SupportedToken, number> = {
 /**
  * Utility class providing helper methods for token operations
  * Handles conversions between token enums and token addresses, decimal calculations, and validation
+ * All lookups resolve through {@link tokenRegistry}. The same token has a different address
+ * on every chain, so there is no default chain.
  */
 export class TokenUtils {
   /**
-   * Retrieves the token address for a supported token
+   * Returns the chain given with a token
    *
-   * @param token - The supported token enum value
-   * @returns The corresponding token address on SUI
+   * @param token - Token the chain belongs to
+   * @param chain - Chain from the caller's payload
+   * @returns The chain
+   * @throws {BeepValidationError} When `chain` is missing
    *
    * @example
    * ```typescript
-   * const address = TokenUtils.getTokenAddress(SupportedToken.USDC);
-   * console.log(address); // 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T'
+   * if (payload.token) {
+   *   const chain = TokenUtils.requireChain(payload.token, payload.chain);
+   * }
    * ```
    */
-  static getTokenAddress(token: SupportedToken): string {
-    return TOKEN_ADDRESSES[token];
+  static requireChain(token: TokenSymbol, chain: ChainId | undefined): ChainId {
+    if (!chain) {
+      throw new BeepValidationError(`A chain is required with token ${token}`, {
+        code: BeepErrorCode.MISSING_PARAMETER,
+        details: { field: 'chain', token },
+      });
+    }
+    return chain;
   }
 
   /**
-   * Performs reverse lookup to find token enum from token address
+   * Looks up the full definition of a token on a chain
+   *
+   * @param token - Token identifier
+   * @param chain - Chain to look the token up on
+   * @returns The registered definition
+   * @throws {BeepValidationError} When `chain` is missing or the token is not registered on it
+   *
+   * @example
+   * ```typescript
+   * const usdcOnSui = TokenUtils.getTokenDefinition(SupportedToken.USDC, BlockchainNetwork.SUI);
+   * console.log(usdcOnSui.address, usdcOnSui.decimals);
+   * ```
+   */
+  static getTokenDefinition(token: TokenSymbol, chain: ChainId): TokenDefinition {
+    const definition = tokenRegistry.get(token, TokenUtils.requireChain(token, chain));
+    if (!definition) {
+      throw new BeepValidationError(`Token ${token} is not registered on chain ${chain}`, {
+        code: BeepErrorCode.INVALID_TOKEN,
+        details: { token, chain },
+      });
+    }
+    return definition;
+  }
+
+  /**
+   * Retrieves the token address for a token on a chain
+   *
+   * @param token - The token identifier
+   * @param chain - Chain to resolve the address on
+   * @returns The mint address, coin type or contract address
+   * @throws {BeepValidationError} When `chain` is missing or the token is not registered on it
+   *
+   * @example
+   * ```typescript
+   * const mint = TokenUtils.getTokenAddress(SupportedToken.USDC, BlockchainNetwork.SOLANA);
+   * console.log(mint); // 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T'
+   *
+   * const coinType = TokenUtils.getTokenAddress(SupportedToken.USDC, BlockchainNetwork.SUI);
+   * ```
+   */
+  static getTokenAddress(token: TokenSymbol, chain: ChainId): string {
+    return TokenUtils.getTokenDefinition(token, chain).address;
+  }
+
+  /**
+   * Performs reverse lookup to find the token for an address
    *
    * @param address - The token address to look up
-   * @returns The corresponding SupportedToken enum value, or null if not found
+   * @param chain - Optional chain to restrict the lookup to
+   * @returns The corresponding token identifier, or null if not found
    *
    * @example
    * ```typescript
@@ -57,33 +255,96 @@ export class TokenUtils {
    * console.log(token); // SupportedToken.USDC
    * ```
    */
-  static getTokenFromAddress(address: string): SupportedToken | null {
-    for (const [token, addr] of Object.entries(TOKEN_ADDRESSES)) {
-      if (addr === address) {
-        return token as SupportedToken;
-      }
-    }
-    return null;
+  static getTokenFromAddress(address: string, chain?: ChainId): TokenSymbol | null {
+    return tokenRegistry.findByAddress(address, chain)?.token ?? null;
   }
 
   /**
    * Gets the number of decimal places for accurate token amount calculations
    *
-   * @param token - The supported token to get decimals for
+   * @param token - The token to get decimals for
+   * @param chain - Chain the token lives on; may be omitted when the token has the same
+   *   decimals on every chain it is registered on
    * @returns Number of decimal places (e.g., 6 for USDC)
+   * @throws {BeepValidationError} When the token is not registered (on that chain), or
+   *   `chain` is omitted and the token's decimals differ between chains
    *
    * @example
    * ```typescript
    * const decimals = TokenUtils.getTokenDecimals(SupportedToken.USDC);
-   * const baseUnits = 1.5 * Math.pow(10, decimals); // Convert 1.5 USDC to base units
+   * // Use Money.parse('1.5', { token }) to convert amounts to base units exactly
+   * ```
+   */
+  static getTokenDecimals(token: TokenSymbol, chain?: ChainId): number {
+    if (chain) return TokenUtils.getTokenDefinition(token, chain).decimals;
+
+    const decimals = new Set(
+      tokenRegistry.list({ token }).map((definition) => definition.decimals),
+    );
+    if (decimals.size > 1) TokenUtils.requireChain(token, chain);
+    const [only] = decimals;
+    if (only === undefined) {
+      throw new BeepValidationError(`Token ${token} is not registered`, {
+        code: BeepErrorCode.INVALID_TOKEN,
+        details: { token },
+      });
+    }
+    return only;
+  }
+
+  /**
+   * Builds a block explorer link for a transaction
+   *
+   * @param options.token - Token the transaction moved
+   * @param options.chain - Chain the transaction settled on
+   * @param options.signature - Transaction signature or digest
+   * @returns The explorer URL, or undefined when the token has no explorer configured
+   *
+   * @example
+   * ```typescript
+   * const url = TokenUtils.getExplorerUrl({
+   *   token: SupportedToken.USDC,
+   *   chain: BlockchainNetwork.SUI,
+   *   signature: payment.transactionSignature,
+   * });
+   * ```
+   */
+  static getExplorerUrl(options: {
+    token: TokenSymbol;
+    chain: ChainId;
+    signature: string;
+  }): string | undefined {
+    const template = TokenUtils.getTokenDefinition(
+      options.token,
+      options.chain,
+    ).explorerUrlTemplate;
+    return template?.replace('{signature}', encodeURIComponent(options.signature));
+  }
+
+  /**
+   * Registers a custom token (or overrides a built-in one) for a chain
+   *
+   * @param definition - Address, decimals, symbol and explorer template of the token
+   * @throws {BeepValidationError} When the definition is incomplete
+   *
+   * @example
+   * ```typescript
+   * TokenUtils.registerToken({
+   *   token: 'PYUSD',
+   *   chain: BlockchainNetwork.SOLANA,
+   *   address: '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo',
+   *   decimals: 6,
+   *   symbol: 'PYUSD',
+   * });
    * ```
    */
-  static getTokenDecimals(token: SupportedToken): number {
-    return TOKEN_DECIMALS[token] || 6;
+  static registerToken(definition: TokenDefinition): void {
+    tokenRegistry.register(definition);
   }
 
   /**
-   * Type guard to check if a string value represents a supported token
+   * Type guard to check if a string value represents a built-in {@link SupportedToken}.
+   * Use {@link isTokenRegistered} for tokens added with `registerToken`.
    *
    * @param token - String value to check
    * @returns True if the token is supported, with proper type narrowing
@@ -93,7 +354,7 @@ export class TokenUtils {
    * const userInput = 'USDC';
    * if (TokenUtils.isTokenSupported(userInput)) {
    *   // userInput is now typed as SupportedToken
-   *   const address = TokenUtils.getTokenAddress(userInput);
+   *   const address = TokenUtils.getTokenAddress(userInput, BlockchainNetwork.SUI);
    * }
    * ```
    */
@@ -101,6 +362,36 @@ export class TokenUtils {
     return Object.values(SupportedToken).includes(token as SupportedToken);
   }
 
+  /**
+   * Checks whether a token is in the registry, on a specific chain or on any chain
+   *
+   * @param token - Token identifier to check
+   * @param chain - Optional chain the token must be registered on
+   * @returns True if the token is registered
+   *
+   * @example
+   * ```typescript
+   * TokenUtils.isTokenRegistered('PYUSD', BlockchainNetwork.SOLANA);
+   * ```
+   */
+  static isTokenRegistered(token: string, chain?: ChainId): boolean {
+    return chain
+      ? tokenRegistry.get(token, chain) !== undefined
+      : tokenRegistry.list({ token }).length > 0;
+  }
+
+  /**
+   * Lists the chains a token is registered on
+   *
+   * @example
+   * ```typescript
+   * TokenUtils.getTokenChains(SupportedToken.USDC); // ['SOLANA', 'SUI', 'BASE']
+   * ```
+   */
+  static getTokenChains(token: TokenSymbol): ChainId[] {
+    return tokenRegistry.list({ token }).map((definition) => definition.chain);
+  }
+
   /**
    * Returns the default token for operations when no token is specified
    *
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Typed webhook event payloads delivered by the BEEP server
+ */
+
+import {
+  ISODateTime,
+  MoneyAmount,
+  TransactionSignature,
+  UUID,
+  WalletAddress,
+  WebhookEventType,
+  WebhookPayload,
+} from './common';
+import { Product } from './product';
+import { SupportedToken } from './token';
+
+/**
+ * Data delivered with `payment.completed`
+ */
+export interface PaymentCompletedEventData {
+  /** Reference key of the payment that completed */
+  referenceKey: string;
+  /** Invoice the payment settled, when the payment was invoice-backed */
+  invoiceId?: UUID;
+  /** Amount paid in decimal format */
+  amount: MoneyAmount;
+  /** Token used for the payment */
+  token?: SupportedToken | string;
+  /** Blockchain network the payment settled on */
+  chain?: string;
+  /** Wallet that sent the payment */
+  payerAddress?: WalletAddress;
+  /** On-chain transaction signature */
+  transactionSignature?: TransactionSignature;
+  /** When the payment was confirmed */
+  completedAt: ISODateTime;
+}
+
+/**
+ * Data delivered with `payment.failed`
+ */
+export interface PaymentFailedEventData {
+  /** Reference key of the payment that failed */
+  referenceKey: string;
+  /** Invoice the payment was attempting to settle */
+  invoiceId?: UUID;
+  /** Amount that was attempted in decimal format */
+  amount?: MoneyAmount;
+  /** Human-readable failure reason */
+  reason?: string;
+  /** When the failure was recorded */
+  failedAt: ISODateTime;
+}
+
+/**
+ * Data delivered with `invoice.paid`
+ */
+export interface InvoicePaidEventData {
+  /** ID of the invoice that was paid */
+  invoiceId: UUID;
+  /** Reference key of the invoice */
+  referenceKey: string;
+  /** Amount paid in decimal format */
+  amount: MoneyAmount;
+  /** Token used for the payment */
+  token?: SupportedToken | string;
+  /** On-chain transaction signature */
+  transactionSignature?: TransactionSignature;
+  /** When the invoice was paid */
+  paidAt: ISODateTime;
+}
+
+/**
+ * Data delivered with `invoice.expired`
+ */
+export interface InvoiceExpiredEventData {
+  /** ID of the invoice that expired */
+  invoiceId: UUID;
+  /** Reference key of the invoice */
+  referenceKey?: string;
+  /** When the invoice expired */
+  expiredAt: ISODateTime;
+}
+
+/**
+ * Data delivered with `subscription.activated` and `subscription.cancelled`
+ */
+export interface SubscriptionEventData {
+  /** ID of the subscription */
+  subscriptionId: UUID;
+  /** Product the subscription is for */
+  productId: UUID;
+  /** Wallet paying for the subscription */
+  payerAddress?: WalletAddress;
+  /** When the subscription was activated */
+  activatedAt?: ISODateTime;
+  /** When the subscription was cancelled */
+  cancelledAt?: ISODateTime;
+  /** Reason given for cancellation */
+  reason?: string;
+}
+
+/**
+ * Maps each webhook event type to the shape of its `data` field
+ */
+export interface WebhookEventDataMap {
+  [WebhookEventType.PAYMENT_COMPLETED]: PaymentCompletedEventData;
+  [WebhookEventType.PAYMENT_FAILED]: PaymentFailedEventData;
+  [WebhookEventType.INVOICE_PAID]: InvoicePaidEventData;
+  [WebhookEventType.INVOICE_EXPIRED]: InvoiceExpiredEventData;
+  [WebhookEventType.PRODUCT_CREATED]: Product;
+  [WebhookEventType.PRODUCT_UPDATED]: Product;
+  [WebhookEventType.SUBSCRIPTION_ACTIVATED]: SubscriptionEventData;
+  [WebhookEventType.SUBSCRIPTION_CANCELLED]: SubscriptionEventData;
+}
+
+/**
+ * A verified webhook event of a specific type
+ * @template T The webhook event type
+ */
+export type BeepWebhookEventOf<T extends WebhookEventType> = Omit<
+  WebhookPayload<WebhookEventDataMap[T]>,
+  'type'
+> & {
+  /** Event type, narrowed to `T` */
+  type: T;
+};
+
+/**
+ * Discriminated union of every verified webhook event
+ *
+ * @example
+ * ```typescript
+ * switch (event.type) {
+ *   case WebhookEventType.PAYMENT_COMPLETED:
+ *     console.log(event.data.referenceKey, event.data.amount);
+ *     break;
+ *   case WebhookEventType.INVOICE_EXPIRED:
+ *     console.log(event.data.invoiceId, event.data.expiredAt);
+ *     break;
+ * }
+ * ```
+ */
+export type BeepWebhookEvent = {
+  [T in WebhookEventType]: BeepWebhookEventOf<T>;
+}[WebhookEventType];
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Chain-aware wallet address validation and normalization
+ * Catches malformed destination addresses before a payout request leaves the process.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { BeepErrorCode, BeepValidationError } from '../errors';
+import { BlockchainNetwork } from '../types/common';
+import type { ChainId } from '../types/token';
+
+/** Address encodings the SDK can check */
+export type AddressFormat = 'sui' | 'solana' | 'evm';
+
+/**
+ * Address format per chain. EVM chains share one format, so adding another L2 is a one-line
+ * change here.
+ */
+export const CHAIN_ADDRESS_FORMATS: Record<string, AddressFormat> = {
+  [BlockchainNetwork.SUI]: 'sui',
+  [BlockchainNetwork.SOLANA]: 'solana',
+  [BlockchainNetwork.BASE]: 'evm',
+};
+
+/**
+ * Returns the address format of a chain, or undefined for chains without a validator (e.g.
+ * chains only known through tokens registered at runtime)
+ */
+export function getAddressFormat(chain: ChainId): AddressFormat | undefined {
+  return CHAIN_ADDRESS_FORMATS[String(chain).toUpperCase()];
+}
+
+/**
+ * Result of {@link validateAddress}
+ */
+export type AddressValidationResult =
+  | { valid: true; normalized: string; format: AddressFormat }
+  | { valid: false; reason: string };
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Decodes a base58 (Bitcoin alphabet) string, or returns null if it contains invalid characters
+ */
+function decodeBase58(value: string): Uint8Array | null {
+  let number = BigInt(0);
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    number = number * BigInt(58) + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (number > BigInt(0)) {
+    bytes.unshift(Number(number % BigInt(256)));
+    number /= BigInt(256);
+  }
+  // Each leading '1' encodes a leading zero byte
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Applies the EIP-55 mixed-case checksum to a 40-digit hex address
+ */
+function toChecksumAddress(hex: string): string {
+  const lower = hex.toLowerCase();
+  const hash = Array.from(keccak_256(lower), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+}
+
+function validateSui(address: string): AddressValidationResult {
+  // Only the full 32-byte form: zero-padding a short one would also turn a mistyped or
+  // EVM-style 40-character address into a different, valid-looking SUI address
+  if (!/^0x[0-9a-fA-F]{64}$/.test(address)) {
+    return {
+      valid: false,
+      reason: 'SUI addresses are 0x followed by 64 hex characters; expand short forms explicitly',
+    };
+  }
+  return { valid: true, format: 'sui', normalized: address.toLowerCase() };
+}
+
+function validateSolana(address: string): AddressValidationResult {
+  const bytes = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) ? decodeBase58(address) : null;
+  if (!bytes || bytes.length !== 32) {
+    return { valid: false, reason: 'Solana addresses are base58-encoded 32-byte public keys' };
+  }
+  return { valid: true, format: 'solana', normalized: address };
+}
+
+function validateEvm(address: string): AddressValidationResult {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return { valid: false, reason: 'EVM addresses are 0x followed by 40 hex characters' };
+  }
+  const hex = address.slice(2);
+  const checksummed = toChecksumAddress(hex);
+  // All-lowercase and all-uppercase addresses carry no checksum; mixed case must match it
+  const hasChecksum = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+  if (hasChecksum && address !== checksummed) {
+    return { valid: false, reason: 'EVM address checksum (EIP-55) does not match' };
+  }
+  return { valid: true, format: 'evm', normalized: checksummed };
+}
+
+const VALIDATORS: Record<AddressFormat, (address: string) => AddressValidationResult> = {
+  sui: validateSui,
+  solana: validateSolana,
+  evm: validateEvm,
+};
+
+/**
+ * Checks that an address is well-formed for a chain
+ *
+ * - SUI: `0x` + 64 hex characters, normalized to lowercase. Short forms such as `0x2` are
+ *   rejected; pass them through {@link expandSuiAddress} first when they are intended
+ * - Solana: base58 encoding of a 32-byte public key, returned unchanged
+ * - EVM (Base, Ethereum): `0x` + 40 hex characters; mixed-case input must carry a valid
+ *   EIP-55 checksum, and the result is checksummed
+ *
+ * @param chain - Chain the address belongs to
+ * @param address - The address to check; surrounding whitespace is ignored
+ * @returns `valid: true` with the normalized address, or `valid: false` with the reason
+ *
+ * @example
+ * ```typescript
+ * const result = validateAddress(BlockchainNetwork.SUI, input);
+ * if (!result.valid) showError(result.reason);
+ * ```
+ */
+export function validateAddress(chain: ChainId, address: string): AddressValidationResult {
+  const format = getAddressFormat(chain);
+  if (!format) {
+    return { valid: false, reason: `Address validation is not supported for chain ${chain}` };
+  }
+  if (typeof address !== 'string' || !address.trim()) {
+    return { valid: false, reason: 'Address is empty' };
+  }
+  return VALIDATORS[format](address.trim());
+}
+
+/**
+ * Returns true when the address is well-formed for the chain
+ */
+export function isValidAddress(chain: ChainId, address: string): boolean {
+  return validateAddress(chain, address).valid;
+}
+
+/**
+ * Returns the canonical form of an address: lowercase for SUI, EIP-55 checksummed for EVM
+ * chains, unchanged for Solana
+ *
+ * @throws {BeepValidationError} With code `INVALID_ADDRESS` when the address is malformed
+ *
+ * @example
+ * ```typescript
+ * normalizeAddress(BlockchainNetwork.BASE, '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913');
+ * // '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+ * ```
+ */
+export function normalizeAddress(chain: ChainId, address: string): string {
+  const result = validateAddress(chain, address);
+  if (!result.valid) {
+    // The address itself stays out of the message: wallet addresses are redacted from logs
+    throw new BeepValidationError(`Invalid ${chain} address: ${result.reason}`, {
+      code: BeepErrorCode.INVALID_ADDRESS,
+      details: { chain, reason: result.reason },
+    });
+  }
+  return result.normalized;
+}
+
+/**
+ * Zero-pads a short SUI address such as `0x2` to the full 64-character form that
+ * {@link validateAddress} accepts. This is the explicit opt-in for short forms: only use it
+ * for addresses known to be short (e.g. system objects), never for user-entered payout
+ * destinations.
+ *
+ * @throws {BeepValidationError} With code `INVALID_ADDRESS` unless the address is `0x`
+ * followed by 1 to 64 hex characters
+ *
+ * @example
+ * ```typescript
+ * expandSuiAddress('0x2');
+ * // '0x0000000000000000000000000000000000000000000000000000000000000002'
+ * ```
+ */
+export function expandSuiAddress(address: string): string {
+  const trimmed = typeof address === 'string' ? address.trim() : '';
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(trimmed)) {
+    throw new BeepValidationError('Invalid SUI address: 0x followed by up to 64 hex characters', {
+      code: BeepErrorCode.INVALID_ADDRESS,
+      details: { chain: BlockchainNetwork.SUI },
+    });
+  }
+  return `0x${trimmed.slice(2).toLowerCase().padStart(64, '0')}`;
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Bounded-concurrency helpers for fan-out operations
+ */
+
+/**
+ * Maps items through an async function with at most `concurrency` calls in flight.
+ * Results keep the input order. `fn` should not throw; a rejection aborts the whole map.
+ *
+ * @param options.items - Items to process
+ * @param options.concurrency - Maximum number of concurrent calls (at least 1)
+ * @param options.fn - Called with each item and its index
+ */
+export async function mapWithConcurrency<T, R>(options: {
+  items: readonly T[];
+  concurrency: number;
+  fn: (item: T, index: number) => Promise<R>;
+}): Promise<R[]> {
+  const { items, fn } = options;
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(options.concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
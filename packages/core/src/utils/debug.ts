@@ -2,7 +2,9 @@
  * @fileoverview Debug utilities for enhanced developer experience
  */
 
-import { BeepError } from '../errors';
+import { BeepError, createBeepErrorFromAxios } from '../errors';
+import type { BeepMiddleware, BeepHttpResponse } from '../middleware';
+import { BeepRedactionOptions, createRedactor } from './redact';
 
 export interface BeepDebugOptions {
   /** Enable verbose logging */
@@ -11,8 +13,19 @@ export interface BeepDebugOptions {
   logRequests?: boolean;
   /** Log API responses */
   logResponses?: boolean;
-  /** Custom logger function */
+  /** Custom logger function; receives data that has already been redacted */
   logger?: (options: LogOptions) => void;
+  /**
+   * Output format of the default logger. `json` writes one JSON object per line,
+   * ready for log aggregation.
+   * @default 'text'
+   */
+  format?: 'text' | 'json';
+  /**
+   * Extra fields to redact. Auth headers, API keys, secrets, OTP codes, emails and wallet
+   * addresses are always redacted.
+   */
+  redact?: BeepRedactionOptions;
 }
 
 export interface LogOptions {
@@ -24,6 +37,7 @@ export interface LogOptions {
 export interface ApiRequestLogOptions {
   method: string;
   url: string;
+  headers?: Record<string, string>;
   data?: any;
 }
 
@@ -31,6 +45,7 @@ export interface ApiResponseLogOptions {
   method: string;
   url: string;
   status: number;
+  headers?: Record<string, string>;
   data?: any;
 }
 
@@ -60,16 +75,39 @@ const defaultLogger = (options: LogOptions) => {
   }
 };
 
+/**
+ * Logger writing one JSON object per line
+ */
+const jsonLogger = (options: LogOptions) => {
+  const { level, message, data } = options;
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), level, message, data });
+
+  switch (level) {
+    case 'error':
+      console.error(line);
+      break;
+    case 'warn':
+      console.warn(line);
+      break;
+    default:
+      console.info(line);
+  }
+};
+
 /**
  * Debug logger class for the SDK
  */
 export class BeepDebugger {
   private options: BeepDebugOptions;
   private logger: (options: LogOptions) => void;
+  private redact: (value: unknown) => unknown;
 
   constructor(options: BeepDebugOptions = {}) {
     this.options = options;
-    this.logger = options.logger || defaultLogger;
+    this.redact = createRedactor(options.redact);
+    const logger = options.logger || (options.format === 'json' ? jsonLogger : defaultLogger);
+    // Every entry passes through redaction, whichever logger is used
+    this.logger = (entry) => logger({ ...entry, data: this.redact(entry.data) });
   }
 
   /**
@@ -123,15 +161,11 @@ export class BeepDebugger {
    */
   public logRequest(options: ApiRequestLogOptions): void {
     if (this.options.logRequests && this.options.debug) {
-      const { method, url, data } = options;
+      const { method, url, headers, data } = options;
       this.logger({
         level: 'debug',
         message: `API Request: ${method} ${url}`,
-        data: {
-          method,
-          url,
-          data: this.sanitizeData(data),
-        },
+        data: { method, url, headers, data },
       });
     }
   }
@@ -141,98 +175,54 @@ export class BeepDebugger {
    */
   public logResponse(options: ApiResponseLogOptions): void {
     if (this.options.logResponses && this.options.debug) {
-      const { method, url, status, data } = options;
+      const { method, url, status, headers, data } = options;
       this.logger({
         level: 'debug',
         message: `API Response: ${method} ${url} (${status})`,
-        data: {
-          method,
-          url,
-          status,
-          data: this.sanitizeData(data),
-        },
+        data: { method, url, status, headers, data },
       });
     }
   }
-
-  /**
-   * Sanitize sensitive data before logging
-   */
-  private sanitizeData(data: any): any {
-    if (!data) return data;
-
-    const sensitiveFields = ['apiKey', 'api_key', 'authorization', 'password', 'secret'];
-
-    if (typeof data === 'string') {
-      return data;
-    }
-
-    if (Array.isArray(data)) {
-      return data.map((item) => this.sanitizeData(item));
-    }
-
-    if (typeof data === 'object') {
-      const sanitized: any = {};
-
-      for (const [key, value] of Object.entries(data)) {
-        if (sensitiveFields.some((field) => key.toLowerCase().includes(field))) {
-          sanitized[key] = '[REDACTED]';
-        } else {
-          sanitized[key] = this.sanitizeData(value);
-        }
-      }
-
-      return sanitized;
-    }
-
-    return data;
-  }
 }
 
 /**
- * Create axios interceptors for debugging
+ * Create a middleware that logs every request, response and failed attempt
  */
-export function createDebugInterceptors(axios: any, beepDebugger: BeepDebugger) {
-  // Request interceptor
-  axios.interceptors.request.use(
-    (config: any) => {
-      beepDebugger.logRequest({
-        method: config.method?.toUpperCase() || 'GET',
-        url: config.url || '',
-        data: config.data,
-      });
-      return config;
-    },
-    (error: any) => {
-      beepDebugger.error('Request interceptor error', error);
-      return Promise.reject(error);
-    },
-  );
+export function createDebugMiddleware(beepDebugger: BeepDebugger): BeepMiddleware {
+  return async (request, next) => {
+    beepDebugger.logRequest({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      data: request.body,
+    });
+
+    let response: BeepHttpResponse;
+    try {
+      response = await next(request);
+    } catch (error) {
+      beepDebugger.error('API Error', createBeepErrorFromAxios(error));
+      throw error;
+    }
 
-  // Response interceptor
-  axios.interceptors.response.use(
-    (response: any) => {
-      beepDebugger.logResponse({
-        method: response.config.method?.toUpperCase() || 'GET',
-        url: response.config.url || '',
-        status: response.status,
-        data: response.data,
-      });
-      return response;
-    },
-    (error: any) => {
-      if (error.response) {
-        beepDebugger.logResponse({
-          method: error.config?.method?.toUpperCase() || 'GET',
-          url: error.config?.url || '',
-          status: error.response.status,
-          data: error.response.data,
-        });
-      }
-      beepDebugger.error('API Error', error);
-      return Promise.reject(error);
-    },
-  );
+    beepDebugger.logResponse({
+      method: request.method,
+      url: request.url,
+      status: response.status,
+      headers: response.headers,
+      data: response.data,
+    });
+    if (response.status >= 400) {
+      beepDebugger.error(
+        'API Error',
+        createBeepErrorFromAxios({
+          response,
+          message: `Request failed with status code ${response.status}`,
+        }),
+      );
+    }
+    return response;
+  };
 }
 
 /**
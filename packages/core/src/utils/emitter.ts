@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Minimal typed event emitter with no Node.js dependency, so it also runs in
+ * browsers and edge runtimes
+ */
+
+/** Listener for an event carrying a payload of type T */
+export type BeepEventListener<T> = (payload: T) => void;
+
+/**
+ * Typed event emitter. `Events` maps each event name to its payload type.
+ *
+ * A listener that throws is reported with `console.error` and does not stop the other
+ * listeners or the operation that emitted the event.
+ */
+export class TypedEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<BeepEventListener<never>>>();
+
+  /**
+   * Subscribes to an event
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: BeepEventListener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an event only
+   *
+   * @returns A function that removes the listener
+   */
+  once<K extends keyof Events>(event: K, listener: BeepEventListener<Events[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Removes a listener added with `on`
+   */
+  off<K extends keyof Events>(event: K, listener: BeepEventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    // Copy so listeners can unsubscribe while being called
+    const listeners = Array.from(this.listeners.get(event) ?? []) as BeepEventListener<Events[K]>[];
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[BEEP SDK] "${String(event)}" listener threw`, error);
+      }
+    }
+  }
+}
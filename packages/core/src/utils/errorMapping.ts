@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Maps failed API requests to typed BeepError subclasses
+ */
+
+import { AxiosInstance } from 'axios';
+import { createBeepErrorFromAxios } from '../errors';
+
+/**
+ * Adds a response interceptor that converts every rejected request into a `BeepError`.
+ * Register it after the retry interceptor so retries still see the raw axios error.
+ *
+ * @param client - The axios instance whose failures should be mapped
+ */
+export function createErrorMappingInterceptor(client: AxiosInstance) {
+  client.interceptors.response.use(undefined, (error: unknown) =>
+    Promise.reject(createBeepErrorFromAxios(error)),
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Idempotency keys for requests with side effects (payouts, invoices, products, ...)
+ */
+
+import { AxiosRequestConfig } from 'axios';
+
+/** Header carrying the idempotency key; POST requests are only retried when it is present */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Options accepted by SDK methods that create resources or move funds
+ */
+export interface IdempotentRequestOptions {
+  /**
+   * Key that makes the request safe to repeat: the server performs the side effect at most
+   * once per key. Generated automatically when omitted, and reused for every retry.
+   * Pass your own (e.g. an order ID) to also dedupe across process restarts.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Generates a random idempotency key (UUID v4)
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  // Fallback for runtimes without randomUUID (e.g. insecure browser contexts)
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Builds the axios request config carrying the idempotency key header
+ *
+ * @param options - Caller-supplied options; a key is generated when none is given
+ */
+export function idempotentRequestConfig(
+  options: IdempotentRequestOptions = {},
+): AxiosRequestConfig {
+  return {
+    headers: {
+      [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey ?? generateIdempotencyKey(),
+    },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Query serialization and lazy iteration for paginated list endpoints
+ */
+
+import { FilterParams, Page, PaginationParams } from '../types';
+
+/** Page size used by the `iterate()` helpers when no `limit` is given */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/** List parameters as accepted by any list endpoint; `status` is endpoint specific */
+type ListParams = Omit<FilterParams, 'status' | 'sortOrder'> & {
+  status?: string | string[];
+  sortOrder?: string;
+};
+
+/**
+ * Flattens list parameters into query string values.
+ * Arrays become comma-separated lists, `dateRange` becomes `from`/`to` and other objects
+ * (e.g. `priceRange`) become `key[field]` entries.
+ *
+ * @param params - Pagination, sorting and filter parameters
+ * @returns Query parameters for axios, without undefined values
+ */
+export function toListQuery(params: ListParams = {}): Record<string, string | number | boolean> {
+  const { dateRange, filters, ...rest } = params;
+  const query: Record<string, string | number | boolean> = {};
+  const entries = Object.entries({ ...filters, ...rest, from: dateRange?.from, to: dateRange?.to });
+
+  for (const [key, value] of entries as [string, unknown][]) {
+    if (value === undefined || value === null) continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) query[key] = value.join(',');
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      query[key] = value;
+    } else if (typeof value === 'object' && !(value instanceof Date)) {
+      for (const [field, fieldValue] of Object.entries(toListQuery(value as ListParams))) {
+        query[`${key}[${field}]`] = fieldValue;
+      }
+    } else {
+      query[key] = String(value);
+    }
+  }
+  return query;
+}
+
+/**
+ * Normalizes a list response into a {@link Page}.
+ * Accepts both a bare array (offset pagination: a page of exactly `limit` items implies there
+ * may be more, while a longer one means the endpoint ignored `limit` and sent everything) and
+ * the `PaginatedResponse` envelope with `data` and `pagination.nextCursor`.
+ *
+ * @param options.data - The response body
+ * @param options.params - The parameters the page was requested with
+ */
+export function toPage<T>(options: { data: unknown; params?: PaginationParams }): Page<T> {
+  const { data, params = {} } = options;
+  const offset = params.offset ?? 0;
+
+  if (Array.isArray(data)) {
+    const hasMore = params.limit !== undefined && data.length > 0 && data.length === params.limit;
+    return { items: data as T[], nextOffset: hasMore ? offset + data.length : undefined };
+  }
+
+  const envelope = (data ?? {}) as {
+    data?: T[];
+    items?: T[];
+    total?: number;
+    nextCursor?: string | null;
+    pagination?: { page?: number; totalPages?: number; nextCursor?: string | null };
+  };
+  const items = envelope.data ?? envelope.items ?? [];
+  const nextCursor = envelope.pagination?.nextCursor ?? envelope.nextCursor ?? undefined;
+  const { page, totalPages } = envelope.pagination ?? {};
+  const hasMoreByCount =
+    envelope.total !== undefined ? offset + items.length < envelope.total : false;
+  const hasMoreByPage =
+    page !== undefined && totalPages !== undefined ? page < totalPages : hasMoreByCount;
+
+  return {
+    items,
+    total: envelope.total,
+    nextCursor: nextCursor || undefined,
+    nextOffset:
+      !nextCursor && items.length > 0 && hasMoreByPage ? offset + items.length : undefined,
+  };
+}
+
+/**
+ * Lazily walks every page of a list endpoint, yielding items one by one.
+ * The next page is only requested once the consumer has taken every item of the current
+ * one, so breaking out of a `for await` loop stops fetching. Iteration also stops when the
+ * endpoint returns the same cursor or the same items again, as one that ignores
+ * `offset`/`cursor` would.
+ *
+ * @param options.params - Parameters for the first page; filters are kept for later pages
+ * @param options.fetchPage - Fetches a single page
+ */
+export async function* paginate<T, P extends PaginationParams>(options: {
+  params: P;
+  fetchPage: (params: P) => Promise<Page<T>>;
+}): AsyncGenerator<T, void, undefined> {
+  let params = options.params;
+  let previousItems: string | undefined;
+
+  while (true) {
+    const page = await options.fetchPage(params);
+    const items = JSON.stringify(page.items);
+    if (items === previousItems) return;
+    previousItems = items;
+    yield* page.items;
+
+    if (page.nextCursor) {
+      if (page.nextCursor === params.cursor) return;
+      params = { ...params, cursor: page.nextCursor, offset: undefined };
+    } else if (page.nextOffset !== undefined) {
+      params = { ...params, offset: page.nextOffset };
+    } else {
+      return;
+    }
+  }
+}
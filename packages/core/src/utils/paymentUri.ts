@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Builds and parses `sui:` and `solana:` (Solana Pay) payment URIs, the links
+ * wallets open from a QR code
+ */
+
+import { BeepErrorCode, BeepValidationError } from '../errors';
+import { BlockchainNetwork } from '../types/common';
+import { Money } from '../types/money';
+import { ChainId, TokenSymbol, tokenRegistry } from '../types/token';
+import { isValidAddress, normalizeAddress } from './address';
+
+/** URI schemes the SDK can build and parse */
+export type PaymentUriScheme = 'sui' | 'solana';
+
+/**
+ * Fields of a payment URI, as passed to {@link PaymentUri.build}
+ */
+export interface PaymentUriParams {
+  /** `sui` or `solana` */
+  scheme: PaymentUriScheme;
+  /** Wallet address that receives the payment */
+  recipient: string;
+  /**
+   * Amount in whole tokens, e.g. `'1.5'`. Omit to let the payer enter it.
+   * May not have more decimal places than the token.
+   */
+  amount?: string | number;
+  /**
+   * Token to pay in: its address (SPL mint or SUI coin type) or the symbol of a token
+   * registered on the chain, e.g. `'USDC'`. Omit for the chain's native coin.
+   */
+  token?: string;
+  /** Decimal places of `token`, required only when it is not registered with the SDK */
+  decimals?: number;
+  /** Reference(s) used to find the payment on-chain, e.g. a BEEP reference key */
+  reference?: string | string[];
+  /** Who is being paid, e.g. the store name */
+  label?: string;
+  /** What the payment is for */
+  message?: string;
+  /** Memo attached to the transaction */
+  memo?: string;
+}
+
+/**
+ * A payment URI read by {@link PaymentUri.parse}
+ */
+export interface ParsedPaymentUri {
+  scheme: PaymentUriScheme;
+  /** Normalized recipient address */
+  recipient: string;
+  /** Amount in whole tokens, without trailing zeros */
+  amount?: string;
+  /** Token address; absent for the chain's native coin */
+  token?: string;
+  /** Symbol of `token` when it is registered with the SDK */
+  tokenSymbol?: TokenSymbol;
+  /** Decimal places `amount` was checked against */
+  decimals: number;
+  /** References in the order they appear; empty when there are none */
+  references: string[];
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+// A SUI coin type, e.g. `0x2::sui::SUI`
+const SUI_COIN_TYPE_PATTERN = /^0x[0-9a-f]{1,64}::[a-z_]\w*::[a-z_]\w*$/i;
+
+/** Chain, token query parameter, token address check and native coin decimals of each scheme */
+const SCHEMES: Record<
+  PaymentUriScheme,
+  {
+    chain: ChainId;
+    tokenParam: string;
+    isTokenAddress: (token: string) => boolean;
+    nativeDecimals: number;
+  }
+> = {
+  // SOL has 9 decimals (lamports)
+  solana: {
+    chain: BlockchainNetwork.SOLANA,
+    tokenParam: 'spl-token',
+    isTokenAddress: (token) => isValidAddress(BlockchainNetwork.SOLANA, token),
+    nativeDecimals: 9,
+  },
+  // SUI has 9 decimals (MIST)
+  sui: {
+    chain: BlockchainNetwork.SUI,
+    tokenParam: 'token',
+    isTokenAddress: (token) => SUI_COIN_TYPE_PATTERN.test(token),
+    nativeDecimals: 9,
+  },
+};
+
+// Solana Pay amounts are plain decimals: no sign, exponent or bare leading dot
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+const invalid = (message: string, details?: Record<string, unknown>): BeepValidationError =>
+  new BeepValidationError(message, { code: BeepErrorCode.INVALID_PARAMETER, details });
+
+const isScheme = (value: string): value is PaymentUriScheme => value in SCHEMES;
+
+/**
+ * Resolves a token address, or a registered symbol when `allowSymbol` is set, to its address,
+ * symbol and decimals. Unregistered tokens must be an address on the scheme's chain.
+ */
+function resolveToken(options: {
+  scheme: PaymentUriScheme;
+  token?: string;
+  decimals?: number;
+  allowSymbol?: boolean;
+}): {
+  address?: string;
+  symbol?: TokenSymbol;
+  decimals: number;
+} {
+  const { chain, isTokenAddress, nativeDecimals } = SCHEMES[options.scheme];
+  if (!options.token) return { decimals: options.decimals ?? nativeDecimals };
+
+  const definition =
+    tokenRegistry.findByAddress(options.token, chain) ??
+    (options.allowSymbol ? tokenRegistry.get(options.token, chain) : undefined);
+  if (!definition && !isTokenAddress(options.token)) {
+    throw new BeepValidationError(`Token ${options.token} is not a token address on ${chain}`, {
+      code: BeepErrorCode.INVALID_TOKEN,
+      details: { token: options.token, chain },
+    });
+  }
+  const decimals = options.decimals ?? definition?.decimals;
+  if (decimals === undefined) {
+    throw new BeepValidationError(
+      `Token ${options.token} is not registered on chain ${chain}; pass its decimals`,
+      { code: BeepErrorCode.INVALID_TOKEN, details: { token: options.token, chain } },
+    );
+  }
+  return {
+    address: definition?.address ?? options.token,
+    symbol: definition?.token,
+    decimals,
+  };
+}
+
+/**
+ * Checks an amount against the token's decimals and returns it without trailing zeros
+ *
+ * @throws {BeepValidationError} With code `INVALID_AMOUNT`
+ */
+function formatAmount(amount: string | number, decimals: number): string {
+  const text = String(amount).trim();
+  if (!AMOUNT_PATTERN.test(text)) {
+    throw new BeepValidationError(`Invalid payment URI amount: "${amount}"`, {
+      code: BeepErrorCode.INVALID_AMOUNT,
+    });
+  }
+  return Money.parse(text, { decimals }).format({ minimumFractionDigits: 0 });
+}
+
+/**
+ * Payment links in the formats wallets understand:
+ *
+ * - `solana:<recipient>?amount=&spl-token=&reference=&label=&message=&memo=` (Solana Pay
+ *   transfer requests)
+ * - `sui:<recipient>?amount=&token=&reference=&label=&message=&memo=`, the format of
+ *   `paymentUrl` in BEEP payment sessions
+ *
+ * Both directions validate the recipient for its chain and the amount against the token's
+ * decimals, so links can be built offline (e.g. for a POS QR code) and links received from
+ * elsewhere can be checked before they are trusted.
+ */
+export class PaymentUri {
+  /**
+   * Builds a payment URI
+   *
+   * @returns The URI, with the recipient normalized and text fields percent-encoded
+   * @throws {BeepValidationError} With code `INVALID_ADDRESS` for a malformed recipient,
+   * `INVALID_AMOUNT` for a malformed or too precise amount, `INVALID_TOKEN` for an unknown
+   * token that is not an address on the chain or comes without `decimals`, or
+   * `INVALID_PARAMETER` for an unsupported scheme
+   *
+   * @example
+   * ```typescript
+   * const url = PaymentUri.build({
+   *   scheme: 'sui',
+   *   recipient: merchantWallet,
+   *   amount: '12.50',
+   *   token: 'USDC',
+   *   reference: referenceKey,
+   *   label: 'Corner Café',
+   * });
+   * // 'sui:0x…?amount=12.5&token=0xdba3…%3A%3Ausdc%3A%3AUSDC&reference=…&label=Corner%20Caf%C3%A9'
+   * ```
+   */
+  static build(params: PaymentUriParams): string {
+    if (!isScheme(params.scheme)) {
+      throw invalid(`Unsupported payment URI scheme: ${params.scheme}`, {
+        scheme: params.scheme,
+      });
+    }
+    const { chain, tokenParam } = SCHEMES[params.scheme];
+    const recipient = normalizeAddress(chain, params.recipient);
+    const token = resolveToken({ ...params, allowSymbol: true });
+
+    const query: [string, string][] = [];
+    if (params.amount !== undefined) {
+      query.push(['amount', formatAmount(params.amount, token.decimals)]);
+    }
+    if (token.address) query.push([tokenParam, token.address]);
+    const references =
+      params.reference === undefined ? [] : ([] as string[]).concat(params.reference);
+    references.forEach((reference) => query.push(['reference', reference]));
+    if (params.label !== undefined) query.push(['label', params.label]);
+    if (params.message !== undefined) query.push(['message', params.message]);
+    if (params.memo !== undefined) query.push(['memo', params.memo]);
+
+    // encodeURIComponent rather than URLSearchParams, which writes spaces as '+'
+    const search = query.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+    return `${params.scheme}:${recipient}${search ? `?${search}` : ''}`;
+  }
+
+  /**
+   * Parses and validates a payment URI
+   *
+   * The token parameter must be an address (SPL mint or SUI coin type); a symbol such as
+   * `spl-token=USDC` is rejected, even with `decimals`, since wallets would not know which
+   * token it means.
+   *
+   * @param uri - A `sui:` or `solana:` transfer URI
+   * @param options.decimals - Decimal places of the token, when it is not registered
+   * with the SDK
+   * @throws {BeepValidationError} With code `INVALID_PARAMETER` for an unsupported scheme,
+   * a Solana Pay transaction request (`solana:https://…`) or a repeated field,
+   * `INVALID_ADDRESS` for a malformed recipient, `INVALID_AMOUNT` for a malformed or too
+   * precise amount, or `INVALID_TOKEN` for a token that is not an address on the chain (such
+   * as a symbol), or an address the SDK does not know without `decimals`
+   *
+   * @example
+   * ```typescript
+   * const link = PaymentUri.parse(scannedText);
+   * if (link.tokenSymbol !== 'USDC' || link.recipient !== ourWallet) reject();
+   * ```
+   */
+  static parse(uri: string, options: { decimals?: number } = {}): ParsedPaymentUri {
+    const text = typeof uri === 'string' ? uri.trim() : '';
+    const separator = text.indexOf(':');
+    const scheme = text.slice(0, separator).toLowerCase();
+    if (separator < 0 || !isScheme(scheme)) {
+      throw invalid('Not a sui: or solana: payment URI', { scheme: scheme || undefined });
+    }
+    const { chain, tokenParam } = SCHEMES[scheme];
+
+    const rest = text.slice(separator + 1);
+    const queryStart = rest.indexOf('?');
+    let path: string;
+    try {
+      path = decodeURIComponent(queryStart < 0 ? rest : rest.slice(0, queryStart));
+    } catch {
+      throw invalid('Payment URI recipient is not validly encoded', { scheme });
+    }
+    if (/^https?:/i.test(path)) {
+      throw invalid('Solana Pay transaction requests are not supported', { scheme });
+    }
+    const recipient = normalizeAddress(chain, path);
+    const query = new URLSearchParams(queryStart < 0 ? '' : rest.slice(queryStart + 1));
+
+    const single = (key: string): string | undefined => {
+      const values = query.getAll(key);
+      if (values.length > 1) throw invalid(`Payment URI has more than one ${key}`, { key });
+      return values[0];
+    };
+
+    const token = resolveToken({ scheme, token: single(tokenParam), decimals: options.decimals });
+    const amount = single('amount');
+    return {
+      scheme,
+      recipient,
+      amount: amount === undefined ? undefined : formatAmount(amount, token.decimals),
+      token: token.address,
+      tokenSymbol: token.symbol,
+      decimals: token.decimals,
+      references: query.getAll('reference'),
+      label: single('label'),
+      message: single('message'),
+      memo: single('memo'),
+    };
+  }
+}
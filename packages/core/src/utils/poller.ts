@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Shared polling engine behind the `waitFor*` helpers and `watchPayment`.
+ * Polls on an interval with backoff and jitter, and exposes progress as a promise, events
+ * and an async iterator.
+ */
+
+import { BeepError } from '../errors';
+import { TypedEmitter } from './emitter';
+import { RetryJitter, computeRetryDelay } from './retry';
+
+/** HTTP statuses that end polling immediately: the resource will never settle */
+const FATAL_STATUSES = [400, 401, 403, 404, 422];
+
+/** Growth of the delay after each consecutive failure */
+const BACKOFF_FACTOR = 1.5;
+
+/**
+ * Why a {@link Poller} stopped
+ *
+ * - `settled`: the resource reached a final state; see `outcome`
+ * - `timeout`: `timeoutMs` elapsed first
+ * - `aborted`: the signal was aborted or `stop()` was called
+ * - `fatal`: a request failed with 400/401/403/404/422; see `error`
+ */
+export type PollEndReason = 'settled' | 'timeout' | 'aborted' | 'fatal';
+
+/**
+ * Final state of a {@link Poller}
+ */
+export interface PollResult<T, O extends string = string> {
+  reason: PollEndReason;
+  /** Final state reached, when `reason` is `settled` */
+  outcome?: O;
+  /** Last value fetched successfully, if any */
+  last?: T;
+  /** The error that ended polling, when `reason` is `fatal` */
+  error?: unknown;
+}
+
+/**
+ * Timing options shared by every polling helper
+ */
+export interface PollingOptions {
+  /**
+   * Delay between polls, in milliseconds
+   * @default 15000
+   */
+  intervalMs?: number;
+  /**
+   * Upper bound for the delay while backing off after transient errors, in milliseconds
+   * @default 60000, or `intervalMs` when larger
+   */
+  maxIntervalMs?: number;
+  /**
+   * Give up after this long, in milliseconds. One last poll is made at the deadline.
+   * @default 300000
+   */
+  timeoutMs?: number;
+  /**
+   * Jitter applied to every delay, so many clients do not poll in lockstep.
+   * With `full`, a poll may come sooner than `intervalMs`.
+   * @default 'none'
+   */
+  jitter?: RetryJitter;
+  /** Stops polling when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for {@link Poller}
+ */
+export interface PollerOptions<T, O extends string> extends PollingOptions {
+  /** Fetches the current value; a rejection counts as a failed poll */
+  fetch: () => Promise<T>;
+  /** Returns the final state reached by `value`, or undefined to keep polling */
+  settle: (value: T) => O | undefined;
+}
+
+/**
+ * Events emitted by a {@link Poller}: one event per outcome carrying the final value, plus:
+ *
+ * - `update`: every value fetched
+ * - `error`: every failed poll; transient errors keep polling
+ * - `end`: the final result, whatever the reason
+ */
+export type PollerEvents<T, O extends string> = { [K in O]: T } & {
+  update: T;
+  error: unknown;
+  end: PollResult<T, O>;
+};
+
+/**
+ * Polls a resource until it settles, the timeout elapses, the signal is aborted or a request
+ * fails fatally. Polling starts as soon as the poller is created.
+ *
+ * Transient failures (429, 5xx, network) back off by 1.5× per consecutive failure up to
+ * `maxIntervalMs`; the next successful poll returns to `intervalMs`.
+ *
+ * Consume it as a promise (`result`), with listeners, or with `for await`, which yields
+ * every value fetched after iteration starts, ends when polling ends and throws the error
+ * that ended polling when it was fatal. Breaking out of the loop stops polling.
+ *
+ * @example
+ * ```typescript
+ * const poller = new Poller({
+ *   fetch: () => beep.payments.getPayout(payoutId),
+ *   settle: (payout) => (payout.status === PayoutStatus.COMPLETED ? 'completed' : undefined),
+ *   intervalMs: 5_000,
+ *   jitter: 'equal',
+ * });
+ *
+ * poller.on('completed', (payout) => console.info('paid out', payout.transactionHash));
+ * const { reason } = await poller.result;
+ * ```
+ */
+export class Poller<T, O extends string>
+  extends TypedEmitter<PollerEvents<T, O>>
+  implements AsyncIterable<T>
+{
+  /** Resolves once polling ends; never rejects */
+  readonly result: Promise<PollResult<T, O>>;
+
+  private readonly options: PollerOptions<T, O>;
+  private readonly intervalMs: number;
+  private readonly maxIntervalMs: number;
+  private readonly controller = new AbortController();
+
+  constructor(options: PollerOptions<T, O>) {
+    super();
+    this.options = options;
+    this.intervalMs = options.intervalMs ?? 15_000;
+    this.maxIntervalMs = Math.max(this.intervalMs, options.maxIntervalMs ?? 60_000);
+
+    const { signal } = options;
+    const onAbort = () => this.stop();
+    if (signal?.aborted) this.stop();
+    signal?.addEventListener('abort', onAbort);
+    this.result = this.run().finally(() => signal?.removeEventListener('abort', onAbort));
+  }
+
+  /** Stops polling; `result` resolves with reason `aborted` unless it already ended */
+  stop(): void {
+    this.controller.abort();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    const queue: T[] = [];
+    let ended: PollResult<T, O> | undefined;
+    let wake: (() => void) | undefined;
+
+    const offUpdate = this.on('update', (value) => {
+      queue.push(value);
+      wake?.();
+    });
+    void this.result.then((result) => {
+      ended = result;
+      wake?.();
+    });
+
+    return {
+      next: async (): Promise<IteratorResult<T>> => {
+        while (queue.length === 0 && !ended) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+        if (queue.length > 0) return { value: queue.shift() as T, done: false };
+        offUpdate();
+        if (ended?.reason === 'fatal') throw ended.error;
+        return { value: undefined, done: true };
+      },
+      return: async (): Promise<IteratorResult<T>> => {
+        offUpdate();
+        this.stop();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private async run(): Promise<PollResult<T, O>> {
+    const deadline = Date.now() + (this.options.timeoutMs ?? 5 * 60_000);
+    const { signal } = this.controller;
+    let last: T | undefined;
+    let failures = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      if (signal.aborted) return this.end({ reason: 'aborted', last });
+      try {
+        last = await this.options.fetch();
+        failures = 0;
+        this.emit('update', last);
+        const outcome = this.options.settle(last);
+        if (outcome !== undefined) return this.end({ reason: 'settled', outcome, last });
+      } catch (error) {
+        this.emit('error', error as PollerEvents<T, O>['error']);
+        const status = error instanceof BeepError ? error.statusCode : undefined;
+        if (status && FATAL_STATUSES.includes(status)) {
+          return this.end({ reason: 'fatal', last, error });
+        }
+        failures++;
+      }
+
+      if (signal.aborted) return this.end({ reason: 'aborted', last });
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) return this.end({ reason: 'timeout', last });
+      const delayMs = computeRetryDelay(failures + 1, {
+        baseDelayMs: this.intervalMs,
+        maxDelayMs: this.maxIntervalMs,
+        backoffFactor: BACKOFF_FACTOR,
+        jitter: this.options.jitter ?? 'none',
+      });
+      await this.sleep(Math.min(Math.ceil(delayMs), remainingMs));
+    }
+  }
+
+  private end(result: PollResult<T, O>): PollResult<T, O> {
+    if (result.outcome !== undefined) {
+      this.emit(result.outcome, result.last as PollerEvents<T, O>[O]);
+    }
+    this.emit('end', result as PollerEvents<T, O>['end']);
+    return result;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    const { signal } = this.controller;
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done);
+    });
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Redaction of secrets and personal data before anything is logged
+ */
+
+/** Value substituted for redacted fields */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names that are always redacted, matched case-insensitively at any depth:
+ * credentials and auth headers, OTP codes, emails and wallet addresses
+ */
+export const DEFAULT_REDACTED_KEYS: readonly RegExp[] = [
+  /authorization/i,
+  /cookie/i,
+  /api[-_]?key/i,
+  /publishable[-_]?key/i,
+  /secret/i,
+  /password/i,
+  /private[-_]?key/i,
+  /mnemonic/i,
+  /^otp$/i,
+  /verification[-_]?code/i,
+  /e-?mail/i,
+  /wallet[-_]?address/i,
+  /^destination[-_]?address$/i,
+];
+
+/**
+ * Additional redaction rules, applied on top of {@link DEFAULT_REDACTED_KEYS}
+ */
+export interface BeepRedactionOptions {
+  /**
+   * Field names to redact wherever they appear; strings match case-insensitively
+   * @example ['phone', /^customer[A-Z]/]
+   */
+  keys?: (string | RegExp)[];
+  /**
+   * Dot-separated field paths, matched at any depth of the logged data (so `customer.phone`
+   * also covers `data.customer.phone`). `*` matches one segment, `**` any number of
+   * segments, and `[]` any array index.
+   * @example ['customer.phone', 'assets[].metadata.*']
+   */
+  paths?: string[];
+  /**
+   * Replacement for redacted values
+   * @default '[REDACTED]'
+   */
+  replacement?: string;
+}
+
+type PathPattern = string[];
+
+function compilePath(path: string): PathPattern {
+  const segments = path
+    .replace(/\[(\d*)\]/g, (_, index: string) => `.${index || '*'}`)
+    .split('.')
+    .filter(Boolean);
+  return ['**', ...segments];
+}
+
+function matchesPath(options: { pattern: PathPattern; path: string[] }): boolean {
+  const { pattern, path } = options;
+  if (pattern.length === 0) return path.length === 0;
+  const [head, ...rest] = pattern;
+  if (head === '**') {
+    // Zero or more segments
+    for (let skip = 0; skip <= path.length; skip++) {
+      if (matchesPath({ pattern: rest, path: path.slice(skip) })) return true;
+    }
+    return false;
+  }
+  if (path.length === 0) return false;
+  if (head !== '*' && head.toLowerCase() !== path[0].toLowerCase()) return false;
+  return matchesPath({ pattern: rest, path: path.slice(1) });
+}
+
+/**
+ * Creates a function that deep-copies a value with sensitive fields replaced.
+ * Errors are reduced to name/message/code so request configs (and their auth headers)
+ * attached to them never reach the log. Circular references are cut.
+ *
+ * @param options - Extra keys and paths to redact
+ */
+export function createRedactor(options: BeepRedactionOptions = {}): (value: unknown) => unknown {
+  const replacement = options.replacement ?? REDACTED;
+  const keyRules = [
+    ...DEFAULT_REDACTED_KEYS,
+    ...(options.keys ?? []).map((key) =>
+      typeof key === 'string'
+        ? new RegExp(`^${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
+        : key,
+    ),
+  ];
+  const pathPatterns = (options.paths ?? []).map(compilePath);
+
+  const isSensitive = (path: string[]): boolean => {
+    const key = path[path.length - 1];
+    return (
+      keyRules.some((rule) => rule.test(key)) ||
+      pathPatterns.some((pattern) => matchesPath({ pattern, path }))
+    );
+  };
+
+  const visit = (value: unknown, context: { path: string[]; seen: WeakSet<object> }): unknown => {
+    if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+    if (value instanceof Error) {
+      const { code, statusCode, status } = value as Error & Record<string, unknown>;
+      return { name: value.name, message: value.message, code, statusCode: statusCode ?? status };
+    }
+
+    // `seen` holds the ancestors of the current node, so only true cycles are cut
+    if (context.seen.has(value)) return '[Circular]';
+    context.seen.add(value);
+
+    const entries: [string, unknown][] = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item])
+      : Object.entries(value);
+    const result: Record<string, unknown> | unknown[] = Array.isArray(value) ? [] : {};
+
+    for (const [key, item] of entries) {
+      const path = [...context.path, key];
+      (result as Record<string, unknown>)[key] = isSensitive(path)
+        ? replacement
+        : visit(item, { path, seen: context.seen });
+    }
+    context.seen.delete(value);
+    return result;
+  };
+
+  return (value) => visit(value, { path: [], seen: new WeakSet() });
+}
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Automatic retries with exponential backoff and jitter for API requests
+ */
+
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import {
+  BeepErrorCode,
+  BeepNetworkError,
+  BeepRateLimitError,
+  createBeepErrorFromAxios,
+} from '../errors';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency';
+
+/**
+ * Jitter strategy applied to the backoff delay
+ * - `full`: random delay between 0 and the computed backoff (spreads retries the most)
+ * - `equal`: half the backoff plus a random amount up to the other half
+ * - `none`: use the computed backoff as-is
+ */
+export type RetryJitter = 'full' | 'equal' | 'none';
+
+/**
+ * Information passed to the `onRetry` callback before each retry
+ */
+export interface RetryAttemptInfo {
+  /** The retry about to be made (1 for the first retry) */
+  attempt: number;
+  /** Delay before the retry is sent, in milliseconds */
+  delayMs: number;
+  /** The error that triggered the retry */
+  error: unknown;
+}
+
+/**
+ * Retry policy for BeepClient and BeepPublicClient requests
+ */
+export interface BeepRetryOptions {
+  /**
+   * Maximum number of attempts, including the first request
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, in milliseconds
+   * @default 500
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single backoff delay, in milliseconds.
+   * A `Retry-After` longer than this stops retrying instead of waiting.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Multiplier applied to the delay after each attempt
+   * @default 2
+   */
+  backoffFactor?: number;
+  /**
+   * Jitter strategy
+   * @default 'full'
+   */
+  jitter?: RetryJitter;
+  /**
+   * HTTP status codes that are retried
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOnStatus?: number[];
+  /**
+   * HTTP methods that are safe to retry without an idempotency key.
+   * Other methods (POST, PATCH) are only retried when an `Idempotency-Key` header is set.
+   * @default ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+   */
+  safeMethods?: string[];
+  /** Called before each retry, e.g. for logging or metrics */
+  onRetry?: (info: RetryAttemptInfo) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<BeepRetryOptions, 'onRetry'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  backoffFactor: 2,
+  jitter: 'full',
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  safeMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+};
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & {
+  /** Number of retries already made for this request */
+  beepRetryCount?: number;
+};
+
+/**
+ * Computes the delay before a retry
+ *
+ * @param attempt - The retry number (1 for the first retry)
+ * @param options - Backoff settings
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  attempt: number,
+  options: Pick<BeepRetryOptions, 'baseDelayMs' | 'maxDelayMs' | 'backoffFactor' | 'jitter'> = {},
+): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+  const backoffFactor = options.backoffFactor ?? DEFAULT_RETRY_OPTIONS.backoffFactor;
+  const backoff = Math.min(maxDelayMs, baseDelayMs * backoffFactor ** (attempt - 1));
+
+  switch (options.jitter ?? DEFAULT_RETRY_OPTIONS.jitter) {
+    case 'full':
+      return Math.floor(Math.random() * backoff);
+    case 'equal':
+      return Math.floor(backoff / 2 + Math.random() * (backoff / 2));
+    default:
+      return backoff;
+  }
+}
+
+const hasIdempotencyKey = (config: InternalAxiosRequestConfig): boolean =>
+  Boolean(config.headers?.[IDEMPOTENCY_KEY_HEADER] ?? config.headers?.['idempotency-key']);
+
+/**
+ * Determines whether a failed request may be retried under the given policy
+ */
+function isRetryable(options: {
+  error: AxiosError;
+  policy: Required<Omit<BeepRetryOptions, 'onRetry'>>;
+}): boolean {
+  const { error, policy } = options;
+  const config = error.config;
+  if (!config || axios.isCancel(error) || config.signal?.aborted) return false;
+
+  const method = (config.method ?? 'get').toUpperCase();
+  if (!policy.safeMethods.includes(method) && !hasIdempotencyKey(config)) return false;
+
+  // No response at all means a network failure or timeout - always worth another try
+  if (!error.response) return true;
+  return policy.retryOnStatus.includes(error.response.status);
+}
+
+/**
+ * Waits out the backoff delay, rejecting with `REQUEST_ABORTED` as soon as the request's
+ * signal is aborted
+ */
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new BeepNetworkError('Request was aborted', { code: BeepErrorCode.REQUEST_ABORTED }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Adds a retry interceptor to an axios instance.
+ * Retries reuse the original request config, so headers such as the idempotency key
+ * stay the same across the whole retry sequence. Aborting the request's signal during a
+ * backoff delay rejects with `REQUEST_ABORTED` without waiting for the delay to end.
+ *
+ * @param client - The axios instance to retry requests on
+ * @param options - Retry policy
+ */
+export function createRetryInterceptor(client: AxiosInstance, options: BeepRetryOptions = {}) {
+  const policy = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetryableRequestConfig | undefined;
+    if (!config || !isRetryable({ error, policy })) {
+      return Promise.reject(error);
+    }
+
+    const attempt = (config.beepRetryCount ?? 0) + 1;
+    if (attempt >= policy.maxAttempts) {
+      return Promise.reject(error);
+    }
+
+    let delayMs = computeRetryDelay(attempt, policy);
+    if (error.response?.status === 429) {
+      const rateLimitError = createBeepErrorFromAxios(error);
+      if (rateLimitError instanceof BeepRateLimitError && rateLimitError.retryAfter) {
+        const retryAfterMs = rateLimitError.retryAfter * 1000;
+        // Waiting longer than the policy allows would stall the caller - surface the error instead
+        if (retryAfterMs > policy.maxDelayMs) {
+          return Promise.reject(error);
+        }
+        delayMs = retryAfterMs;
+      }
+    }
+
+    options.onRetry?.({ attempt, delayMs, error });
+    await waitForRetry(delayMs, config.signal as AbortSignal | undefined);
+
+    config.beepRetryCount = attempt;
+    return client.request(config);
+  });
+}
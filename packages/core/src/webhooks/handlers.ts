@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Drop-in webhook endpoints for Express, Fastify and fetch-style route handlers
+ * (Next.js App Router, Remix, Hono, Cloudflare Workers, ...)
+ */
+
+import { BeepError, BeepErrorCode } from '../errors';
+import { WebhookEventType } from '../types/common';
+import { BeepWebhookEvent, BeepWebhookEventOf } from '../types/webhook';
+import { BEEP_SIGNATURE_HEADER, BeepWebhooks } from './index';
+import { InMemoryWebhookEventStore, WebhookEventStore } from './store';
+
+type Handler<T extends WebhookEventType> = (event: BeepWebhookEventOf<T>) => void | Promise<void>;
+
+/**
+ * Per-event callbacks. Each is named after its `WebhookEventType`
+ * (e.g. `payment.completed` → `onPaymentCompleted`).
+ */
+export interface WebhookEventHandlers {
+  onPaymentCompleted?: Handler<WebhookEventType.PAYMENT_COMPLETED>;
+  onPaymentFailed?: Handler<WebhookEventType.PAYMENT_FAILED>;
+  onInvoicePaid?: Handler<WebhookEventType.INVOICE_PAID>;
+  onInvoiceExpired?: Handler<WebhookEventType.INVOICE_EXPIRED>;
+  onProductCreated?: Handler<WebhookEventType.PRODUCT_CREATED>;
+  onProductUpdated?: Handler<WebhookEventType.PRODUCT_UPDATED>;
+  onSubscriptionActivated?: Handler<WebhookEventType.SUBSCRIPTION_ACTIVATED>;
+  onSubscriptionCancelled?: Handler<WebhookEventType.SUBSCRIPTION_CANCELLED>;
+  /** Called for every verified event, after the type-specific handler */
+  onEvent?: (event: BeepWebhookEvent) => void | Promise<void>;
+}
+
+/**
+ * Configuration shared by all webhook adapters
+ */
+export interface BeepWebhookHandlerOptions extends WebhookEventHandlers {
+  /** Webhook signing secret from the BEEP dashboard */
+  secret: string;
+  /**
+   * Replay window in seconds
+   * @default 300
+   */
+  toleranceSeconds?: number;
+  /**
+   * Store used to drop duplicate deliveries by event ID
+   * @default InMemoryWebhookEventStore
+   */
+  store?: WebhookEventStore;
+  /** Called when verification or a handler fails; useful for logging */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Raw delivery extracted from a framework request
+ */
+export interface WebhookDelivery {
+  /** The raw, unparsed request body */
+  rawBody: string | Uint8Array | undefined;
+  /** Value of the `x-beep-signature` header */
+  signatureHeader: string | null | undefined;
+}
+
+/**
+ * Framework-independent result of handling a delivery
+ */
+export interface WebhookHandlerResult {
+  /** HTTP status to respond with. 2xx acknowledges, 4xx rejects, 5xx asks BEEP to retry. */
+  status: number;
+  /** JSON response body */
+  body: {
+    received: boolean;
+    duplicate?: boolean;
+    error?: string;
+  };
+}
+
+const HANDLER_NAMES: Record<WebhookEventType, keyof WebhookEventHandlers> = {
+  [WebhookEventType.PAYMENT_COMPLETED]: 'onPaymentCompleted',
+  [WebhookEventType.PAYMENT_FAILED]: 'onPaymentFailed',
+  [WebhookEventType.INVOICE_PAID]: 'onInvoicePaid',
+  [WebhookEventType.INVOICE_EXPIRED]: 'onInvoiceExpired',
+  [WebhookEventType.PRODUCT_CREATED]: 'onProductCreated',
+  [WebhookEventType.PRODUCT_UPDATED]: 'onProductUpdated',
+  [WebhookEventType.SUBSCRIPTION_ACTIVATED]: 'onSubscriptionActivated',
+  [WebhookEventType.SUBSCRIPTION_CANCELLED]: 'onSubscriptionCancelled',
+};
+
+/**
+ * Creates a framework-independent webhook processor.
+ * The framework adapters below are thin wrappers around this function.
+ *
+ * Response codes:
+ * - 200 when the event was handled, or was a duplicate that had already been handled
+ * - 400 when the signature is invalid or the payload is malformed (BEEP does not retry these)
+ * - 500 when a handler throws or the raw body is unavailable (e.g. a JSON body parser ran
+ *   first), so BEEP retries the delivery later
+ */
+export function createWebhookProcessor(
+  options: BeepWebhookHandlerOptions,
+): (delivery: WebhookDelivery) => Promise<WebhookHandlerResult> {
+  const store = options.store ?? new InMemoryWebhookEventStore();
+  // A throwing onError must not turn the response into a rejected promise
+  const reportError = (error: unknown): void => {
+    try {
+      options.onError?.(error);
+    } catch {
+      // ignored
+    }
+  };
+
+  return async (delivery) => {
+    if (delivery.rawBody === undefined) {
+      // A setup problem rather than a bad delivery: answer 500 so BEEP retries once it is fixed
+      const error = new BeepError(
+        'Raw request body unavailable; mount the handler behind a raw body parser',
+        { code: BeepErrorCode.MISSING_PARAMETER },
+      );
+      reportError(error);
+      return { status: 500, body: { received: false, error: error.message } };
+    }
+
+    let event: BeepWebhookEvent;
+    try {
+      event = await BeepWebhooks.constructEvent({
+        rawBody: delivery.rawBody,
+        signatureHeader: delivery.signatureHeader,
+        secret: options.secret,
+        toleranceSeconds: options.toleranceSeconds,
+      });
+    } catch (error) {
+      reportError(error);
+      const message = error instanceof BeepError ? error.message : 'Invalid webhook payload';
+      return { status: 400, body: { received: false, error: message } };
+    }
+
+    let claimed = false;
+    try {
+      claimed = await store.claim(event.id);
+      if (!claimed) {
+        return { status: 200, body: { received: true, duplicate: true } };
+      }
+
+      const handler = options[HANDLER_NAMES[event.type]] as
+        | ((event: BeepWebhookEvent) => void | Promise<void>)
+        | undefined;
+      await handler?.(event);
+      await options.onEvent?.(event);
+      return { status: 200, body: { received: true } };
+    } catch (error) {
+      reportError(error);
+      // Give the event back so the retried delivery is handled
+      if (claimed) await Promise.resolve(store.release(event.id)).catch(reportError);
+      return { status: 500, body: { received: false, error: 'Webhook handler failed' } };
+    }
+  };
+}
+
+const headerValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+const rawBodyFrom = (body: unknown): string | Uint8Array | undefined =>
+  typeof body === 'string' || body instanceof Uint8Array ? body : undefined;
+
+/** Minimal shape of an Express request used by the adapter */
+export interface ExpressLikeRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+/** Minimal shape of an Express response used by the adapter */
+export interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse;
+  json(body: unknown): unknown;
+}
+
+/**
+ * Creates an Express route handler.
+ * Mount it behind `express.raw({ type: 'application/json' })` so the body is not parsed.
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   '/webhooks/beep',
+ *   express.raw({ type: 'application/json' }),
+ *   createExpressWebhookHandler({
+ *     secret: process.env.BEEP_WEBHOOK_SECRET!,
+ *     onPaymentCompleted: async (event) => fulfillOrder(event.data.referenceKey),
+ *     onInvoiceExpired: async (event) => releaseStock(event.data.invoiceId),
+ *   }),
+ * );
+ * ```
+ */
+export function createExpressWebhookHandler(options: BeepWebhookHandlerOptions) {
+  const processDelivery = createWebhookProcessor(options);
+
+  return async (req: ExpressLikeRequest, res: ExpressLikeResponse): Promise<void> => {
+    const result = await processDelivery({
+      rawBody: rawBodyFrom(req.body),
+      signatureHeader: headerValue(req.headers[BEEP_SIGNATURE_HEADER]),
+    });
+    res.status(result.status).json(result.body);
+  };
+}
+
+/** Minimal shape of a Fastify request used by the adapter */
+export interface FastifyLikeRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  /** Populated by the `fastify-raw-body` plugin */
+  rawBody?: string | Uint8Array;
+}
+
+/** Minimal shape of a Fastify reply used by the adapter */
+export interface FastifyLikeReply {
+  code(statusCode: number): FastifyLikeReply;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * Creates a Fastify route handler.
+ * Register `fastify-raw-body` (or a content-type parser that keeps the body as a string/Buffer).
+ *
+ * @example
+ * ```typescript
+ * await fastify.register(rawBody, { global: false });
+ * fastify.post('/webhooks/beep', { config: { rawBody: true } }, createFastifyWebhookHandler({
+ *   secret: process.env.BEEP_WEBHOOK_SECRET!,
+ *   onPaymentCompleted: async (event) => fulfillOrder(event.data.referenceKey),
+ * }));
+ * ```
+ */
+export function createFastifyWebhookHandler(options: BeepWebhookHandlerOptions) {
+  const processDelivery = createWebhookProcessor(options);
+
+  return async (request: FastifyLikeRequest, reply: FastifyLikeReply): Promise<void> => {
+    const result = await processDelivery({
+      rawBody: request.rawBody ?? rawBodyFrom(request.body),
+      signatureHeader: headerValue(request.headers[BEEP_SIGNATURE_HEADER]),
+    });
+    await reply.code(result.status).send(result.body);
+  };
+}
+
+/**
+ * Creates a fetch-style route handler that takes a `Request` and returns a `Response`.
+ * Works with Next.js App Router route handlers and other Web-standard runtimes.
+ *
+ * @example
+ * ```typescript
+ * // app/api/webhooks/beep/route.ts
+ * export const POST = createNextWebhookHandler({
+ *   secret: process.env.BEEP_WEBHOOK_SECRET!,
+ *   onInvoicePaid: async (event) => markInvoicePaid(event.data.invoiceId),
+ * });
+ * ```
+ */
+export function createNextWebhookHandler(options: BeepWebhookHandlerOptions) {
+  const processDelivery = createWebhookProcessor(options);
+
+  return async (request: Request): Promise<Response> => {
+    const result = await processDelivery({
+      rawBody: await request.text(),
+      signatureHeader: request.headers.get(BEEP_SIGNATURE_HEADER),
+    });
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
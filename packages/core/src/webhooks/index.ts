@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Webhook signature verification and typed event parsing
+ * Uses the Web Crypto API so it runs unchanged in Node.js 20+, browsers and edge runtimes
+ */
+
+import { BeepErrorCode, BeepValidationError, BeepWebhookSignatureError } from '../errors';
+import { WebhookEventType } from '../types/common';
+import { BeepWebhookEvent } from '../types/webhook';
+
+/** Header BEEP uses to deliver the webhook signature */
+export const BEEP_SIGNATURE_HEADER = 'x-beep-signature';
+
+/** Maximum age of a webhook delivery before it is rejected as a replay */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Options for verifying a webhook delivery
+ */
+export interface VerifyWebhookSignatureOptions {
+  /** The raw, unparsed request body exactly as received */
+  rawBody: string | Uint8Array;
+  /** Value of the `x-beep-signature` header, formatted as `t=<unix seconds>,v1=<hex hmac>` */
+  signatureHeader: string | null | undefined;
+  /** Webhook signing secret from the BEEP dashboard */
+  secret: string;
+  /**
+   * Maximum allowed difference between the signed timestamp and now, in seconds.
+   * Set to 0 to disable the replay check.
+   * @default 300
+   */
+  toleranceSeconds?: number;
+}
+
+/**
+ * Options for generating a signature header, mainly useful in tests
+ */
+export interface GenerateWebhookSignatureOptions {
+  /** Payload to sign; objects are JSON-serialized */
+  payload: string | object;
+  /** Webhook signing secret */
+  secret: string;
+  /**
+   * Unix timestamp (seconds) to sign with
+   * @default now
+   */
+  timestamp?: number;
+}
+
+const textEncoder = new TextEncoder();
+
+const toBytes = (value: string | Uint8Array): Uint8Array =>
+  typeof value === 'string' ? textEncoder.encode(value) : value;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array | null => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Compares two byte arrays in time independent of where they first differ
+ */
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+const computeSignature = async (options: {
+  secret: string;
+  signedPayload: BufferSource;
+}): Promise<Uint8Array> => {
+  const key = await globalThis.crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(options.secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await globalThis.crypto.subtle.sign('HMAC', key, options.signedPayload);
+  return new Uint8Array(signature);
+};
+
+const buildSignedPayload = (options: {
+  timestamp: number;
+  rawBody: string | Uint8Array;
+}): BufferSource => {
+  const prefix = textEncoder.encode(`${options.timestamp}.`);
+  const body = toBytes(options.rawBody);
+  const signedPayload = new Uint8Array(prefix.length + body.length);
+  signedPayload.set(prefix);
+  signedPayload.set(body, prefix.length);
+  return signedPayload;
+};
+
+/**
+ * Parses `t=<timestamp>,v1=<signature>[,v1=<signature>]` into its parts.
+ * Multiple `v1` entries are allowed so secrets can be rotated without downtime.
+ */
+const parseSignatureHeader = (header: string): { timestamp: number; signatures: string[] } => {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  return { timestamp, signatures };
+};
+
+/**
+ * Verifies and parses webhook deliveries from BEEP
+ *
+ * @example
+ * ```typescript
+ * import { BeepWebhooks, WebhookEventType } from '@beep-it/sdk-core';
+ *
+ * app.post('/webhooks/beep', express.raw({ type: 'application/json' }), async (req, res) => {
+ *   const event = await BeepWebhooks.constructEvent({
+ *     rawBody: req.body,
+ *     signatureHeader: req.header('x-beep-signature'),
+ *     secret: process.env.BEEP_WEBHOOK_SECRET!,
+ *   });
+ *
+ *   if (event.type === WebhookEventType.PAYMENT_COMPLETED) {
+ *     await fulfillOrder(event.data.referenceKey);
+ *   }
+ *   res.sendStatus(200);
+ * });
+ * ```
+ */
+export class BeepWebhooks {
+  /**
+   * Checks that a delivery was signed with the given secret and is recent enough
+   *
+   * @param options - Raw body, signature header, secret and replay tolerance
+   * @throws {BeepWebhookSignatureError} When the header is missing or malformed, no signature
+   *   matches, or the timestamp is outside the tolerance window
+   */
+  static async verifySignature(options: VerifyWebhookSignatureOptions): Promise<void> {
+    if (!options.secret) {
+      throw new BeepValidationError('Webhook secret is required to verify signatures', {
+        code: BeepErrorCode.MISSING_PARAMETER,
+      });
+    }
+    if (!options.signatureHeader) {
+      throw new BeepWebhookSignatureError(`Missing ${BEEP_SIGNATURE_HEADER} header`);
+    }
+
+    const { timestamp, signatures } = parseSignatureHeader(options.signatureHeader);
+    if (!Number.isFinite(timestamp) || signatures.length === 0) {
+      throw new BeepWebhookSignatureError(`Malformed ${BEEP_SIGNATURE_HEADER} header`);
+    }
+
+    const expected = await computeSignature({
+      secret: options.secret,
+      signedPayload: buildSignedPayload({ timestamp, rawBody: options.rawBody }),
+    });
+    const matches = signatures.some((signature) => {
+      const candidate = fromHex(signature);
+      return candidate !== null && timingSafeEqual(candidate, expected);
+    });
+    if (!matches) {
+      throw new BeepWebhookSignatureError('Webhook signature does not match the payload');
+    }
+
+    const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+    if (toleranceSeconds > 0 && ageSeconds > toleranceSeconds) {
+      throw new BeepWebhookSignatureError('Webhook timestamp is outside the tolerance window', {
+        code: BeepErrorCode.WEBHOOK_TIMESTAMP_OUT_OF_TOLERANCE,
+        details: { timestamp, toleranceSeconds },
+      });
+    }
+  }
+
+  /**
+   * Verifies a delivery and parses it into a typed event
+   *
+   * @param options - Raw body, signature header, secret and replay tolerance
+   * @returns The verified event, discriminated on `type`
+   * @throws {BeepWebhookSignatureError} When the signature or timestamp check fails
+   * @throws {BeepValidationError} When the body is not a valid BEEP webhook payload
+   */
+  static async constructEvent(options: VerifyWebhookSignatureOptions): Promise<BeepWebhookEvent> {
+    await BeepWebhooks.verifySignature(options);
+
+    const body =
+      typeof options.rawBody === 'string'
+        ? options.rawBody
+        : new TextDecoder().decode(options.rawBody);
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch (_error) {
+      throw new BeepValidationError('Webhook body is not valid JSON');
+    }
+
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw new BeepValidationError('Webhook payload must be a JSON object');
+    }
+    const { id, type, data } = payload as Record<string, unknown>;
+    if (typeof id !== 'string' || !id) {
+      throw new BeepValidationError('Webhook payload is missing an event id');
+    }
+    if (!Object.values<unknown>(WebhookEventType).includes(type)) {
+      throw new BeepValidationError(`Unsupported webhook event type: ${String(type)}`, {
+        details: { type },
+      });
+    }
+    if (typeof data !== 'object' || data === null) {
+      throw new BeepValidationError('Webhook payload is missing event data', {
+        details: { type },
+      });
+    }
+
+    return payload as BeepWebhookEvent;
+  }
+
+  /**
+   * Builds a valid signature header for a payload.
+   * Useful for testing webhook endpoints locally.
+   *
+   * @param options - Payload, secret and optional timestamp
+   * @returns Header value in the `t=<timestamp>,v1=<signature>` format
+   */
+  static async generateSignatureHeader(options: GenerateWebhookSignatureOptions): Promise<string> {
+    const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+    const rawBody =
+      typeof options.payload === 'string' ? options.payload : JSON.stringify(options.payload);
+    const signature = await computeSignature({
+      secret: options.secret,
+      signedPayload: buildSignedPayload({ timestamp, rawBody }),
+    });
+    return `t=${timestamp},v1=${toHex(signature)}`;
+  }
+}
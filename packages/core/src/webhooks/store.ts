@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Storage for processed webhook event IDs, used to drop duplicate deliveries
+ */
+
+/**
+ * Records which webhook events have already been handled.
+ * Implement this on top of Redis, a database table, etc. when running more than one process.
+ */
+export interface WebhookEventStore {
+  /**
+   * Atomically marks the event ID as taken and returns true, or returns false when it was
+   * already taken. Concurrent deliveries of one event must not both get true, so back it
+   * with an atomic operation such as Redis `SET key 1 NX` or a unique-key insert.
+   */
+  claim(eventId: string): boolean | Promise<boolean>;
+  /** Gives up a claim after its handler failed, so the retried delivery is handled */
+  release(eventId: string): void | Promise<void>;
+}
+
+/**
+ * Default in-process store that remembers the most recent event IDs.
+ * Suitable for a single server instance; IDs are lost on restart.
+ */
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  private readonly eventIds = new Set<string>();
+  private readonly maxSize: number;
+
+  /**
+   * @param maxSize - Number of event IDs to remember before evicting the oldest
+   */
+  constructor(maxSize: number = 10_000) {
+    this.maxSize = maxSize;
+  }
+
+  claim(eventId: string): boolean {
+    if (this.eventIds.has(eventId)) return false;
+    this.eventIds.add(eventId);
+    if (this.eventIds.size > this.maxSize) {
+      // Sets iterate in insertion order, so the first entry is the oldest
+      const oldest = this.eventIds.values().next().value;
+      if (oldest !== undefined) this.eventIds.delete(oldest);
+    }
+    return true;
+  }
+
+  release(eventId: string): void {
+    this.eventIds.delete(eventId);
+  }
+}
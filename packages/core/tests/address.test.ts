@@ -0,0 +1,163 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  BeepClient,
+  BeepErrorCode,
+  BeepValidationError,
+  expandSuiAddress,
+  isValidAddress,
+  normalizeAddress,
+  validateAddress,
+} from '../src';
+import { BlockchainNetwork, TokenUtils, tokenRegistry } from '../src/types';
+
+describe('Address validation', () => {
+  describe('SUI', () => {
+    it('accepts full 32-byte hex addresses in lowercase', () => {
+      const full = `0x${'AbC1'.repeat(16)}`;
+      expect(normalizeAddress(BlockchainNetwork.SUI, ` ${full} `)).toBe(full.toLowerCase());
+    });
+
+    it('rejects short and EVM-style addresses unless expanded explicitly', () => {
+      const evm = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+      expect(isValidAddress(BlockchainNetwork.SUI, evm)).toBe(false);
+      expect(isValidAddress(BlockchainNetwork.SUI, '0x2')).toBe(false);
+      expect(normalizeAddress(BlockchainNetwork.SUI, expandSuiAddress(' 0x2 '))).toBe(
+        `0x${'0'.repeat(63)}2`,
+      );
+      expect(() => expandSuiAddress('0xzz')).toThrow(
+        expect.objectContaining({ code: BeepErrorCode.INVALID_ADDRESS }),
+      );
+    });
+
+    it('rejects non-hex or over-long addresses', () => {
+      expect(isValidAddress(BlockchainNetwork.SUI, `0x${'a'.repeat(65)}`)).toBe(false);
+      expect(isValidAddress(BlockchainNetwork.SUI, '0xzz')).toBe(false);
+      expect(isValidAddress(BlockchainNetwork.SUI, 'a'.repeat(64))).toBe(false);
+    });
+  });
+
+  describe('Solana', () => {
+    it('accepts base58 32-byte public keys unchanged', () => {
+      const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T';
+      expect(normalizeAddress(BlockchainNetwork.SOLANA, usdcMint)).toBe(usdcMint);
+      expect(isValidAddress(BlockchainNetwork.SOLANA, '11111111111111111111111111111111')).toBe(
+        true,
+      );
+    });
+
+    it('rejects invalid characters and keys that do not decode to 32 bytes', () => {
+      expect(isValidAddress('solana', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u0I')).toBe(false);
+      expect(isValidAddress('solana', 'zzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzz')).toBe(false);
+      expect(isValidAddress('solana', '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913')).toBe(false);
+    });
+  });
+
+  describe('EVM', () => {
+    it.each([
+      '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+      '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+      '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+      '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+    ])('checksums %s (EIP-55 test vector)', (address) => {
+      expect(normalizeAddress(BlockchainNetwork.BASE, address.toLowerCase())).toBe(address);
+      expect(isValidAddress(BlockchainNetwork.BASE, address)).toBe(true);
+    });
+
+    it('rejects a mixed-case address with a wrong checksum', () => {
+      const result = validateAddress(
+        BlockchainNetwork.BASE,
+        '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD',
+      );
+      expect(result).toEqual({ valid: false, reason: expect.stringMatching(/checksum/) });
+    });
+
+    it('accepts all-uppercase hex', () => {
+      expect(isValidAddress('base', '0x5AAEB6053F3E94C9B9A09F33669435E7EF1BEAED')).toBe(true);
+    });
+  });
+
+  it('reports unsupported chains and empty input', () => {
+    expect(validateAddress('DOGE', 'D123')).toEqual({
+      valid: false,
+      reason: expect.stringMatching(/not supported/),
+    });
+    expect(isValidAddress(BlockchainNetwork.SUI, '  ')).toBe(false);
+  });
+
+  it('normalizeAddress throws INVALID_ADDRESS without echoing the address', () => {
+    try {
+      normalizeAddress(BlockchainNetwork.SUI, 'not-an-address');
+      fail('expected normalizeAddress to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BeepValidationError);
+      expect((error as BeepValidationError).code).toBe(BeepErrorCode.INVALID_ADDRESS);
+      expect((error as BeepValidationError).message).not.toContain('not-an-address');
+    }
+  });
+
+  describe('createPayout', () => {
+    let mockAxios: MockAdapter;
+    let client: BeepClient;
+
+    beforeEach(() => {
+      mockAxios = new MockAdapter(axios);
+      client = new BeepClient({ apiKey: 'test-api-key' });
+    });
+
+    afterEach(() => {
+      mockAxios.restore();
+    });
+
+    it('rejects malformed destinations before sending a request', async () => {
+      await expect(
+        client.payments.createPayout({
+          amount: '5',
+          destinationWalletAddress: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD',
+          chain: BlockchainNetwork.BASE,
+          token: 'USDC',
+        }),
+      ).rejects.toMatchObject({ code: BeepErrorCode.INVALID_ADDRESS });
+      expect(mockAxios.history.post).toHaveLength(0);
+    });
+
+    it('sends the normalized address', async () => {
+      mockAxios.onPost('/v1/payouts').reply(200, { payoutId: 'po_1', status: 'accepted' });
+
+      await client.payments.createPayout({
+        amount: '5',
+        destinationWalletAddress: `0x${'ABC'.repeat(21)}D`,
+        chain: BlockchainNetwork.SUI,
+        token: 'USDC',
+      });
+
+      expect(JSON.parse(mockAxios.history.post[0].data).destinationWalletAddress).toBe(
+        `0x${'abc'.repeat(21)}d`,
+      );
+    });
+
+    it('sends addresses on chains without a known format as given', async () => {
+      TokenUtils.registerToken({
+        token: 'USDC',
+        chain: 'APTOS',
+        address: '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b',
+        decimals: 6,
+        symbol: 'USDC',
+      });
+      mockAxios.onPost('/v1/payouts').reply(200, { payoutId: 'po_1', status: 'accepted' });
+
+      try {
+        await client.payments.createPayout({
+          amount: '5',
+          destinationWalletAddress: '0xA1',
+          chain: 'APTOS',
+          token: 'USDC',
+        });
+      } finally {
+        tokenRegistry.unregister('USDC', 'APTOS');
+      }
+
+      expect(JSON.parse(mockAxios.history.post[0].data).destinationWalletAddress).toBe('0xA1');
+    });
+  });
+});
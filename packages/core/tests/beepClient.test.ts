@@ -1,6 +1,6 @@
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
-import { BeepClient, BeepPublicClient } from '../src';
+import { BeepClient, BeepErrorCode, BeepNetworkError, BeepPublicClient } from '../src';
 
 describe('BeepClient', () => {
   let mockAxios: MockAdapter;
@@ -47,29 +47,31 @@ describe('BeepClient', () => {
       expect(result).toBe('API is healthy');
     });
 
-    it('throws formatted error on Axios error', async () => {
+    it('throws a BeepError carrying the server message and status', async () => {
       const client = new BeepClient({ apiKey: 'test-key', serverUrl: 'https://test.api.com' });
       mockAxios.onGet('/healthz').reply(503, { message: 'Service unavailable' });
 
-      await expect(client.healthCheck()).rejects.toThrow('API Error: Service unavailable');
+      await expect(client.healthCheck()).rejects.toMatchObject({
+        message: 'Service unavailable',
+        code: BeepErrorCode.SERVER_ERROR,
+        statusCode: 503,
+      });
     });
 
-    it('throws formatted error with fallback message when no response message', async () => {
+    it('falls back to the HTTP status message when the response has none', async () => {
       const client = new BeepClient({ apiKey: 'test-key', serverUrl: 'https://test.api.com' });
       mockAxios.onGet('/healthz').reply(500);
 
-      await expect(client.healthCheck()).rejects.toThrow('API Error:');
+      await expect(client.healthCheck()).rejects.toThrow('Request failed with status code 500');
     });
 
-    it('throws generic error for non-Axios errors', async () => {
+    it('throws BeepNetworkError when no response is received', async () => {
       const client = new BeepClient({ apiKey: 'test-key', serverUrl: 'https://test.api.com' });
       mockAxios.onGet('/healthz').reply(() => {
         throw new TypeError('Network failure');
       });
 
-      await expect(client.healthCheck()).rejects.toThrow(
-        'An unexpected error occurred during health check',
-      );
+      await expect(client.healthCheck()).rejects.toBeInstanceOf(BeepNetworkError);
     });
   });
 });
@@ -0,0 +1,153 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  BeepAuthenticationError,
+  BeepClient,
+  BeepError,
+  BeepErrorCode,
+  BeepNetworkError,
+  BeepPaymentError,
+  BeepPublicClient,
+  BeepRateLimitError,
+  BeepValidationError,
+} from '../src';
+
+describe('Error mapping', () => {
+  let mockAxios: MockAdapter;
+  let client: BeepClient;
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('maps validation failures with field details and request ID', async () => {
+    mockAxios
+      .onPost('/v1/products')
+      .reply(
+        400,
+        { message: 'Invalid product', fields: { price: 'must be positive' } },
+        { 'x-request-id': 'req_123' },
+      );
+
+    const error = await client.products
+      .createProduct({ name: 'Coffee', price: '-1' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(BeepValidationError);
+    expect(error).toMatchObject({
+      message: 'Invalid product',
+      code: BeepErrorCode.INVALID_PARAMETER,
+      statusCode: 400,
+      requestId: 'req_123',
+    });
+    expect(error.details.fields).toEqual({ price: 'must be positive' });
+  });
+
+  it('maps 422 responses to validation errors keeping the status', async () => {
+    mockAxios.onPost('/v1/invoices').reply(422, { message: 'Unprocessable', errors: ['amount'] });
+
+    await expect(
+      client.invoices.createInvoice({ productId: 'prod_1', payerType: 'customer_wallet' }),
+    ).rejects.toMatchObject({ statusCode: 422, details: { fields: ['amount'] } });
+  });
+
+  it.each([
+    [401, BeepAuthenticationError],
+    [403, BeepAuthenticationError],
+    [402, BeepPaymentError],
+    [429, BeepRateLimitError],
+  ])('maps HTTP %i to %p', async (status, errorClass) => {
+    mockAxios.onPost('/v1/invoices/start').reply(status, { message: 'failed' });
+
+    const error = await client.payments.startStreaming({ invoiceId: 'inv_1' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.statusCode).toBe(status);
+  });
+
+  it('maps not-found responses by resource', async () => {
+    mockAxios.onGet('/v1/invoices/inv_1').reply(404, { message: 'Invoice not found' });
+
+    await expect(client.invoices.getInvoice('inv_1')).rejects.toMatchObject({
+      code: BeepErrorCode.INVOICE_NOT_FOUND,
+      statusCode: 404,
+    });
+  });
+
+  it('maps network failures and timeouts', async () => {
+    mockAxios.onGet('/v1/products').networkErrorOnce().onGet('/v1/products').timeoutOnce();
+
+    await expect(client.products.listProducts()).rejects.toBeInstanceOf(BeepNetworkError);
+    await expect(client.products.listProducts()).rejects.toMatchObject({
+      code: BeepErrorCode.TIMEOUT,
+    });
+  });
+
+  it('maps aborted requests apart from network failures', async () => {
+    mockAxios.onGet('/v1/products').reply(() => Promise.reject(new axios.CanceledError()));
+
+    await expect(client.products.listProducts()).rejects.toMatchObject({
+      name: 'BeepNetworkError',
+      code: BeepErrorCode.REQUEST_ABORTED,
+    });
+  });
+
+  it('maps errors after retries are exhausted', async () => {
+    const retrying = new BeepClient({
+      apiKey: 'test-api-key',
+      retry: { baseDelayMs: 1, jitter: 'none' },
+    });
+    mockAxios.onGet('/v1/user').reply(503, { message: 'Down' });
+
+    const error = await retrying.user.getCurrentUser().catch((e) => e);
+
+    expect(mockAxios.history.get.length).toBe(3);
+    expect(error).toBeInstanceOf(BeepError);
+    expect(error.code).toBe(BeepErrorCode.SERVER_ERROR);
+  });
+
+  it('applies to BeepPublicClient', async () => {
+    const publicClient = new BeepPublicClient({ publishableKey: 'beep_pk_test' });
+    mockAxios.onGet('/v1/widget/environment').reply(401, { message: 'Invalid key' });
+
+    await expect(publicClient.widget.getDynamicEnv()).rejects.toBeInstanceOf(
+      BeepAuthenticationError,
+    );
+  });
+
+  describe('requestAndPurchaseAsset strict mode', () => {
+    it('throws the mapped error instead of returning null', async () => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(500, { error: 'Server error' });
+
+      await expect(
+        client.payments.requestAndPurchaseAsset(
+          { assets: [{ assetId: 'asset_1', quantity: 1 }] },
+          { strict: true },
+        ),
+      ).rejects.toMatchObject({ code: BeepErrorCode.SERVER_ERROR, message: 'Server error' });
+    });
+
+    it('throws a validation error for empty input', async () => {
+      await expect(
+        client.payments.requestAndPurchaseAsset({ assets: [] }, { strict: true }),
+      ).rejects.toMatchObject({ code: BeepErrorCode.MISSING_PARAMETER });
+    });
+
+    it('still resolves 402 payloads', async () => {
+      const paymentData = { referenceKey: 'ref_1', paymentUrl: 'sui:pay' };
+      mockAxios.onPost('/v1/payment/request-payment').reply(402, { data: paymentData });
+
+      await expect(
+        client.payments.requestAndPurchaseAsset(
+          { assets: [{ assetId: 'asset_1', quantity: 1 }] },
+          { strict: true },
+        ),
+      ).resolves.toEqual(paymentData);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  BeepClient,
+  BeepPublicClient,
+  generateIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+} from '../src';
+
+describe('Idempotency keys', () => {
+  let mockAxios: MockAdapter;
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  const payout = {
+    amount: '1.50',
+    destinationWalletAddress: `0x${'a'.repeat(64)}`,
+    chain: 'SUI',
+    token: 'USDC',
+  };
+
+  const sentKey = (index = 0) => mockAxios.history.post[index].headers?.[IDEMPOTENCY_KEY_HEADER];
+
+  it('generates a UUID v4', () => {
+    expect(generateIdempotencyKey()).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+    expect(generateIdempotencyKey()).not.toBe(generateIdempotencyKey());
+  });
+
+  it('sends a generated key when none is provided', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key' });
+    mockAxios.onPost('/v1/payouts').reply(200, { status: 'accepted' });
+
+    await client.payments.createPayout(payout);
+
+    expect(sentKey()).toEqual(expect.any(String));
+  });
+
+  it('sends the caller-supplied key', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key' });
+    mockAxios.onPost('/v1/invoices').reply(200, { id: 'inv_1' });
+    mockAxios.onPost('/v1/products').reply(200, { id: 'prod_1' });
+    mockAxios.onPost('/v1/invoices/issue-payment').reply(200, { invoiceId: 'inv_2' });
+
+    await client.invoices.createInvoice(
+      { productId: 'prod_1', payerType: 'customer_wallet' },
+      { idempotencyKey: 'order-1' },
+    );
+    await client.products.createProduct(
+      { name: 'Coffee', price: '1' },
+      { idempotencyKey: 'product-1' },
+    );
+    await client.payments.issuePayment(
+      { assetChunks: [], payingMerchantId: 'm' },
+      { idempotencyKey: 'payment-1' },
+    );
+
+    expect([sentKey(0), sentKey(1), sentKey(2)]).toEqual(['order-1', 'product-1', 'payment-1']);
+  });
+
+  it('reuses the same key across retries', async () => {
+    const client = new BeepClient({
+      apiKey: 'test-api-key',
+      retry: { baseDelayMs: 1, jitter: 'none' },
+    });
+    mockAxios
+      .onPost('/v1/payouts')
+      .replyOnce(503)
+      .onPost('/v1/payouts')
+      .replyOnce(502)
+      .onPost('/v1/payouts')
+      .replyOnce(200, { status: 'accepted' });
+
+    await client.payments.createPayout(payout);
+
+    expect(mockAxios.history.post.length).toBe(3);
+    expect(sentKey(1)).toBe(sentKey(0));
+    expect(sentKey(2)).toBe(sentKey(0));
+  });
+
+  it('uses a fresh key for each separate call', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key' });
+    mockAxios.onPost('/v1/payouts').reply(200, { status: 'accepted' });
+
+    await client.payments.createPayout(payout);
+    await client.payments.createPayout(payout);
+
+    expect(sentKey(1)).not.toBe(sentKey(0));
+  });
+
+  it('applies to widget payment sessions', async () => {
+    const client = new BeepPublicClient({
+      publishableKey: 'beep_pk_test',
+      retry: { baseDelayMs: 1, jitter: 'none' },
+    });
+    mockAxios
+      .onPost('/v1/widget/payment-session')
+      .replyOnce(503)
+      .onPost('/v1/widget/payment-session')
+      .replyOnce(200, { referenceKey: 'ref_1' });
+
+    await client.widget.createPaymentSession(
+      { assets: [{ assetId: 'prod_1', quantity: 1 }] },
+      { idempotencyKey: 'session-1' },
+    );
+
+    expect([sentKey(0), sentKey(1)]).toEqual(['session-1', 'session-1']);
+  });
+
+  it('sends no key from widget payment sessions by default, avoiding a CORS preflight', async () => {
+    const client = new BeepPublicClient({ publishableKey: 'beep_pk_test' });
+    mockAxios.onPost('/v1/widget/payment-session').replyOnce(200, { referenceKey: 'ref_1' });
+
+    await client.widget.createPaymentSession({ assets: [{ assetId: 'prod_1', quantity: 1 }] });
+
+    expect(sentKey()).toBeUndefined();
+  });
+});
@@ -1,7 +1,7 @@
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
-import { BeepClient } from '../src';
-import { SupportedToken } from '../src/types';
+import { BeepClient, BeepErrorCode } from '../src';
+import { BlockchainNetwork, InvoiceStatus, SupportedToken, TokenUtils } from '../src/types';
 
 describe('Invoices Module', () => {
   let client: BeepClient;
@@ -56,6 +56,7 @@ describe('Invoices Module', () => {
     const result = await client.invoices.createInvoice({
       amount: '25.99',
       token: SupportedToken.USDC,
+      chain: BlockchainNetwork.SOLANA,
       description: 'Custom invoice',
       payerType: 'customer_wallet',
     });
@@ -67,6 +68,18 @@ describe('Invoices Module', () => {
     expect(requestData.payerType).toBe('customer_wallet');
   });
 
+  it('createInvoice requires a chain with a token', async () => {
+    await expect(
+      client.invoices.createInvoice({
+        amount: '25.99',
+        token: SupportedToken.USDC,
+        description: 'Custom invoice',
+        payerType: 'customer_wallet',
+      }),
+    ).rejects.toMatchObject({ code: BeepErrorCode.MISSING_PARAMETER, details: { field: 'chain' } });
+    expect(mockAxios.history.post).toHaveLength(0);
+  });
+
   it('getInvoice returns an invoice by ID', async () => {
     const mockInvoice = {
       id: 'inv_test123',
@@ -100,4 +113,124 @@ describe('Invoices Module', () => {
     expect(mockAxios.history.delete.length).toBe(1);
     expect(mockAxios.history.delete[0].url).toBe('/v1/invoices/inv_test123');
   });
+
+  describe('changing invoices', () => {
+    const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const pending = (overrides = {}) => ({
+      id: 'inv_test123',
+      status: InvoiceStatus.PENDING,
+      expiresAt: inOneHour(),
+      ...overrides,
+    });
+
+    it('updateInvoice sends the changes with the token resolved to its address', async () => {
+      mockAxios.onGet('/v1/invoices/inv_test123').reply(200, pending());
+      mockAxios.onPut('/v1/invoices/inv_test123').reply(200, pending({ amount: '30.00' }));
+
+      const result = await client.invoices.updateInvoice('inv_test123', {
+        amount: '30.00',
+        token: SupportedToken.USDC,
+        chain: BlockchainNetwork.SUI,
+      });
+
+      expect(result.amount).toBe('30.00');
+      expect(JSON.parse(mockAxios.history.put[0].data)).toEqual({
+        amount: '30.00',
+        token: SupportedToken.USDC,
+        chain: BlockchainNetwork.SUI,
+        splTokenAddress: TokenUtils.getTokenAddress(SupportedToken.USDC, BlockchainNetwork.SUI),
+      });
+    });
+
+    it('cancelInvoice records the reason and keeps the invoice', async () => {
+      mockAxios.onGet('/v1/invoices/inv_test123').reply(200, pending());
+      mockAxios
+        .onPost('/v1/invoices/inv_test123/cancel')
+        .reply(200, pending({ status: InvoiceStatus.CANCELLED, cancellationReason: 'Duplicate' }));
+
+      const result = await client.invoices.cancelInvoice('inv_test123', 'Duplicate');
+
+      expect(result.status).toBe(InvoiceStatus.CANCELLED);
+      expect(JSON.parse(mockAxios.history.post[0].data)).toEqual({ reason: 'Duplicate' });
+      expect(mockAxios.history.delete).toHaveLength(0);
+    });
+
+    it('cancelInvoice returns an already cancelled invoice unchanged', async () => {
+      const cancelled = pending({ status: InvoiceStatus.CANCELLED });
+      mockAxios.onGet('/v1/invoices/inv_test123').reply(200, cancelled);
+
+      expect(await client.invoices.cancelInvoice('inv_test123')).toEqual(cancelled);
+      expect(mockAxios.history.post).toHaveLength(0);
+    });
+
+    it('extendInvoiceExpiry moves the expiry later', async () => {
+      const newExpiry = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      mockAxios.onGet('/v1/invoices/inv_test123').reply(200, pending());
+      mockAxios
+        .onPost('/v1/invoices/inv_test123/extend-expiry')
+        .reply(200, pending({ expiresAt: newExpiry.toISOString() }));
+
+      await client.invoices.extendInvoiceExpiry('inv_test123', newExpiry);
+
+      expect(JSON.parse(mockAxios.history.post[0].data)).toEqual({
+        expiresAt: newExpiry.toISOString(),
+      });
+    });
+
+    it('extendInvoiceExpiry rejects an expiry that is not later', async () => {
+      mockAxios
+        .onGet('/v1/invoices/inv_test123')
+        .reply(200, pending({ expiresAt: '2999-01-01T00:00:00.000Z' }));
+
+      await expect(
+        client.invoices.extendInvoiceExpiry('inv_test123', inOneHour()),
+      ).rejects.toMatchObject({ code: BeepErrorCode.INVALID_PARAMETER });
+      await expect(
+        client.invoices.extendInvoiceExpiry('inv_test123', '2000-01-01T00:00:00Z'),
+      ).rejects.toMatchObject({ code: BeepErrorCode.INVALID_PARAMETER });
+      expect(mockAxios.history.post).toHaveLength(0);
+    });
+
+    it.each([
+      {
+        name: 'paid',
+        state: { status: InvoiceStatus.PAID },
+        code: BeepErrorCode.INVOICE_ALREADY_PAID,
+      },
+      {
+        name: 'confirmed',
+        state: { status: InvoiceStatus.CONFIRMED },
+        code: BeepErrorCode.INVOICE_ALREADY_PAID,
+      },
+      {
+        name: 'expired',
+        state: { status: InvoiceStatus.EXPIRED },
+        code: BeepErrorCode.INVOICE_EXPIRED,
+      },
+      {
+        name: 'past its expiry',
+        state: { expiresAt: '2000-01-01T00:00:00.000Z' },
+        code: BeepErrorCode.INVOICE_EXPIRED,
+      },
+      {
+        name: 'cancelled',
+        state: { status: InvoiceStatus.CANCELLED },
+        code: BeepErrorCode.INVALID_STATE_TRANSITION,
+      },
+    ])('refuses to change an invoice that is $name', async ({ state, code }) => {
+      mockAxios.onGet('/v1/invoices/inv_test123').reply(200, pending(state));
+
+      await expect(
+        client.invoices.updateInvoice('inv_test123', { amount: '1.00' }),
+      ).rejects.toMatchObject({ code, details: { invoiceId: 'inv_test123', change: 'update' } });
+      await expect(
+        client.invoices.extendInvoiceExpiry('inv_test123', inOneHour()),
+      ).rejects.toMatchObject({ code });
+      if (code !== BeepErrorCode.INVALID_STATE_TRANSITION) {
+        await expect(client.invoices.cancelInvoice('inv_test123')).rejects.toMatchObject({ code });
+      }
+      expect(mockAxios.history.put).toHaveLength(0);
+      expect(mockAxios.history.post).toHaveLength(0);
+    });
+  });
 });
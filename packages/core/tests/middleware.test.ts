@@ -0,0 +1,164 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient, BeepErrorCode, BeepMiddleware, BeepPublicClient, HttpTransport } from '../src';
+
+describe('Middleware', () => {
+  let mockAxios: MockAdapter;
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('can add headers to outgoing requests', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key' }).use((request, next) => {
+      request.headers['X-Tenant-Id'] = 'tenant_1';
+      return next(request);
+    });
+    mockAxios.onGet('/v1/user').reply(200, { merchantId: 'm' });
+
+    await client.user.getCurrentUser();
+
+    expect(mockAxios.history.get[0].headers?.['X-Tenant-Id']).toBe('tenant_1');
+    expect(mockAxios.history.get[0].headers?.Authorization).toBe('Bearer test-api-key');
+  });
+
+  it('runs in registration order, each wrapping the next', async () => {
+    const calls: string[] = [];
+    const track =
+      (name: string): BeepMiddleware =>
+      async (request, next) => {
+        calls.push(`${name}:request`);
+        const response = await next(request);
+        calls.push(`${name}:response`);
+        return response;
+      };
+    const client = new BeepClient({ apiKey: 'test-api-key' });
+    client.use(track('outer')).use(track('inner'));
+    mockAxios.onGet('/v1/user').reply(200, {});
+
+    await client.user.getCurrentUser();
+
+    expect(calls).toEqual(['outer:request', 'inner:request', 'inner:response', 'outer:response']);
+  });
+
+  it('can modify responses and read the parsed request body', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key' });
+    client.use(async (request, next) => {
+      expect(request.body).toEqual({ invoiceId: 'inv_1' });
+      const response = await next(request);
+      return { ...response, data: { ...(response.data as object), tagged: true } };
+    });
+    mockAxios.onPost('/v1/invoices/start').reply(200, { invoiceId: 'inv_1' });
+
+    await expect(client.payments.startStreaming({ invoiceId: 'inv_1' })).resolves.toEqual({
+      invoiceId: 'inv_1',
+      tagged: true,
+    });
+  });
+
+  it.each([
+    { name: 'string', body: 'invoiceId=inv_1' },
+    { name: 'URLSearchParams', body: new URLSearchParams({ invoiceId: 'inv_1' }) },
+    { name: 'ArrayBuffer', body: new ArrayBuffer(8) },
+  ])('sends $name bodies set by middleware unchanged', async ({ body }) => {
+    const client = new BeepClient({ apiKey: 'test-api-key' }).use((request, next) =>
+      next({ ...request, body }),
+    );
+    mockAxios.onPost('/v1/invoices/start').reply(200, {});
+
+    await client.payments.startStreaming({ invoiceId: 'inv_1' });
+
+    expect(mockAxios.history.post[0].data).toBe(body);
+  });
+
+  it('serializes object bodies set by middleware as JSON', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key' }).use((request, next) =>
+      next({ ...request, body: { invoiceId: 'inv_2' } }),
+    );
+    mockAxios.onPost('/v1/invoices/start').reply(200, {});
+
+    await client.payments.startStreaming({ invoiceId: 'inv_1' });
+
+    expect(mockAxios.history.post[0].data).toBe('{"invoiceId":"inv_2"}');
+  });
+
+  it('can short-circuit with cached data', async () => {
+    const client = new BeepPublicClient({ publishableKey: 'beep_pk_test' });
+    client.use(async (request, next) =>
+      request.url === '/v1/widget/environment'
+        ? { status: 200, headers: {}, data: { environmentId: 'cached' } }
+        : next(request),
+    );
+
+    await expect(client.widget.getDynamicEnv()).resolves.toEqual({ environmentId: 'cached' });
+    expect(mockAxios.history.get.length).toBe(0);
+  });
+
+  it('receives error statuses as responses before they are mapped to BeepErrors', async () => {
+    const statuses: number[] = [];
+    const client = new BeepClient({ apiKey: 'test-api-key' }).use(async (request, next) => {
+      const response = await next(request);
+      statuses.push(response.status);
+      return response;
+    });
+    mockAxios.onGet('/v1/invoices/inv_1').reply(404, { message: 'Invoice not found' });
+
+    await expect(client.invoices.getInvoice('inv_1')).rejects.toMatchObject({
+      code: BeepErrorCode.INVOICE_NOT_FOUND,
+    });
+    expect(statuses).toEqual([404]);
+  });
+
+  it('runs once per retry attempt', async () => {
+    const middleware = jest.fn<ReturnType<BeepMiddleware>, Parameters<BeepMiddleware>>(
+      (request, next) => next(request),
+    );
+    const client = new BeepClient({
+      apiKey: 'test-api-key',
+      retry: { baseDelayMs: 1, jitter: 'none' },
+    }).use(middleware);
+    mockAxios.onGet('/v1/user').replyOnce(503).onGet('/v1/user').replyOnce(200, {});
+
+    await client.user.getCurrentUser();
+
+    expect(middleware).toHaveBeenCalledTimes(2);
+  });
+
+  it('works on top of a custom transport', async () => {
+    const transport: HttpTransport = {
+      request: async (request) => ({
+        status: 200,
+        headers: {},
+        body: JSON.stringify({ tenant: request.headers['X-Tenant-Id'] }),
+      }),
+    };
+    const client = new BeepClient({ apiKey: 'test-api-key', transport }).use((request, next) => {
+      request.headers['X-Tenant-Id'] = 'tenant_2';
+      return next(request);
+    });
+
+    await expect(client.user.getCurrentUser()).resolves.toEqual({ tenant: 'tenant_2' });
+  });
+
+  it('logs requests and responses when debug is enabled', async () => {
+    const logger = jest.fn();
+    const client = new BeepClient({
+      apiKey: 'test-api-key',
+      debug: { debug: true, logRequests: true, logResponses: true, logger },
+    });
+    mockAxios.onGet('/v1/user').reply(401, { message: 'Bad key' });
+
+    await expect(client.user.getCurrentUser()).rejects.toThrow('Bad key');
+
+    expect(logger.mock.calls.map(([entry]) => entry.message)).toEqual([
+      'API Request: GET /v1/user',
+      'API Response: GET /v1/user (401)',
+      'API Error',
+    ]);
+    expect(logger.mock.calls[2][0].data).toMatchObject({ code: BeepErrorCode.UNAUTHORIZED });
+  });
+});
@@ -0,0 +1,151 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient, BeepErrorCode, BeepValidationError } from '../src';
+import { BlockchainNetwork, Money, SupportedToken } from '../src/types';
+
+describe('Money', () => {
+  describe('parse', () => {
+    it('converts decimal strings to exact base units', () => {
+      expect(Money.parse('19.99').toBaseUnits()).toBe('19990000');
+      expect(Money.parse('0.000001').toBaseUnits()).toBe('1');
+      expect(Money.parse('.5', { token: SupportedToken.USDC }).toBaseUnits()).toBe('500000');
+      expect(Money.parse('-2', { decimals: 2 }).toBaseUnits()).toBe('-200');
+    });
+
+    it('avoids the float rounding errors of parseFloat * 10 ** decimals', () => {
+      // 1.005 * 100 === 100.49999999999999 in floating point
+      expect(Money.parse('1.005', { decimals: 3 }).multiply(100).format()).toBe('100.500');
+      expect(Money.parse(0.29, { decimals: 2 }).toBaseUnits()).toBe('29');
+      expect(Money.parse('9007199254740993.123456').toBaseUnits()).toBe('9007199254740993123456');
+    });
+
+    it('reads numbers in exponent notation exactly', () => {
+      expect(Money.parse(1e-6).toBaseUnits()).toBe('1');
+      expect(Money.parse(1e21, { decimals: 0 }).toBaseUnits()).toBe('1000000000000000000000');
+    });
+
+    it('rejects malformed or over-precise amounts', () => {
+      expect(() => Money.parse('abc')).toThrow(BeepValidationError);
+      expect(() => Money.parse('')).toThrow(BeepValidationError);
+      expect(() => Money.parse(NaN)).toThrow(BeepValidationError);
+
+      try {
+        Money.parse('0.0000001');
+        fail('expected parse to throw');
+      } catch (error) {
+        expect((error as BeepValidationError).code).toBe(BeepErrorCode.INVALID_AMOUNT);
+      }
+    });
+
+    it('ignores trailing zeros beyond the precision', () => {
+      expect(Money.parse('1.0000000').toBaseUnits()).toBe('1000000');
+      expect(Money.parse('1.5000000000', { decimals: 6 }).toBaseUnits()).toBe('1500000');
+      expect(Money.parse('20e-7', { decimals: 6 }).toBaseUnits()).toBe('2');
+    });
+
+    it('rounds over-precise amounts when asked to', () => {
+      expect(Money.parse('1.2345679', { rounding: 'floor' }).toBaseUnits()).toBe('1234567');
+      expect(Money.parse('-1.2345671', { rounding: 'floor' }).toBaseUnits()).toBe('-1234568');
+      expect(Money.parse('0.0000025', { rounding: 'halfEven' }).toBaseUnits()).toBe('2');
+      expect(Money.parse('0.0000035', { rounding: 'halfEven' }).toBaseUnits()).toBe('4');
+      expect(Money.parse('0.00000251', { rounding: 'halfEven' }).toBaseUnits()).toBe('3');
+    });
+  });
+
+  describe('fromBaseUnits and format', () => {
+    it('round-trips base units', () => {
+      const amount = Money.fromBaseUnits('1500000', { token: SupportedToken.USDC });
+      expect(amount.format()).toBe('1.500000');
+      expect(amount.format({ minimumFractionDigits: 2 })).toBe('1.50');
+      expect(amount.format({ minimumFractionDigits: 0 })).toBe('1.5');
+      expect(Money.fromBaseUnits(BigInt(-5), { decimals: 2 }).format()).toBe('-0.05');
+      expect(Money.fromBaseUnits(42, { decimals: 0 }).format()).toBe('42');
+    });
+
+    it('rejects fractional base units', () => {
+      expect(() => Money.fromBaseUnits('1.5')).toThrow(BeepValidationError);
+    });
+
+    it('serializes to the decimal string', () => {
+      expect(JSON.stringify({ price: Money.parse('2.5', { decimals: 2 }) })).toBe(
+        '{"price":"2.50"}',
+      );
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('adds and subtracts amounts of the same token', () => {
+      const a = Money.parse('0.1');
+      const b = Money.parse('0.2');
+      expect(a.add(b).equals(Money.parse('0.3'))).toBe(true);
+      expect(a.subtract(b).isNegative()).toBe(true);
+    });
+
+    it('refuses to mix precisions', () => {
+      expect(() => Money.parse('1').add(Money.parse('1', { decimals: 2 }))).toThrow(
+        BeepValidationError,
+      );
+    });
+
+    it('multiplies with configurable rounding', () => {
+      const amount = Money.fromBaseUnits(5, { decimals: 0 });
+      expect(amount.multiply('0.5').toBaseUnits()).toBe('3');
+      expect(amount.multiply('0.5', { rounding: 'floor' }).toBaseUnits()).toBe('2');
+      expect(amount.multiply(BigInt(3)).toBaseUnits()).toBe('15');
+      expect(Money.fromBaseUnits(-5, { decimals: 0 }).multiply(0.5).toBaseUnits()).toBe('-3');
+      expect(amount.multiply('0.1', { rounding: 'ceil' }).toBaseUnits()).toBe('1');
+      expect(amount.multiply('0.5', { rounding: 'halfEven' }).toBaseUnits()).toBe('2');
+    });
+
+    it('allocates without losing base units', () => {
+      const shares = Money.fromBaseUnits(100, { decimals: 2 }).allocate([1, 1, 1]);
+      expect(shares.map((share) => share.toBaseUnits())).toEqual(['34', '33', '33']);
+
+      const split = Money.parse('10').allocate(['97.5', '2.5']);
+      expect(split.map((share) => share.format())).toEqual(['9.750000', '0.250000']);
+
+      const skipZero = Money.fromBaseUnits(3, { decimals: 0 }).allocate([0, 1, 1]);
+      expect(skipZero.map((share) => share.toBaseUnits())).toEqual(['0', '2', '1']);
+
+      expect(() => Money.parse('1').allocate([0, 0])).toThrow(BeepValidationError);
+      expect(() => Money.parse('1').allocate([])).toThrow(BeepValidationError);
+    });
+
+    it('compares amounts', () => {
+      const small = Money.parse('1.5');
+      const large = Money.parse('2');
+      expect(small.compare(large)).toBe(-1);
+      expect(large.compare(small)).toBe(1);
+      expect(small.lessThan(large)).toBe(true);
+      expect(large.greaterThan(small)).toBe(true);
+      expect(Money.zero().isZero()).toBe(true);
+    });
+  });
+
+  describe('ProductsModule.createProduct', () => {
+    let mockAxios: MockAdapter;
+
+    beforeEach(() => {
+      mockAxios = new MockAdapter(axios);
+    });
+
+    afterEach(() => {
+      mockAxios.restore();
+    });
+
+    it('sends exact base units for prices that floats round incorrectly', async () => {
+      mockAxios.onPost('/v1/products').reply(200, { id: 'prod_1' });
+      const client = new BeepClient({ apiKey: 'test-api-key' });
+
+      await client.products.createProduct({
+        name: 'Gem',
+        price: '4.35',
+        token: SupportedToken.USDC,
+        chain: BlockchainNetwork.SOLANA,
+      });
+
+      // parseFloat('4.35') * 10 ** 6 === 4349999.999999999
+      expect(JSON.parse(mockAxios.history.post[0].data).price).toBe('4350000');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient } from '../src';
+import { InvoiceStatus, SortOrder } from '../src/types';
+import { toListQuery, toPage } from '../src/utils/pagination';
+
+describe('Pagination', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({
+      apiKey: 'test-api-key',
+      serverUrl: 'https://test-api.beep.com',
+    });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  describe('toListQuery', () => {
+    it('flattens arrays, date ranges and custom filters', () => {
+      expect(
+        toListQuery({
+          limit: 25,
+          cursor: 'c_1',
+          status: [InvoiceStatus.PAID, InvoiceStatus.CONFIRMED],
+          dateRange: { from: '2024-01-01T00:00:00Z', to: '2024-02-01T00:00:00Z' },
+          search: 'acme',
+          sortOrder: SortOrder.DESC,
+          filters: { payerType: 'customer_wallet' },
+        }),
+      ).toEqual({
+        limit: 25,
+        cursor: 'c_1',
+        status: 'paid,confirmed',
+        from: '2024-01-01T00:00:00Z',
+        to: '2024-02-01T00:00:00Z',
+        search: 'acme',
+        sortOrder: 'desc',
+        payerType: 'customer_wallet',
+      });
+    });
+
+    it('nests object parameters such as priceRange', () => {
+      expect(toListQuery({ filters: { priceRange: { min: 1, max: undefined } } })).toEqual({
+        'priceRange[min]': 1,
+      });
+    });
+
+    it('omits undefined values and empty arrays', () => {
+      expect(toListQuery({ status: [], search: undefined, offset: 0 })).toEqual({ offset: 0 });
+    });
+  });
+
+  describe('toPage', () => {
+    it('treats a full bare array as offset-paginated', () => {
+      expect(toPage({ data: [1, 2], params: { limit: 2, offset: 4 } })).toEqual({
+        items: [1, 2],
+        nextOffset: 6,
+      });
+      expect(toPage({ data: [1], params: { limit: 2 } }).nextOffset).toBeUndefined();
+      expect(toPage({ data: [1, 2] }).nextOffset).toBeUndefined();
+      // More than `limit` items: the endpoint ignored it and sent everything
+      expect(toPage({ data: [1, 2, 3], params: { limit: 2 } }).nextOffset).toBeUndefined();
+    });
+
+    it('reads cursors and totals from a paginated envelope', () => {
+      expect(
+        toPage({
+          data: { success: true, data: [1], total: 3, pagination: { nextCursor: 'next' } },
+        }),
+      ).toEqual({ items: [1], total: 3, nextCursor: 'next', nextOffset: undefined });
+      expect(toPage({ data: { data: [1, 2], total: 3 }, params: { offset: 0 } }).nextOffset).toBe(
+        2,
+      );
+      expect(toPage({ data: { data: [3], total: 3 }, params: { offset: 2 } }).nextOffset).toBe(
+        undefined,
+      );
+    });
+  });
+
+  it('listInvoices sends filters as query parameters', async () => {
+    mockAxios.onGet('/v1/invoices').reply(200, [{ id: 'inv_1' }]);
+
+    const result = await client.invoices.listInvoices({
+      status: InvoiceStatus.PENDING,
+      dateRange: { from: '2024-01-01T00:00:00Z' },
+      search: 'order-42',
+      limit: 10,
+    });
+
+    expect(result).toEqual([{ id: 'inv_1' }]);
+    expect(mockAxios.history.get[0].params).toEqual({
+      status: 'pending',
+      from: '2024-01-01T00:00:00Z',
+      search: 'order-42',
+      limit: 10,
+    });
+  });
+
+  it('listInvoicesPage unwraps paginated envelopes', async () => {
+    mockAxios.onGet('/v1/invoices').reply(200, {
+      success: true,
+      data: [{ id: 'inv_1' }],
+      pagination: { page: 1, limit: 1, totalPages: 2, nextCursor: 'cursor_2' },
+    });
+
+    const page = await client.invoices.listInvoicesPage({ limit: 1 });
+
+    expect(page.items).toEqual([{ id: 'inv_1' }]);
+    expect(page.nextCursor).toBe('cursor_2');
+  });
+
+  it('invoices.iterate follows cursors until the last page', async () => {
+    mockAxios.onGet('/v1/invoices').reply((config) => {
+      const pages: Record<string, unknown> = {
+        start: { data: [{ id: 'inv_1' }, { id: 'inv_2' }], pagination: { nextCursor: 'c2' } },
+        c2: { data: [{ id: 'inv_3' }], pagination: { nextCursor: null } },
+      };
+      return [200, pages[config.params.cursor ?? 'start']];
+    });
+
+    const ids: string[] = [];
+    for await (const invoice of client.invoices.iterate({ status: InvoiceStatus.PAID })) {
+      ids.push(invoice.id as string);
+    }
+
+    expect(ids).toEqual(['inv_1', 'inv_2', 'inv_3']);
+    expect(mockAxios.history.get.map((request) => request.params)).toEqual([
+      { status: 'paid', limit: 100 },
+      { status: 'paid', limit: 100, cursor: 'c2' },
+    ]);
+  });
+
+  it('products.iterate pages by offset when the API returns bare arrays', async () => {
+    mockAxios.onGet('/v1/products').reply((config) => {
+      const all = [{ id: 'p1' }, { id: 'p2' }, { id: 'p3' }];
+      const { offset = 0, limit } = config.params;
+      return [200, all.slice(offset, offset + limit)];
+    });
+
+    const ids: string[] = [];
+    for await (const product of client.products.iterate({ limit: 2 })) {
+      ids.push(product.id);
+    }
+
+    expect(ids).toEqual(['p1', 'p2', 'p3']);
+    expect(mockAxios.history.get.map((request) => request.params.offset)).toEqual([undefined, 2]);
+  });
+
+  it.each([
+    { name: 'ignores limit and offset', reply: [{ id: 'p1' }, { id: 'p2' }] },
+    { name: 'repeats a cursor', reply: { data: [{ id: 'p1' }], nextCursor: 'c1' } },
+  ])('products.iterate stops when the endpoint $name', async ({ reply }) => {
+    mockAxios.onGet('/v1/products').reply(() => [200, reply]);
+
+    const ids: string[] = [];
+    for await (const product of client.products.iterate({ limit: 2 })) {
+      ids.push(product.id);
+    }
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(mockAxios.history.get.length).toBeLessThanOrEqual(2);
+  });
+
+  it('stops fetching when the consumer breaks out early', async () => {
+    mockAxios
+      .onGet('/v1/invoices')
+      .reply(200, { data: [{ id: 'inv_1' }, { id: 'inv_2' }], pagination: { nextCursor: 'c2' } });
+
+    for await (const invoice of client.invoices.iterate()) {
+      if (invoice.id === 'inv_1') break;
+    }
+
+    expect(mockAxios.history.get).toHaveLength(1);
+  });
+});
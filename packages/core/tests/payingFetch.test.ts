@@ -0,0 +1,267 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  BEEP_PAYMENT_REFERENCE_HEADER,
+  BeepClient,
+  BeepErrorCode,
+  PaymentRequestData,
+  PaymentRequirements,
+  createPayingFetch,
+} from '../src';
+import { InvoiceStatus } from '../src/types';
+
+describe('createPayingFetch', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  const requirements = (overrides: Partial<PaymentRequirements> = {}): PaymentRequirements => ({
+    referenceKey: 'ref_1',
+    invoiceId: 'inv_1',
+    assets: [{ assetId: 'premium-report', quantity: 1 }],
+    paymentUrl: 'https://pay.justbeep.it/ref_1',
+    amount: 0.25,
+    token: '0xusdc',
+    expiresAt: '2030-01-01T00:00:00.000Z',
+    header: BEEP_PAYMENT_REFERENCE_HEADER,
+    ...overrides,
+  });
+
+  const paymentRequired = (payment: PaymentRequirements = requirements()) =>
+    Response.json({ error: 'Payment required', payment }, { status: 402 });
+
+  /** Underlying fetch that asks for payment until the reference header is sent */
+  const paywalledFetch = (payment?: PaymentRequirements) =>
+    jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const headers = new Headers(input instanceof Request ? input.headers : init?.headers);
+      return headers.get(BEEP_PAYMENT_REFERENCE_HEADER)
+        ? Response.json({ report: 'secret' })
+        : paymentRequired(payment);
+    });
+
+  /** What BEEP reports for the reference before it is paid */
+  const confirmWith = (overrides: Partial<PaymentRequestData> = {}) =>
+    jest.spyOn(client.payments, 'requestAndPurchaseAsset').mockResolvedValue({
+      referenceKey: 'ref_1',
+      invoiceId: 'inv_1',
+      paymentUrl: 'https://pay.justbeep.it/ref_1',
+      amount: 0.25,
+      splTokenAddress: '0xusdc',
+      expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+      receivingMerchantId: 'merchant_1',
+      status: InvoiceStatus.PENDING,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+    confirmWith();
+    mockAxios
+      .onPost('/v1/invoices/issue-payment')
+      .reply(200, { invoiceId: 'inv_1', referenceKey: 'ref_1' });
+    // The 402 flow reports completion by omitting the reference key
+    mockAxios.onPost('/v1/payment/request-payment').reply(200, { data: { status: 'paid' } });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('pays, waits for confirmation and retries with the reference header', async () => {
+    const fetch = paywalledFetch();
+    const onPayment = jest.fn();
+    const payingFetch = createPayingFetch({
+      beepClient: client,
+      payingMerchantId: 'merchant_agent',
+      policy: { maxAmountPerRequest: '0.50' },
+      onPayment,
+      fetch,
+    });
+
+    const response = await payingFetch('https://api.example.com/report', {
+      headers: { Accept: 'application/json' },
+    });
+
+    expect(await response.json()).toEqual({ report: 'secret' });
+    const [, retryInit] = fetch.mock.calls[1];
+    const retryHeaders = new Headers(retryInit?.headers);
+    expect(retryHeaders.get(BEEP_PAYMENT_REFERENCE_HEADER)).toBe('ref_1');
+    expect(retryHeaders.get('accept')).toBe('application/json');
+
+    const issued = mockAxios.history.post.find((r) => r.url === '/v1/invoices/issue-payment')!;
+    expect(JSON.parse(issued.data)).toEqual({
+      assetChunks: [{ assetId: 'premium-report', quantity: 1 }],
+      payingMerchantId: 'merchant_agent',
+      invoiceId: 'inv_1',
+    });
+    expect(issued.headers?.['Idempotency-Key']).toBe('paywall_ref_1');
+    const confirmed = mockAxios.history.post.find((r) => r.url === '/v1/payment/request-payment')!;
+    expect(JSON.parse(confirmed.data)).toMatchObject({ paymentReference: 'ref_1' });
+    expect(client.payments.requestAndPurchaseAsset).toHaveBeenCalledWith(
+      {
+        assets: [{ assetId: 'premium-report', quantity: 1 }],
+        paymentReference: 'ref_1',
+        generateQrCode: false,
+      },
+      { strict: true },
+    );
+    expect(onPayment).toHaveBeenCalledWith({
+      url: 'https://api.example.com/report',
+      requirements: requirements(),
+      amount: '0.25',
+      token: '0xusdc',
+    });
+  });
+
+  it('keeps the headers of a Request input on the retry', async () => {
+    const fetch = paywalledFetch();
+    const payingFetch = createPayingFetch({
+      beepClient: client,
+      policy: {},
+      pay: jest.fn().mockResolvedValue(undefined),
+      fetch,
+    });
+
+    await payingFetch(
+      new Request('https://api.example.com/report', {
+        method: 'POST',
+        headers: { 'X-Agent': 'a1' },
+        body: '{"q":1}',
+      }),
+    );
+
+    const [retryInput, retryInit] = fetch.mock.calls[1];
+    const retryHeaders = new Headers(retryInit?.headers);
+    expect(retryHeaders.get('x-agent')).toBe('a1');
+    expect(retryHeaders.get(BEEP_PAYMENT_REFERENCE_HEADER)).toBe('ref_1');
+    expect(await (retryInput as Request).text()).toBe('{"q":1}');
+  });
+
+  it('returns responses that are not BEEP payment requests untouched', async () => {
+    const other402 = new Response('pay elsewhere', { status: 402 });
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(Response.json({ ok: true }))
+      .mockResolvedValue(other402);
+    const pay = jest.fn();
+    const payingFetch = createPayingFetch({ beepClient: client, policy: {}, pay, fetch });
+
+    expect((await payingFetch('https://api.example.com/free')).status).toBe(200);
+    expect(await payingFetch('https://api.example.com/other')).toBe(other402);
+    expect(pay).not.toHaveBeenCalled();
+  });
+
+  it('ignores payment requirements that name a different header', async () => {
+    const redirected = paymentRequired(requirements({ header: 'Authorization' }));
+    const pay = jest.fn();
+    const payingFetch = createPayingFetch({
+      beepClient: client,
+      policy: {},
+      pay,
+      fetch: jest.fn().mockResolvedValue(redirected),
+    });
+
+    expect(await payingFetch('https://api.example.com/report')).toBe(redirected);
+    expect(pay).not.toHaveBeenCalled();
+  });
+
+  describe('spend policy', () => {
+    const rejects = async (
+      policy: Parameters<typeof createPayingFetch>[0]['policy'],
+      payment = requirements(),
+    ) => {
+      const pay = jest.fn().mockResolvedValue(undefined);
+      const payingFetch = createPayingFetch({
+        beepClient: client,
+        policy,
+        pay,
+        fetch: paywalledFetch(payment),
+      });
+      await expect(payingFetch('https://api.example.com/report')).rejects.toMatchObject({
+        code: BeepErrorCode.SPEND_POLICY_VIOLATION,
+        details: { url: 'https://api.example.com/report', requirements: payment },
+      });
+      expect(pay).not.toHaveBeenCalled();
+    };
+
+    it('enforces the per-request limit', () => rejects({ maxAmountPerRequest: '0.10' }));
+
+    it('checks the amount and token BEEP reports, not the ones the server claims', async () => {
+      confirmWith({ amount: 5 });
+      await rejects({ maxAmountPerRequest: '0.50' });
+      confirmWith({ splTokenAddress: '0xother' });
+      await rejects({ allowedTokens: ['0xusdc'] });
+    });
+
+    it('refuses a reference BEEP ties to another invoice', async () => {
+      confirmWith({ invoiceId: 'inv_expensive' });
+      await rejects({});
+    });
+
+    it('enforces allowed hosts and tokens', async () => {
+      await rejects({ allowedHosts: ['api.trusted.com'] });
+      await rejects({ allowedTokens: ['0xother'] });
+    });
+
+    it('lets approve() veto a payment', () =>
+      rejects({ maxAmountPerRequest: '1', approve: () => false }));
+
+    it('stops paying once the total limit is reached', async () => {
+      const pay = jest.fn().mockResolvedValue(undefined);
+      const payingFetch = createPayingFetch({
+        beepClient: client,
+        policy: { maxTotalAmount: '0.50' },
+        pay,
+        fetch: paywalledFetch(),
+      });
+
+      await payingFetch('https://api.example.com/a');
+      await payingFetch('https://api.example.com/b');
+      await expect(payingFetch('https://api.example.com/c')).rejects.toMatchObject({
+        code: BeepErrorCode.SPEND_POLICY_VIOLATION,
+      });
+      expect(pay).toHaveBeenCalledTimes(2);
+    });
+
+    it('releases the reservation when paying fails', async () => {
+      const pay = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('wallet offline'))
+        .mockResolvedValue(undefined);
+      const payingFetch = createPayingFetch({
+        beepClient: client,
+        policy: { maxTotalAmount: '0.25' },
+        pay,
+        fetch: paywalledFetch(),
+      });
+
+      await expect(payingFetch('https://api.example.com/a')).rejects.toThrow('wallet offline');
+      expect((await payingFetch('https://api.example.com/a')).status).toBe(200);
+    });
+  });
+
+  it('fails with PAYMENT_EXPIRED when the payment request expires unpaid', async () => {
+    mockAxios.resetHandlers();
+    mockAxios.onPost('/v1/payment/request-payment').reply(200, {
+      data: { referenceKey: 'ref_1', status: 'expired' },
+    });
+    const fetch = paywalledFetch();
+    const payingFetch = createPayingFetch({
+      beepClient: client,
+      policy: {},
+      pay: jest.fn().mockResolvedValue(undefined),
+      fetch,
+    });
+
+    await expect(payingFetch('https://api.example.com/report')).rejects.toMatchObject({
+      code: BeepErrorCode.PAYMENT_EXPIRED,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires payingMerchantId for the default payment', () => {
+    expect(() => createPayingFetch({ beepClient: client, policy: {} })).toThrow(
+      expect.objectContaining({ code: BeepErrorCode.MISSING_PARAMETER }),
+    );
+  });
+});
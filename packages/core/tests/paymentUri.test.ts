@@ -0,0 +1,165 @@
+import { BeepErrorCode, PaymentUri, TokenUtils } from '../src';
+import { BlockchainNetwork } from '../src/types';
+
+describe('PaymentUri', () => {
+  const solanaWallet = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+  const usdcMint = TokenUtils.getTokenAddress('USDC', BlockchainNetwork.SOLANA);
+  const usdcCoinType = TokenUtils.getTokenAddress('USDC', BlockchainNetwork.SUI);
+  const suiWallet = `0x${'ab'.repeat(32)}`;
+
+  describe('build', () => {
+    it('builds a Solana Pay transfer request', () => {
+      const uri = PaymentUri.build({
+        scheme: 'solana',
+        recipient: solanaWallet,
+        amount: '12.50',
+        token: 'USDC',
+        reference: ['ref1', 'ref2'],
+        label: 'Corner Café',
+        message: 'Order #42',
+        memo: 'inv_1',
+      });
+
+      expect(uri).toBe(
+        `solana:${solanaWallet}?amount=12.5&spl-token=${usdcMint}&reference=ref1&reference=ref2` +
+          '&label=Corner%20Caf%C3%A9&message=Order%20%2342&memo=inv_1',
+      );
+    });
+
+    it('builds a SUI URI with a normalized recipient and encoded coin type', () => {
+      const uri = PaymentUri.build({
+        scheme: 'sui',
+        recipient: suiWallet.toUpperCase().replace('0X', '0x'),
+        amount: 3,
+        token: usdcCoinType,
+        reference: 'ref_1',
+      });
+
+      expect(uri).toBe(
+        `sui:${suiWallet}?amount=3&token=${encodeURIComponent(usdcCoinType)}&reference=ref_1`,
+      );
+    });
+
+    it('omits the query for a bare native-coin request', () => {
+      expect(PaymentUri.build({ scheme: 'solana', recipient: solanaWallet })).toBe(
+        `solana:${solanaWallet}`,
+      );
+    });
+
+    it.each([
+      ['too many decimals for the token', { amount: '0.0000001', token: 'USDC' }],
+      ['a negative amount', { amount: '-1' }],
+      ['an exponent', { amount: '1e3' }],
+    ])('rejects %s', (_case, fields) => {
+      expect(() =>
+        PaymentUri.build({ scheme: 'solana', recipient: solanaWallet, ...fields }),
+      ).toThrow(expect.objectContaining({ code: BeepErrorCode.INVALID_AMOUNT }));
+    });
+
+    it('rejects recipients that are not addresses on the chain', () => {
+      expect(() => PaymentUri.build({ scheme: 'sui', recipient: solanaWallet })).toThrow(
+        expect.objectContaining({ code: BeepErrorCode.INVALID_ADDRESS }),
+      );
+    });
+
+    it('needs decimals for tokens the SDK does not know', () => {
+      const build = (decimals?: number) =>
+        PaymentUri.build({
+          scheme: 'solana',
+          recipient: solanaWallet,
+          amount: '1.25',
+          token: solanaWallet,
+          decimals,
+        });
+
+      expect(() => build()).toThrow(expect.objectContaining({ code: BeepErrorCode.INVALID_TOKEN }));
+      expect(build(2)).toContain(`spl-token=${solanaWallet}`);
+      expect(() => build(1)).toThrow(
+        expect.objectContaining({ code: BeepErrorCode.INVALID_AMOUNT }),
+      );
+    });
+  });
+
+  describe('parse', () => {
+    it('reads back what build wrote', () => {
+      const uri = PaymentUri.build({
+        scheme: 'solana',
+        recipient: solanaWallet,
+        amount: '0.25',
+        token: usdcMint,
+        reference: 'ref1',
+        label: 'Corner Café',
+        message: 'a+b & c',
+      });
+
+      expect(PaymentUri.parse(uri)).toEqual({
+        scheme: 'solana',
+        recipient: solanaWallet,
+        amount: '0.25',
+        token: usdcMint,
+        tokenSymbol: 'USDC',
+        decimals: 6,
+        references: ['ref1'],
+        label: 'Corner Café',
+        message: 'a+b & c',
+      });
+    });
+
+    it('normalizes SUI recipients and defaults to the native coin', () => {
+      const parsed = PaymentUri.parse(`SUI:0x${'AB'.repeat(32)}?amount=1.000000001`);
+
+      expect(parsed).toMatchObject({
+        scheme: 'sui',
+        recipient: `0x${'ab'.repeat(32)}`,
+        amount: '1.000000001',
+        decimals: 9,
+        references: [],
+      });
+      expect(parsed.token).toBeUndefined();
+    });
+
+    it.each([
+      { name: 'a symbol', uri: `solana:${solanaWallet}?amount=1&spl-token=USDC` },
+      {
+        name: 'a SUI address on solana:',
+        uri: `solana:${solanaWallet}?spl-token=${suiWallet}`,
+      },
+      { name: 'a Solana mint on sui:', uri: `sui:${suiWallet}?token=${usdcMint}` },
+    ])('rejects a token that is $name, with or without decimals', ({ uri }) => {
+      expect(() => PaymentUri.parse(uri)).toThrow(
+        expect.objectContaining({ code: BeepErrorCode.INVALID_TOKEN }),
+      );
+      expect(() => PaymentUri.parse(uri, { decimals: 6 })).toThrow(
+        expect.objectContaining({ code: BeepErrorCode.INVALID_TOKEN }),
+      );
+    });
+
+    it('accepts unregistered token addresses with decimals', () => {
+      expect(
+        PaymentUri.parse(`sui:${suiWallet}?amount=1&token=0x2::sui::SUI`, { decimals: 9 }),
+      ).toMatchObject({ token: '0x2::sui::SUI', tokenSymbol: undefined });
+    });
+
+    it('ignores trailing zeros beyond the token decimals', () => {
+      expect(
+        PaymentUri.parse(`solana:${solanaWallet}?amount=1.5000000&spl-token=${usdcMint}`),
+      ).toMatchObject({ amount: '1.5', tokenSymbol: 'USDC' });
+    });
+
+    it('rejects amounts more precise than the token', () => {
+      expect(() =>
+        PaymentUri.parse(`solana:${solanaWallet}?amount=0.0000001&spl-token=${usdcMint}`),
+      ).toThrow(expect.objectContaining({ code: BeepErrorCode.INVALID_AMOUNT }));
+    });
+
+    it.each([
+      ['another scheme', 'ethereum:0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'],
+      ['a transaction request', 'solana:https%3A%2F%2Fexample.com%2Fpay'],
+      ['a repeated amount', `solana:${solanaWallet}?amount=1&amount=2`],
+    ])('rejects %s', (_case, uri) => {
+      expect(() => PaymentUri.parse(uri)).toThrow(
+        expect.objectContaining({ code: BeepErrorCode.INVALID_PARAMETER }),
+      );
+    });
+  });
+});
@@ -140,7 +140,7 @@ describe('Payments Module', () => {
 
       const result = await client.payments.createPayout({
         amount: '1000000',
-        destinationWalletAddress: '0xdest',
+        destinationWalletAddress: `0x${'d'.repeat(64)}`,
         chain: 'SUI',
         token: 'USDC',
       });
@@ -158,7 +158,7 @@ describe('Payments Module', () => {
       await expect(
         client.payments.createPayout({
           amount: '999999999',
-          destinationWalletAddress: '0xdest',
+          destinationWalletAddress: `0x${'d'.repeat(64)}`,
           chain: 'SUI',
           token: 'USDC',
         }),
@@ -225,6 +225,24 @@ describe('Payments Module', () => {
       expect(result.paid).toBe(true);
     });
 
+    it.each([
+      { name: 'a 200 without data', status: 200, paid: true },
+      { name: 'a 402 without data', status: 402, paid: false },
+    ])('reads $name by its status code', async ({ status, paid }) => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(status, {});
+
+      const promise = client.payments.waitForPaymentCompletion({
+        assets: [{ assetId: 'asset_1', quantity: 1 }],
+        paymentReference: 'ref_123',
+        intervalMs: 100,
+        timeoutMs: 250,
+      });
+      await jest.advanceTimersByTimeAsync(300);
+
+      const result = await promise;
+      expect(result).toEqual({ paid, last: null });
+    });
+
     it('returns paid:false on timeout', async () => {
       mockAxios.onPost('/v1/payment/request-payment').reply(402, {
         data: { referenceKey: 'ref_123', status: 'PENDING' },
@@ -339,6 +357,26 @@ describe('Payments Module', () => {
       expect(onError).toHaveBeenCalledTimes(1);
     });
 
+    it('does not report a payment as paid after a failed poll', async () => {
+      mockAxios
+        .onPost('/v1/payment/request-payment')
+        .replyOnce(503, { error: 'Unavailable' })
+        .onPost('/v1/payment/request-payment')
+        .reply(402, { data: { referenceKey: 'ref_123', status: 'pending' } });
+
+      const promise = client.payments.waitForPaymentCompletion({
+        assets: [{ assetId: 'asset_1', quantity: 1 }],
+        paymentReference: 'ref_123',
+        intervalMs: 100,
+        timeoutMs: 400,
+      });
+      await jest.advanceTimersByTimeAsync(400);
+
+      const result = await promise;
+      expect(result.paid).toBe(false);
+      expect(result.last?.referenceKey).toBe('ref_123');
+    });
+
     it('calls onUpdate on each poll cycle', async () => {
       const onUpdate = jest.fn();
       mockAxios
@@ -0,0 +1,284 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient, BeepError, BeepErrorCode } from '../src';
+import { PayoutStatus } from '../src/types';
+
+const payout = (overrides: Record<string, unknown> = {}) => ({
+  payoutId: 'po_1',
+  status: PayoutStatus.PENDING,
+  amount: '12.50',
+  chain: 'SUI',
+  token: 'USDC',
+  destinationWalletAddress: '0xabc',
+  createdAt: '2024-06-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('Payouts', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({
+      apiKey: 'test-api-key',
+      serverUrl: 'https://test-api.beep.com',
+    });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('getPayout fetches a payout by ID', async () => {
+    mockAxios.onGet('/v1/payouts/po_1').reply(200, payout({ status: PayoutStatus.IN_PROGRESS }));
+
+    const result = await client.payments.getPayout('po_1');
+
+    expect(result.status).toBe(PayoutStatus.IN_PROGRESS);
+  });
+
+  it('listPayouts sends filters and unwraps paginated responses', async () => {
+    mockAxios.onGet('/v1/payouts').reply(200, { data: [payout()], pagination: {} });
+
+    const result = await client.payments.listPayouts({
+      status: [PayoutStatus.FAILED, PayoutStatus.CANCELED],
+      chain: 'SUI',
+      limit: 20,
+    });
+
+    expect(result).toEqual([payout()]);
+    expect(mockAxios.history.get[0].params).toEqual({
+      status: 'FAILED,CANCELED',
+      chain: 'SUI',
+      limit: 20,
+    });
+  });
+
+  describe('waitForPayout', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('resolves with the transaction hash once the payout completes', async () => {
+      mockAxios
+        .onGet('/v1/payouts/po_1')
+        .replyOnce(200, payout({ status: PayoutStatus.IN_PROGRESS }))
+        .onGet('/v1/payouts/po_1')
+        .replyOnce(200, payout({ status: PayoutStatus.COMPLETED, transactionHash: '0xhash' }));
+      const onUpdate = jest.fn();
+
+      const promise = client.payments.waitForPayout('po_1', { intervalMs: 100, onUpdate });
+      await jest.advanceTimersByTimeAsync(100);
+
+      const result = await promise;
+      expect(result.settled).toBe(true);
+      expect(result.transactionHash).toBe('0xhash');
+      expect(onUpdate.mock.calls.map(([p]) => p.status)).toEqual([
+        PayoutStatus.IN_PROGRESS,
+        PayoutStatus.COMPLETED,
+      ]);
+    });
+
+    it.each([PayoutStatus.FAILED, PayoutStatus.CANCELED])('settles on %s', async (status) => {
+      mockAxios.onGet('/v1/payouts/po_1').reply(200, payout({ status, failureReason: 'nope' }));
+
+      const result = await client.payments.waitForPayout('po_1');
+
+      expect(result.settled).toBe(true);
+      expect(result.payout?.status).toBe(status);
+      expect(result.transactionHash).toBeUndefined();
+    });
+
+    it('keeps polling through transient errors', async () => {
+      mockAxios
+        .onGet('/v1/payouts/po_1')
+        .replyOnce(503)
+        .onGet('/v1/payouts/po_1')
+        .replyOnce(200, payout({ status: PayoutStatus.COMPLETED }));
+      const onError = jest.fn();
+
+      const promise = client.payments.waitForPayout('po_1', { intervalMs: 100, onError });
+      await jest.advanceTimersByTimeAsync(150);
+
+      expect((await promise).settled).toBe(true);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops on 404', async () => {
+      mockAxios.onGet('/v1/payouts/po_missing').reply(404, { message: 'not found' });
+
+      const result = await client.payments.waitForPayout('po_missing', { intervalMs: 100 });
+
+      expect(result).toEqual({ settled: false, payout: undefined });
+      expect(mockAxios.history.get).toHaveLength(1);
+    });
+
+    it('returns the last state on timeout', async () => {
+      mockAxios.onGet('/v1/payouts/po_1').reply(200, payout());
+
+      const promise = client.payments.waitForPayout('po_1', { intervalMs: 100, timeoutMs: 250 });
+      await jest.advanceTimersByTimeAsync(300);
+
+      const result = await promise;
+      expect(result.settled).toBe(false);
+      expect(result.payout?.status).toBe(PayoutStatus.PENDING);
+    });
+
+    it('returns immediately when the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await client.payments.waitForPayout('po_1', { signal: controller.signal });
+
+      expect(result.settled).toBe(false);
+      expect(mockAxios.history.get).toHaveLength(0);
+    });
+  });
+});
+
+describe('createPayoutBatch', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  const item = (overrides: Record<string, unknown> = {}) => ({
+    amount: '10.00',
+    destinationWalletAddress: `0x${'a'.repeat(64)}`,
+    chain: 'SUI',
+    token: 'USDC',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('validates items in a dry run without sending anything', async () => {
+    const report = await client.payments.createPayoutBatch(
+      [
+        item({ reference: 'seller-1' }),
+        item({ reference: 'seller-2', amount: '0.001' }),
+        item({ reference: 'seller-3', amount: '100000.01' }),
+        item({ reference: 'seller-4', destinationWalletAddress: 'not-an-address' }),
+        item({ reference: 'seller-5', chain: 'SOLANA', destinationWalletAddress: '0xabc' }),
+        item({ reference: 'seller-1' }),
+        item({ reference: 'seller-7', token: 'DOGE' }),
+      ],
+      { dryRun: true, idempotencyPrefix: 'cycle-42' },
+    );
+
+    expect(mockAxios.history.post).toHaveLength(0);
+    expect(report.dryRun).toBe(true);
+    expect(report.results.map((r) => r.status)).toEqual([
+      'validated',
+      'invalid',
+      'invalid',
+      'invalid',
+      'invalid',
+      'invalid',
+      'invalid',
+    ]);
+    expect(report.results[0].idempotencyKey).toBe('cycle-42:seller-1');
+    expect(report.results[1].error?.code).toBe(BeepErrorCode.INVALID_AMOUNT);
+    expect(report.results[2].error?.code).toBe(BeepErrorCode.INVALID_AMOUNT);
+    expect(report.results[3].error?.code).toBe(BeepErrorCode.INVALID_ADDRESS);
+    expect(report.results[4].error?.code).toBe(BeepErrorCode.INVALID_ADDRESS);
+    expect(report.results[5].error?.message).toMatch(/Duplicate/);
+    expect(report.results[6].error?.code).toBe(BeepErrorCode.INVALID_TOKEN);
+    expect(report.counts).toEqual({
+      validated: 1,
+      invalid: 6,
+      accepted: 0,
+      rejected: 0,
+      failed: 0,
+    });
+  });
+
+  it('sends valid items with stable idempotency keys and reports each outcome', async () => {
+    mockAxios.onPost('/v1/payouts').reply((config) => {
+      const body = JSON.parse(config.data);
+      if (body.amount === '20.00') return [503, { message: 'busy' }];
+      if (body.amount === '30.00') return [200, { payoutId: 'po_3', status: 'rejected' }];
+      return [200, { payoutId: `po_${body.amount}`, status: 'accepted' }];
+    });
+
+    const report = await client.payments.createPayoutBatch(
+      [
+        item({ reference: 'a' }),
+        item({ reference: 'b', amount: '20.00' }),
+        item({ reference: 'c', amount: '30.00' }),
+        item({ reference: 'd', amount: '0' }),
+      ],
+      { idempotencyPrefix: 'cycle-7', concurrency: 2 },
+    );
+
+    expect(report.results.map((r) => r.status)).toEqual([
+      'accepted',
+      'failed',
+      'rejected',
+      'invalid',
+    ]);
+    expect(report.results[1].error).toBeInstanceOf(BeepError);
+    expect(mockAxios.history.post.map((r) => r.headers?.['Idempotency-Key']).sort()).toEqual([
+      'cycle-7:a',
+      'cycle-7:b',
+      'cycle-7:c',
+    ]);
+    expect(JSON.parse(mockAxios.history.post[0].data)).not.toHaveProperty('reference');
+  });
+
+  it('requires a reference per item when an idempotency prefix is set', async () => {
+    const report = await client.payments.createPayoutBatch([item({ reference: 'a' }), item()], {
+      idempotencyPrefix: 'cycle-7',
+      dryRun: true,
+    });
+
+    expect(report.results.map((r) => r.status)).toEqual(['validated', 'invalid']);
+    expect(report.results[1].error?.code).toBe(BeepErrorCode.MISSING_PARAMETER);
+  });
+
+  it('keeps the keys of re-submitted items when earlier items are dropped', async () => {
+    mockAxios.onPost('/v1/payouts').reply(200, { payoutId: 'po', status: 'accepted' });
+    const items = [item({ reference: 'a' }), item({ reference: 'b', amount: '20.00' })];
+
+    const first = await client.payments.createPayoutBatch(items, {
+      idempotencyPrefix: 'cycle-7',
+      dryRun: true,
+    });
+    const retry = await client.payments.createPayoutBatch([items[1]], {
+      idempotencyPrefix: 'cycle-7',
+    });
+
+    expect(retry.results[0].idempotencyKey).toBe(first.results[1].idempotencyKey);
+  });
+
+  it('never exceeds the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockAxios.onPost('/v1/payouts').reply(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return [200, { payoutId: 'po', status: 'accepted' }];
+    });
+
+    const report = await client.payments.createPayoutBatch(
+      Array.from({ length: 7 }, () => item()),
+      { concurrency: 3 },
+    );
+
+    expect(report.counts.accepted).toBe(7);
+    expect(maxInFlight).toBe(3);
+    expect(new Set(report.results.map((r) => r.idempotencyKey)).size).toBe(7);
+  });
+});
@@ -0,0 +1,262 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  BEEP_PAYMENT_REFERENCE_HEADER,
+  BeepClient,
+  InMemoryPaywallReferenceStore,
+  beepPaywall,
+} from '../src';
+
+describe('beepPaywall', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  const pending = (referenceKey: string, status = 'pending') => ({
+    data: {
+      invoiceId: `inv_${referenceKey}`,
+      referenceKey,
+      paymentUrl: `https://pay.justbeep.it/${referenceKey}`,
+      amount: 1.5,
+      splTokenAddress: '0xusdc',
+      expiresAt: '2030-01-01T00:00:00.000Z',
+      receivingMerchantId: 'merchant_1',
+      status,
+    },
+  });
+
+  const requests = () =>
+    mockAxios.history.post.map((r) => JSON.parse(r.data) as { paymentReference?: string });
+
+  const createPaywall = (onError?: (error: unknown) => void) =>
+    beepPaywall({
+      payments: client.payments,
+      assets: [{ assetId: 'premium-report', quantity: 1 }],
+      paymentLabel: 'Acme',
+      onError,
+    });
+
+  const paidReply = () =>
+    mockAxios
+      .onPost('/v1/payment/request-payment')
+      .reply(200, { data: { type: 'paid', value: [] } });
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+    jest.useRealTimers();
+  });
+
+  describe('check', () => {
+    it('requires payment when no reference is sent', async () => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(402, pending('ref_new'));
+
+      const decision = await createPaywall().check(undefined);
+
+      expect(decision).toEqual({
+        allowed: false,
+        status: 402,
+        body: {
+          error: 'Payment required',
+          payment: {
+            referenceKey: 'ref_new',
+            invoiceId: 'inv_ref_new',
+            assets: [{ assetId: 'premium-report', quantity: 1 }],
+            paymentUrl: 'https://pay.justbeep.it/ref_new',
+            amount: 1.5,
+            token: '0xusdc',
+            expiresAt: '2030-01-01T00:00:00.000Z',
+            header: BEEP_PAYMENT_REFERENCE_HEADER,
+          },
+        },
+      });
+      expect(requests()[0]).toEqual({
+        assets: [{ assetId: 'premium-report', quantity: 1 }],
+        paymentLabel: 'Acme',
+        generateQrCode: false,
+      });
+    });
+
+    it('lets a paid reference through and does not check it again', async () => {
+      paidReply();
+      const paywall = createPaywall();
+
+      expect(await paywall.check('ref_paid')).toEqual({ allowed: true, referenceKey: 'ref_paid' });
+      expect(await paywall.check('ref_paid')).toEqual({ allowed: true, referenceKey: 'ref_paid' });
+
+      expect(requests()).toHaveLength(1);
+      expect(requests()[0].paymentReference).toBe('ref_paid');
+    });
+
+    it('returns the same requirements while the payment is pending', async () => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(402, pending('ref_1'));
+
+      const decision = await createPaywall().check('ref_1');
+
+      expect(decision).toMatchObject({
+        allowed: false,
+        status: 402,
+        body: { error: 'Payment pending', payment: { referenceKey: 'ref_1' } },
+      });
+      expect(requests()).toHaveLength(1);
+    });
+
+    it.each([
+      ['an unknown reference', () => [404, { message: 'not found' }]],
+      ['an expired reference', () => [200, pending('ref_old', 'expired')]],
+      ['a 402 without a payload', () => [402, {}]],
+    ])('issues new requirements for %s', async (_case, firstReply) => {
+      mockAxios
+        .onPost('/v1/payment/request-payment')
+        .replyOnce(...(firstReply() as [number, unknown]))
+        .onPost('/v1/payment/request-payment')
+        .replyOnce(402, pending('ref_new'));
+
+      const decision = await createPaywall().check('ref_old');
+
+      expect(decision).toMatchObject({
+        status: 402,
+        body: { payment: { referenceKey: 'ref_new' } },
+      });
+      expect(requests()[1].paymentReference).toBeUndefined();
+    });
+
+    it('responds 429 once the payment request limit is used up', async () => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(402, pending('ref_new'));
+      const paywall = beepPaywall({
+        payments: client.payments,
+        assets: [{ assetId: 'premium-report', quantity: 1 }],
+        paymentRequestLimit: { max: 2, windowMs: 60_000 },
+      });
+
+      await paywall.check(undefined);
+      await paywall.check(undefined);
+
+      expect(await paywall.check(undefined)).toEqual({
+        allowed: false,
+        status: 429,
+        body: { error: 'Too many payment requests' },
+      });
+      expect(requests()).toHaveLength(2);
+    });
+
+    it('scopes verified references to the paywall assets', async () => {
+      paidReply();
+      const store = new InMemoryPaywallReferenceStore();
+      const paywallFor = (assetId: string) =>
+        beepPaywall({ payments: client.payments, assets: [{ assetId, quantity: 1 }], store });
+
+      await paywallFor('report-a').check('ref_paid');
+      await paywallFor('report-b').check('ref_paid');
+
+      expect(requests()).toHaveLength(2);
+    });
+
+    it('checks a reference again once its access has expired', async () => {
+      jest.useFakeTimers();
+      paidReply();
+      const paywall = beepPaywall({
+        payments: client.payments,
+        assets: [{ assetId: 'premium-report', quantity: 1 }],
+        accessTtlMs: 60_000,
+      });
+
+      await paywall.check('ref_paid');
+      jest.advanceTimersByTime(59_999);
+      await paywall.check('ref_paid');
+      expect(requests()).toHaveLength(1);
+
+      jest.advanceTimersByTime(1);
+      await paywall.check('ref_paid');
+      expect(requests()).toHaveLength(2);
+    });
+
+    it('responds 502 when BEEP cannot be reached', async () => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(500, { message: 'down' });
+      const onError = jest.fn();
+
+      const decision = await createPaywall(onError).check('ref_1');
+
+      expect(decision).toEqual({
+        allowed: false,
+        status: 502,
+        body: { error: 'Payment verification failed' },
+      });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 500 }));
+    });
+
+    it('still responds 502 when onError throws', async () => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(500, { message: 'down' });
+      const paywall = createPaywall(() => {
+        throw new Error('logger down');
+      });
+
+      await expect(paywall.check('ref_1')).resolves.toMatchObject({ status: 502 });
+    });
+  });
+
+  describe('adapters', () => {
+    it('express calls next for paid requests and responds 402 otherwise', async () => {
+      mockAxios
+        .onPost('/v1/payment/request-payment')
+        .replyOnce(200, { data: { type: 'paid', value: [] } })
+        .onPost('/v1/payment/request-payment')
+        .replyOnce(402, pending('ref_new'));
+      const middleware = createPaywall().express();
+      const next = jest.fn();
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+
+      await middleware({ headers: { [BEEP_PAYMENT_REFERENCE_HEADER]: 'ref_paid' } }, res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).not.toHaveBeenCalled();
+
+      await middleware({ headers: {} }, res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ payment: expect.objectContaining({ referenceKey: 'ref_new' }) }),
+      );
+    });
+
+    it('fastify replies 402 from the preHandler hook', async () => {
+      mockAxios.onPost('/v1/payment/request-payment').reply(402, pending('ref_new'));
+      const hook = createPaywall().fastify();
+      const reply = { code: jest.fn().mockReturnThis(), send: jest.fn() };
+
+      await hook({ headers: {} }, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(402);
+      expect(reply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Payment required' }),
+      );
+    });
+
+    it('fetch only runs the handler once the request is paid for', async () => {
+      mockAxios
+        .onPost('/v1/payment/request-payment')
+        .replyOnce(402, pending('ref_1'))
+        .onPost('/v1/payment/request-payment')
+        .replyOnce(200, { data: { type: 'paid', value: [] } });
+      const handler = jest.fn(async () => Response.json({ report: 'secret' }));
+      const route = createPaywall().fetch(handler);
+
+      const unpaid = await route(new Request('https://api.example.com/report'));
+      expect(unpaid.status).toBe(402);
+      expect(unpaid.headers.get('Content-Type')).toBe('application/json');
+      expect(((await unpaid.json()) as { payment: { referenceKey: string } }).payment).toEqual(
+        expect.objectContaining({ referenceKey: 'ref_1' }),
+      );
+      expect(handler).not.toHaveBeenCalled();
+
+      const paid = await route(
+        new Request('https://api.example.com/report', {
+          headers: { [BEEP_PAYMENT_REFERENCE_HEADER]: 'ref_1' },
+        }),
+      );
+      expect(await paid.json()).toEqual({ report: 'secret' });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { BeepError, BeepErrorCode, Poller } from '../src';
+
+type Status = { state: string };
+
+const serverError = () =>
+  new BeepError('boom', { code: BeepErrorCode.SERVER_ERROR, statusCode: 503 });
+
+describe('Poller', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const settleDone = (status: Status) => (status.state === 'done' ? 'done' : undefined);
+
+  it('emits updates and the outcome event, then resolves settled', async () => {
+    const fetch = jest
+      .fn<Promise<Status>, []>()
+      .mockResolvedValueOnce({ state: 'pending' })
+      .mockResolvedValueOnce({ state: 'done' });
+    const poller = new Poller({ fetch, settle: settleDone, intervalMs: 100 });
+    const updates: string[] = [];
+    const done = jest.fn();
+    poller.on('update', (status) => updates.push(status.state));
+    poller.on('done', done);
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(await poller.result).toEqual({
+      reason: 'settled',
+      outcome: 'done',
+      last: { state: 'done' },
+    });
+    expect(updates).toEqual(['pending', 'done']);
+    expect(done).toHaveBeenCalledWith({ state: 'done' });
+  });
+
+  it('backs off on transient errors up to maxIntervalMs and resets after a success', async () => {
+    const fetch = jest
+      .fn<Promise<Status>, []>()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValueOnce({ state: 'pending' })
+      .mockResolvedValue({ state: 'done' });
+    const onError = jest.fn();
+    const poller = new Poller({ fetch, settle: settleDone, intervalMs: 100, maxIntervalMs: 200 });
+    poller.on('error', onError);
+
+    // 150ms, then 200ms (225 capped), then 200ms again
+    await jest.advanceTimersByTimeAsync(149);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(200);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await jest.advanceTimersByTimeAsync(200);
+    expect(fetch).toHaveBeenCalledTimes(4);
+    // Back to the base interval
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect((await poller.result).reason).toBe('settled');
+    expect(onError).toHaveBeenCalledTimes(3);
+  });
+
+  it('applies jitter to the delay', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const fetch = jest
+      .fn<Promise<Status>, []>()
+      .mockResolvedValueOnce({ state: 'pending' })
+      .mockResolvedValue({ state: 'done' });
+    const poller = new Poller({ fetch, settle: settleDone, intervalMs: 100, jitter: 'full' });
+
+    await jest.advanceTimersByTimeAsync(50);
+
+    expect((await poller.result).reason).toBe('settled');
+    jest.restoreAllMocks();
+  });
+
+  it('makes a last poll at the deadline and ends with timeout', async () => {
+    const fetch = jest.fn<Promise<Status>, []>().mockResolvedValue({ state: 'pending' });
+    const end = jest.fn();
+    const poller = new Poller({ fetch, settle: settleDone, intervalMs: 100, timeoutMs: 250 });
+    poller.on('end', end);
+
+    await jest.advanceTimersByTimeAsync(250);
+
+    const result = await poller.result;
+    expect(result).toEqual({ reason: 'timeout', last: { state: 'pending' } });
+    expect(fetch).toHaveBeenCalledTimes(4);
+    expect(end).toHaveBeenCalledWith(result);
+  });
+
+  it('ends on a fatal status with the error', async () => {
+    const notFound = new BeepError('missing', {
+      code: BeepErrorCode.PAYMENT_NOT_FOUND,
+      statusCode: 404,
+    });
+    const poller = new Poller({
+      fetch: jest.fn<Promise<Status>, []>().mockRejectedValue(notFound),
+      settle: settleDone,
+    });
+
+    expect(await poller.result).toEqual({ reason: 'fatal', last: undefined, error: notFound });
+  });
+
+  it('stop() interrupts the wait between polls', async () => {
+    const fetch = jest.fn<Promise<Status>, []>().mockResolvedValue({ state: 'pending' });
+    const poller = new Poller({ fetch, settle: settleDone, intervalMs: 60_000 });
+    await jest.advanceTimersByTimeAsync(0);
+
+    poller.stop();
+
+    expect((await poller.result).reason).toBe('aborted');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not poll when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fetch = jest.fn<Promise<Status>, []>();
+
+    const poller = new Poller({ fetch, settle: settleDone, signal: controller.signal });
+
+    expect((await poller.result).reason).toBe('aborted');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  describe('async iteration', () => {
+    it('yields every update and finishes when polling settles', async () => {
+      const fetch = jest
+        .fn<Promise<Status>, []>()
+        .mockResolvedValueOnce({ state: 'pending' })
+        .mockResolvedValueOnce({ state: 'pending' })
+        .mockResolvedValueOnce({ state: 'done' });
+      const poller = new Poller({ fetch, settle: settleDone, intervalMs: 100 });
+
+      const states: string[] = [];
+      const consumed = (async () => {
+        for await (const status of poller) states.push(status.state);
+      })();
+      await jest.advanceTimersByTimeAsync(200);
+      await consumed;
+
+      expect(states).toEqual(['pending', 'pending', 'done']);
+    });
+
+    it('stops polling when the loop exits early', async () => {
+      const fetch = jest.fn<Promise<Status>, []>().mockResolvedValue({ state: 'pending' });
+      const poller = new Poller({ fetch, settle: settleDone, intervalMs: 100 });
+
+      for await (const status of poller) {
+        expect(status.state).toBe('pending');
+        break;
+      }
+
+      expect((await poller.result).reason).toBe('aborted');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws the error that ended polling fatally', async () => {
+      const forbidden = new BeepError('nope', {
+        code: BeepErrorCode.UNAUTHORIZED,
+        statusCode: 403,
+      });
+      const poller = new Poller({
+        fetch: jest.fn<Promise<Status>, []>().mockRejectedValue(forbidden),
+        settle: settleDone,
+      });
+
+      const iterate = async () => {
+        for await (const _status of poller) {
+          // no updates expected
+        }
+      };
+
+      await expect(iterate()).rejects.toBe(forbidden);
+    });
+  });
+});
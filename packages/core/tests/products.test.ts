@@ -1,7 +1,7 @@
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
-import { BeepClient } from '../src';
-import { SupportedToken } from '../src/types';
+import { BeepClient, BeepErrorCode } from '../src';
+import { BlockchainNetwork, SupportedToken } from '../src/types';
 import { TOKEN_ADDRESSES } from '../src/types/token';
 
 describe('Products Module', () => {
@@ -41,6 +41,7 @@ describe('Products Module', () => {
       description: 'A test product',
       price: '9.99',
       token: SupportedToken.USDC,
+      chain: BlockchainNetwork.SOLANA,
       isSubscription: false,
     });
 
@@ -65,6 +66,7 @@ describe('Products Module', () => {
       description: 'Monthly subscription',
       price: '14.99',
       token: SupportedToken.USDC,
+      chain: BlockchainNetwork.SOLANA,
       isSubscription: true,
     });
 
@@ -74,6 +76,13 @@ describe('Products Module', () => {
     expect(requestData.isSubscription).toBe(true);
   });
 
+  it('createProduct requires a chain with a token', async () => {
+    await expect(
+      client.products.createProduct({ name: 'Gem', price: '1', token: SupportedToken.USDC }),
+    ).rejects.toMatchObject({ code: BeepErrorCode.MISSING_PARAMETER, details: { field: 'chain' } });
+    expect(mockAxios.history.post).toHaveLength(0);
+  });
+
   it('getProduct returns a product by ID', async () => {
     const mockProduct = {
       id: 'prod_test123',
@@ -120,6 +129,7 @@ describe('Products Module', () => {
 
     await client.products.updateProduct('prod_test123', {
       token: SupportedToken.USDC,
+      chain: BlockchainNetwork.SOLANA,
     });
 
     const requestData = JSON.parse(mockAxios.history.put[0].data);
@@ -0,0 +1,112 @@
+import { inflateSync } from 'zlib';
+import { BeepErrorCode, RenderPaymentQrOptions, renderPaymentQr } from '../src';
+
+describe('renderPaymentQr', () => {
+  const url = 'sui:0x2?amount=1';
+
+  // Version 2-M, mask 0; cross-checked against an independent encoder
+  const expected = [
+    '#######..####.#...#######',
+    '#.....#.##...#....#.....#',
+    '#.###.#..#.##..#..#.###.#',
+    '#.###.#....###....#.###.#',
+    '#.###.#.#.####..#.#.###.#',
+    '#.....#.......###.#.....#',
+    '#######.#.#.#.#.#.#######',
+    '..........#....#.........',
+    '#.#.#.#....#........#..#.',
+    '#.###....##..#...##..####',
+    '##.#..##...##.#..#.######',
+    '..#.#..#..#######..#.#...',
+    '.##.#.#.##.#..##.##..#.##',
+    '...##...#.##..#..##..##.#',
+    '#..######....#..##.#...##',
+    '.##.##.....#...##.#.##..#',
+    '#..#####....#...######..#',
+    '........##.###..#...##..#',
+    '#######...###.###.#.#.###',
+    '#.....#...#.###.#...#..#.',
+    '#.###.#.#.##..#.######..#',
+    '#.###.#..###..###...###..',
+    '#.###.#.#....#.#.#..#.#.#',
+    '#.....#....#...##..###.#.',
+    '#######.##..#..####.##.##',
+  ];
+
+  /** Reads the dark modules back out of the runs in the SVG path */
+  const svgModules = (svg: string, { size, margin }: { size: number; margin: number }) => {
+    const grid = Array.from({ length: size }, () => new Array<string>(size).fill('.'));
+    const path = /<path fill="#000000" d="([^"]*)"/.exec(svg)![1];
+    for (const [, x, y, width] of path.matchAll(/M(\d+) (\d+)h(\d+)v1H\d+z/g)) {
+      for (let i = 0; i < Number(width); i++) {
+        grid[Number(y) - margin][Number(x) - margin + i] = '#';
+      }
+    }
+    return grid.map((row) => row.join(''));
+  };
+
+  /** Decodes the pixels of a one-bit grayscale PNG data URL */
+  const pngPixels = (dataUrl: string) => {
+    const png = Buffer.from(dataUrl.replace('data:image/png;base64,', ''), 'base64');
+    const width = png.readUInt32BE(16);
+    const chunks: Buffer[] = [];
+    for (let offset = 8; offset < png.length; ) {
+      const length = png.readUInt32BE(offset);
+      if (png.toString('ascii', offset + 4, offset + 8) === 'IDAT') {
+        chunks.push(png.subarray(offset + 8, offset + 8 + length));
+      }
+      offset += 12 + length;
+    }
+    const raw = inflateSync(Buffer.concat(chunks));
+    const rowLength = 1 + Math.ceil(width / 8);
+    const isDark = (x: number, y: number) =>
+      ((raw[y * rowLength + 1 + (x >>> 3)] >>> (7 - (x & 7))) & 1) === 0;
+    return { width, isDark };
+  };
+
+  it('renders SVG with a quiet zone scaled to the requested size', () => {
+    const svg = renderPaymentQr(url, { size: 200 });
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="200" height="200"/);
+    expect(svg).toContain('viewBox="0 0 33 33"');
+    expect(svgModules(svg, { size: 25, margin: 4 })).toEqual(expected);
+  });
+
+  it('renders a PNG data URL with the same modules', () => {
+    const { width, isDark } = pngPixels(
+      renderPaymentQr(url, { format: 'png-dataurl', size: 100, margin: 0 }),
+    );
+
+    expect(width).toBe(100);
+    // 4 pixels per module; sample the middle of each
+    const modules = expected.map((row, y) =>
+      [...row].map((_, x) => (isDark(x * 4 + 2, y * 4 + 2) ? '#' : '.')).join(''),
+    );
+    expect(modules).toEqual(expected);
+  });
+
+  it('draws a logo over cleared modules at high error correction', () => {
+    const svg = renderPaymentQr(url, { logo: { src: 'data:image/png;base64,AA"x', size: 0.3 } });
+
+    expect(svg).toContain(
+      '<image href="data:image/png;base64,AA&quot;x" x="14" y="14" width="9" height="9"',
+    );
+    // The logo raises the level to H, which needs version 3 (29 modules) for this link
+    const modules = svgModules(svg, { size: 29, margin: 4 });
+    expect(modules.slice(10, 19).every((row) => row.slice(10, 19) === '.........')).toBe(true);
+  });
+
+  it.each<{ name: string; link: string; options?: RenderPaymentQrOptions; code?: BeepErrorCode }>([
+    { name: 'an empty link', link: '', code: BeepErrorCode.MISSING_PARAMETER },
+    { name: 'a logo on a PNG', link: url, options: { format: 'png-dataurl', logo: { src: 'x' } } },
+    {
+      name: 'a PNG smaller than the code',
+      link: url,
+      options: { format: 'png-dataurl', size: 32 },
+    },
+    { name: 'an oversized logo', link: url, options: { logo: { src: 'x', size: 0.5 } } },
+    { name: 'a link too long for a QR code', link: 'x'.repeat(3000) },
+  ])('rejects $name', ({ link, options, code = BeepErrorCode.INVALID_PARAMETER }) => {
+    expect(() => renderPaymentQr(link, options)).toThrow(expect.objectContaining({ code }));
+  });
+});
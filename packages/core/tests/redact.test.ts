@@ -0,0 +1,125 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient, BeepPublicClient, createRedactor, REDACTED } from '../src';
+
+describe('Redaction', () => {
+  describe('createRedactor', () => {
+    it('redacts built-in sensitive fields at any depth', () => {
+      const redact = createRedactor();
+
+      expect(
+        redact({
+          headers: { Authorization: 'Bearer sk_live', 'X-Api-Key': 'k' },
+          email: 'jane@example.com',
+          otp: '123456',
+          destinationWalletAddress: '0xabc',
+          nested: [{ apiKey: 'k', amount: '1.00', token: 'USDC' }],
+        }),
+      ).toEqual({
+        headers: { Authorization: REDACTED, 'X-Api-Key': REDACTED },
+        email: REDACTED,
+        otp: REDACTED,
+        destinationWalletAddress: REDACTED,
+        nested: [{ apiKey: REDACTED, amount: '1.00', token: 'USDC' }],
+      });
+    });
+
+    it('applies user keys and path patterns', () => {
+      const redact = createRedactor({
+        keys: ['phone'],
+        paths: ['customer.address', 'assets[].metadata.*'],
+        replacement: '***',
+      });
+
+      expect(
+        redact({
+          data: {
+            customer: { address: '1 Main St', phone: '555', name: 'Jane' },
+            assets: [{ assetId: 'a', metadata: { note: 'x' } }],
+          },
+        }),
+      ).toEqual({
+        data: {
+          customer: { address: '***', phone: '***', name: 'Jane' },
+          assets: [{ assetId: 'a', metadata: { note: '***' } }],
+        },
+      });
+    });
+
+    it('reduces errors to their summary and cuts cycles without touching the input', () => {
+      const redact = createRedactor();
+      const error = Object.assign(new Error('boom'), {
+        code: 'ERR_NETWORK',
+        config: { headers: { Authorization: 'Bearer sk_live' } },
+      });
+      const cyclic: Record<string, unknown> = { name: 'loop' };
+      cyclic.self = cyclic;
+
+      expect(redact({ error, cyclic })).toEqual({
+        error: { name: 'Error', message: 'boom', code: 'ERR_NETWORK', statusCode: undefined },
+        cyclic: { name: 'loop', self: '[Circular]' },
+      });
+      expect(cyclic.self).toBe(cyclic);
+    });
+  });
+
+  describe('debug logging', () => {
+    let mockAxios: MockAdapter;
+
+    beforeEach(() => {
+      mockAxios = new MockAdapter(axios);
+    });
+
+    afterEach(() => {
+      mockAxios.restore();
+    });
+
+    it('never logs the API key, OTP codes or emails', async () => {
+      const logger = jest.fn();
+      const client = new BeepPublicClient({
+        publishableKey: 'beep_pk_test_secret',
+        debug: { debug: true, logRequests: true, logResponses: true, logger },
+      });
+      mockAxios.onPost('/v1/widget/verify-otp').reply(200, { success: true });
+
+      await client.widget.verifyOTP({ email: 'jane@example.com', otp: '424242' });
+
+      const logged = JSON.stringify(logger.mock.calls);
+      expect(logged).not.toContain('beep_pk_test_secret');
+      expect(logged).not.toContain('jane@example.com');
+      expect(logged).not.toContain('424242');
+      expect(logged).toContain('API Request: POST /v1/widget/verify-otp');
+    });
+
+    it('writes one JSON object per line in json format', async () => {
+      const consoleInfo = jest.spyOn(console, 'info').mockImplementation();
+      const client = new BeepClient({
+        apiKey: 'sk_live_secret',
+        debug: {
+          debug: true,
+          logRequests: true,
+          format: 'json',
+          redact: { keys: ['payingMerchantId'] },
+        },
+      });
+      mockAxios.onPost('/v1/invoices/issue-payment').reply(200, {});
+
+      await client.payments.issuePayment({
+        assetChunks: [],
+        payingMerchantId: 'merchant_1',
+        invoiceId: 'inv_1',
+      });
+
+      const entry = JSON.parse(consoleInfo.mock.calls[0][0]);
+      expect(entry).toMatchObject({
+        level: 'debug',
+        message: 'API Request: POST /v1/invoices/issue-payment',
+        data: {
+          headers: { Authorization: REDACTED },
+          data: { invoiceId: 'inv_1', payingMerchantId: REDACTED },
+        },
+      });
+      consoleInfo.mockRestore();
+    });
+  });
+});
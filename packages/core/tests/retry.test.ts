@@ -0,0 +1,148 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient, BeepErrorCode, BeepPublicClient, computeRetryDelay } from '../src';
+import { createRetryInterceptor } from '../src/utils/retry';
+
+describe('Retry policy', () => {
+  let mockAxios: MockAdapter;
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  const createClient = (onRetry = jest.fn()) =>
+    new BeepClient({
+      apiKey: 'test-api-key',
+      serverUrl: 'https://test-api.beep.com',
+      retry: { baseDelayMs: 1, jitter: 'none', onRetry },
+    });
+
+  it('does not retry when the option is not set', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key' });
+    mockAxios.onGet('/v1/products/prod_1').reply(503);
+
+    await expect(client.products.getProduct('prod_1')).rejects.toThrow();
+    expect(mockAxios.history.get.length).toBe(1);
+  });
+
+  it('retries safe methods on transient statuses until success', async () => {
+    const onRetry = jest.fn();
+    const client = createClient(onRetry);
+    mockAxios
+      .onGet('/v1/products/prod_1')
+      .replyOnce(503)
+      .onGet('/v1/products/prod_1')
+      .replyOnce(500)
+      .onGet('/v1/products/prod_1')
+      .replyOnce(200, { id: 'prod_1' });
+
+    const result = await client.products.getProduct('prod_1');
+
+    expect(result).toEqual({ id: 'prod_1' });
+    expect(mockAxios.history.get.length).toBe(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 2, delayMs: 2 }));
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const client = createClient();
+    mockAxios.onGet('/v1/invoices').reply(502);
+
+    await expect(client.invoices.listInvoices()).rejects.toThrow();
+    expect(mockAxios.history.get.length).toBe(3);
+  });
+
+  it('retries network errors', async () => {
+    const client = createClient();
+    mockAxios
+      .onGet('/v1/user')
+      .networkErrorOnce()
+      .onGet('/v1/user')
+      .reply(200, { merchantId: 'm' });
+
+    await expect(client.user.getCurrentUser()).resolves.toEqual({ merchantId: 'm' });
+  });
+
+  it('does not retry non-transient statuses', async () => {
+    const client = createClient();
+    mockAxios.onGet('/v1/products/prod_1').reply(404);
+
+    await expect(client.products.getProduct('prod_1')).rejects.toThrow();
+    expect(mockAxios.history.get.length).toBe(1);
+  });
+
+  it('does not retry POST requests without an idempotency key', async () => {
+    const client = createClient();
+    mockAxios.onPost('/v1/invoices/start').reply(503);
+
+    await expect(client.payments.startStreaming({ invoiceId: 'inv_1' })).rejects.toThrow();
+    expect(mockAxios.history.post.length).toBe(1);
+  });
+
+  it('honors Retry-After on 429 responses', async () => {
+    const onRetry = jest.fn();
+    const client = createClient(onRetry);
+    mockAxios
+      .onGet('/v1/user')
+      .replyOnce(429, {}, { 'retry-after': '0' })
+      .onGet('/v1/user')
+      .replyOnce(429, { message: 'Slow down' }, { 'retry-after': '3600' });
+
+    await expect(client.user.getCurrentUser()).rejects.toThrow();
+    // Retry-After of an hour exceeds maxDelayMs, so only one retry is made
+    expect(mockAxios.history.get.length).toBe(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies to BeepPublicClient widget requests', async () => {
+    const client = new BeepPublicClient({
+      publishableKey: 'beep_pk_test',
+      retry: { baseDelayMs: 1, jitter: 'none' },
+    });
+    mockAxios
+      .onGet('/v1/widget/environment')
+      .replyOnce(503)
+      .onGet('/v1/widget/environment')
+      .replyOnce(200, { environmentId: 'env_1' });
+
+    await expect(client.widget.getDynamicEnv()).resolves.toEqual({ environmentId: 'env_1' });
+  });
+
+  it('stops waiting for the next attempt when the request is aborted', async () => {
+    const instance = axios.create();
+    createRetryInterceptor(instance, { baseDelayMs: 60_000, jitter: 'none' });
+    mockAxios.onGet('/v1/invoices').reply(503);
+    const controller = new AbortController();
+
+    const pending = instance.get('/v1/invoices', { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: BeepErrorCode.REQUEST_ABORTED });
+    expect(mockAxios.history.get.length).toBe(1);
+  });
+
+  describe('computeRetryDelay', () => {
+    it('grows exponentially and caps at maxDelayMs', () => {
+      const options = { baseDelayMs: 100, maxDelayMs: 500, jitter: 'none' as const };
+      expect(computeRetryDelay(1, options)).toBe(100);
+      expect(computeRetryDelay(2, options)).toBe(200);
+      expect(computeRetryDelay(4, options)).toBe(500);
+    });
+
+    it('keeps jittered delays within bounds', () => {
+      for (let i = 0; i < 20; i++) {
+        const full = computeRetryDelay(3, { baseDelayMs: 100, jitter: 'full' });
+        const equal = computeRetryDelay(3, { baseDelayMs: 100, jitter: 'equal' });
+        expect(full).toBeGreaterThanOrEqual(0);
+        expect(full).toBeLessThan(400);
+        expect(equal).toBeGreaterThanOrEqual(200);
+        expect(equal).toBeLessThan(400);
+      }
+    });
+  });
+});
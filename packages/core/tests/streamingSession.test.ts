@@ -0,0 +1,436 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  BeepClient,
+  BeepError,
+  BeepErrorCode,
+  StreamingSession,
+  StreamingSessionPolicy,
+  isStreamingActive,
+  isStreamingEnded,
+  isStreamingPaused,
+  validateStreamingPolicy,
+} from '../src';
+
+describe('StreamingSession', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  const createSession = () =>
+    client.payments.createStreamingSession({
+      assetChunks: [{ assetId: 'asset_1', quantity: 1 }],
+      payingMerchantId: 'merchant_1',
+    });
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+    mockAxios
+      .onPost('/v1/invoices/issue-payment')
+      .reply(200, { invoiceId: 'inv_1', referenceKey: 'ref_1' });
+    mockAxios.onPost('/v1/invoices/start').reply(200, { invoiceId: 'inv_1' });
+    mockAxios.onPost('/v1/invoices/pause').reply(200, { success: true });
+    mockAxios
+      .onPost('/v1/invoices/stop')
+      .reply(200, { invoiceId: 'inv_1', referenceKeys: ['ref_a', 'ref_b'] });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('walks the full lifecycle and emits state changes', async () => {
+    const session = await createSession();
+    const changes: string[] = [];
+    session.on('stateChange', ({ from, to }) => changes.push(`${from}->${to}`));
+
+    expect(session).toBeInstanceOf(StreamingSession);
+    expect(session.invoiceId).toBe('inv_1');
+    expect(session.referenceKey).toBe('ref_1');
+    expect(session.state).toBe('issued');
+
+    await session.start();
+    await session.pause();
+    await session.resume();
+    const stopped = await session.stop();
+
+    expect(changes).toEqual([
+      'issued->streaming',
+      'streaming->paused',
+      'paused->streaming',
+      'streaming->stopped',
+    ]);
+    expect(stopped.referenceKeys).toEqual(['ref_a', 'ref_b']);
+    expect(session.referenceKeys).toEqual(['ref_a', 'ref_b']);
+    expect(mockAxios.history.post.map((r) => r.url)).toEqual([
+      '/v1/invoices/issue-payment',
+      '/v1/invoices/start',
+      '/v1/invoices/pause',
+      '/v1/invoices/start',
+      '/v1/invoices/stop',
+    ]);
+    expect(mockAxios.history.post.slice(1).map((r) => JSON.parse(r.data))).toEqual(
+      Array(4).fill({ invoiceId: 'inv_1' }),
+    );
+  });
+
+  it('rejects illegal transitions without calling the API', async () => {
+    const session = await createSession();
+    mockAxios.resetHistory();
+
+    await expect(session.pause()).rejects.toMatchObject({
+      code: BeepErrorCode.INVALID_STATE_TRANSITION,
+    });
+    await expect(session.resume()).rejects.toBeInstanceOf(BeepError);
+    expect(session.can('start')).toBe(true);
+
+    await session.stop();
+    for (const action of ['start', 'pause', 'resume', 'stop'] as const) {
+      expect(session.can(action)).toBe(false);
+      await expect(session[action]()).rejects.toMatchObject({
+        code: BeepErrorCode.INVALID_STATE_TRANSITION,
+      });
+    }
+    expect(mockAxios.history.post.map((r) => r.url)).toEqual(['/v1/invoices/stop']);
+  });
+
+  it('rejects a second transition while one is in flight', async () => {
+    const session = await createSession();
+
+    const starting = session.start();
+    await expect(session.stop()).rejects.toThrow(/while start is in progress/);
+    await starting;
+
+    expect(session.state).toBe('streaming');
+  });
+
+  it('keeps the state and emits error when the API call fails', async () => {
+    mockAxios.onPost('/v1/invoices/start').reply(500, { message: 'boom' });
+    const session = await createSession();
+    const onError = jest.fn();
+    session.on('error', onError);
+
+    await expect(session.start()).rejects.toBeInstanceOf(BeepError);
+
+    expect(session.state).toBe('issued');
+    expect(onError).toHaveBeenCalledWith({ action: 'start', error: expect.any(BeepError) });
+  });
+
+  it('runs transition hooks before the API call and cancels the transition when one throws', async () => {
+    const session = await createSession();
+    mockAxios.resetHistory();
+    const seen: string[] = [];
+    const remove = session.addTransitionHook(({ from, to, action }) => {
+      seen.push(`${action}:${from}->${to}:${session.state}:${mockAxios.history.post.length}`);
+    });
+
+    await session.start();
+    remove();
+    session.addTransitionHook(() => Promise.reject(new Error('flush failed')));
+    await expect(session.pause()).rejects.toBeInstanceOf(BeepError);
+
+    expect(seen).toEqual(['start:issued->streaming:issued:0']);
+    expect(session.state).toBe('streaming');
+    expect(mockAxios.history.post.map((r) => r.url)).toEqual(['/v1/invoices/start']);
+  });
+
+  it('treats an unsuccessful pause as a failed transition', async () => {
+    mockAxios.onPost('/v1/invoices/pause').reply(200, { success: false });
+    const session = await createSession();
+    await session.start();
+
+    await expect(session.pause()).rejects.toMatchObject({
+      code: BeepErrorCode.INVALID_STATE_TRANSITION,
+    });
+    expect(session.state).toBe('streaming');
+  });
+
+  it('can be rebuilt for an existing invoice in a known state', async () => {
+    const session = new StreamingSession({
+      payments: client.payments,
+      invoiceId: 'inv_1',
+      state: 'paused',
+    });
+    const onResumed = jest.fn();
+    session.once('resumed', onResumed);
+
+    await session.resume();
+
+    expect(session.state).toBe('streaming');
+    expect(onResumed).toHaveBeenCalledWith({ invoiceId: 'inv_1' });
+  });
+
+  it('isolates listener failures from the session', async () => {
+    const session = await createSession();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const after = jest.fn();
+    session.on('started', () => {
+      throw new Error('listener bug');
+    });
+    session.on('started', after);
+
+    await expect(session.start()).resolves.toEqual({ invoiceId: 'inv_1' });
+
+    expect(after).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('Streaming status', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  const status = (overrides: Record<string, unknown> = {}) => ({
+    sessionId: 'ss_1',
+    invoiceId: 'inv_1',
+    status: 'active',
+    createdAt: '2024-06-01T00:00:00Z',
+    lastActivityAt: '2024-06-01T00:05:00Z',
+    currentCharges: '1.25',
+    estimatedRemainingMinutes: 42,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('getStreamingStatus returns charges and remaining time', async () => {
+    mockAxios.onPost('/v1/invoices/streaming-status').reply(200, status());
+
+    const result = await client.payments.getStreamingStatus({ invoiceId: 'inv_1' });
+
+    expect(isStreamingActive(result)).toBe(true);
+    expect(result.currentCharges).toBe('1.25');
+    expect(result.estimatedRemainingMinutes).toBe(42);
+    expect(JSON.parse(mockAxios.history.post[0].data)).toEqual({ invoiceId: 'inv_1' });
+  });
+
+  it('listStreamingSessions sends filters and unwraps paginated responses', async () => {
+    mockAxios.onGet('/v1/invoices/streaming-sessions').reply(200, {
+      data: [status(), status({ sessionId: 'ss_2', status: 'paused' })],
+      pagination: {},
+    });
+
+    const result = await client.payments.listStreamingSessions({
+      status: ['active', 'paused'],
+      payingMerchantId: 'merchant_1',
+      limit: 50,
+    });
+
+    expect(result.map(isStreamingPaused)).toEqual([false, true]);
+    expect(result.some(isStreamingEnded)).toBe(false);
+    expect(mockAxios.history.get[0].params).toEqual({
+      status: 'active,paused',
+      payingMerchantId: 'merchant_1',
+      limit: 50,
+    });
+  });
+});
+
+describe('StreamingSession policy', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+
+  const status = (overrides: Record<string, unknown> = {}) => ({
+    sessionId: 'ss_1',
+    invoiceId: 'inv_1',
+    status: 'active',
+    createdAt: '2024-06-01T00:00:00Z',
+    lastActivityAt: new Date().toISOString(),
+    currentCharges: '1.00',
+    ...overrides,
+  });
+
+  const startSession = async (policy: StreamingSessionPolicy) => {
+    const session = await client.payments.createStreamingSession(
+      { assetChunks: [{ assetId: 'asset_1', quantity: 1 }], payingMerchantId: 'merchant_1' },
+      { policy },
+    );
+    await session.start();
+    return session;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+    mockAxios
+      .onPost('/v1/invoices/issue-payment')
+      .reply(200, { invoiceId: 'inv_1', referenceKey: 'ref_1' });
+    mockAxios.onPost('/v1/invoices/start').reply(200, { invoiceId: 'inv_1' });
+    mockAxios.onPost('/v1/invoices/pause').reply(200, { success: true });
+    mockAxios.onPost('/v1/invoices/stop').reply(200, { invoiceId: 'inv_1', referenceKeys: [] });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+    jest.useRealTimers();
+  });
+
+  it('stops the session once charges reach the cap', async () => {
+    mockAxios
+      .onPost('/v1/invoices/streaming-status')
+      .replyOnce(200, status({ currentCharges: '24.99' }))
+      .onPost('/v1/invoices/streaming-status')
+      .reply(200, status({ currentCharges: '25.000001' }));
+    const session = await startSession({ maxTotalCharge: '25', checkIntervalMs: 1000 });
+    const onLimit = jest.fn();
+    session.on('limitReached', onLimit);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(session.state).toBe('streaming');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(session.state).toBe('stopped');
+    expect(onLimit).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 'maxTotalCharge', action: 'stop' }),
+    );
+    expect(onLimit.mock.calls[0][0].message).toMatch(/25\.000001.*cap of 25/);
+
+    // No more checks once stopped
+    const checks = mockAxios.history.post.length;
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(mockAxios.history.post).toHaveLength(checks);
+  });
+
+  it('pauses at the maximum duration, counting only time spent streaming', async () => {
+    const session = await startSession({
+      maxDurationMs: 10_000,
+      action: 'pause',
+      checkIntervalMs: 60_000,
+    });
+    const reasons: string[] = [];
+    session.on('limitReached', ({ limit }) => reasons.push(limit));
+
+    await jest.advanceTimersByTimeAsync(6000);
+    await session.pause();
+    await jest.advanceTimersByTimeAsync(30_000);
+    await session.resume();
+    await jest.advanceTimersByTimeAsync(3999);
+    expect(session.state).toBe('streaming');
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(session.state).toBe('paused');
+    expect(reasons).toEqual(['maxDuration']);
+    expect(session.streamingDurationMs).toBe(10_000);
+    expect(mockAxios.history.post.filter((r) => r.url === '/v1/invoices/streaming-status')).toEqual(
+      [],
+    );
+  });
+
+  it('stops at the maximum duration while a status check is still loading', async () => {
+    mockAxios
+      .onPost('/v1/invoices/streaming-status')
+      .reply(() => new Promise((resolve) => setTimeout(() => resolve([200, status()]), 5000)));
+    const session = await startSession({
+      maxTotalCharge: '25',
+      maxDurationMs: 1500,
+      checkIntervalMs: 1000,
+    });
+    const onLimit = jest.fn();
+    session.on('limitReached', onLimit);
+
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(session.state).toBe('stopped');
+    expect(onLimit).toHaveBeenCalledWith(expect.objectContaining({ limit: 'maxDuration' }));
+
+    // The slow check finishes without acting on the stopped session
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(onLimit).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops an idle session, using server and local activity', async () => {
+    let lastActivityAt = new Date().toISOString();
+    mockAxios
+      .onPost('/v1/invoices/streaming-status')
+      .reply(() => [200, status({ lastActivityAt })]);
+    const session = await startSession({ idleTimeoutMs: 5000, checkIntervalMs: 1000 });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    lastActivityAt = new Date().toISOString(); // server saw traffic
+    await jest.advanceTimersByTimeAsync(3000);
+    session.markActivity();
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(session.state).toBe('streaming');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(session.state).toBe('stopped');
+  });
+
+  it('reports status failures and keeps checking', async () => {
+    mockAxios
+      .onPost('/v1/invoices/streaming-status')
+      .replyOnce(500)
+      .onPost('/v1/invoices/streaming-status')
+      .reply(200, status({ currentCharges: '30' }));
+    const session = await startSession({ maxTotalCharge: '25', checkIntervalMs: 1000 });
+    const onError = jest.fn();
+    session.on('error', onError);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onError).toHaveBeenCalledWith({ action: 'checkPolicy', error: expect.any(BeepError) });
+    expect(session.state).toBe('streaming');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(session.state).toBe('stopped');
+  });
+
+  it('pauses once the status fails to load maxFailedChecks times in a row', async () => {
+    mockAxios
+      .onPost('/v1/invoices/streaming-status')
+      .replyOnce(500)
+      .onPost('/v1/invoices/streaming-status')
+      .replyOnce(200, status())
+      .onPost('/v1/invoices/streaming-status')
+      .reply(503);
+    const session = await startSession({
+      maxTotalCharge: '25',
+      checkIntervalMs: 1000,
+      maxFailedChecks: 2,
+    });
+    const onLimit = jest.fn();
+    session.on('limitReached', onLimit);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(session.state).toBe('streaming');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(session.state).toBe('paused');
+    expect(onLimit).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 'statusUnavailable', action: 'pause' }),
+    );
+  });
+
+  it('reports unexpected check failures through the error event', async () => {
+    mockAxios
+      .onPost('/v1/invoices/streaming-status')
+      .reply(200, status({ currentCharges: 'not-a-number' }));
+    const session = await startSession({ maxTotalCharge: '25', checkIntervalMs: 1000 });
+    const onError = jest.fn();
+    session.on('error', onError);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(onError).toHaveBeenCalledWith({ action: 'checkPolicy', error: expect.any(BeepError) });
+    expect(session.state).toBe('streaming');
+  });
+
+  it('rejects malformed policies before issuing', async () => {
+    await expect(
+      client.payments.createStreamingSession(
+        { assetChunks: [], payingMerchantId: 'merchant_1' },
+        { policy: { maxTotalCharge: 'lots' } },
+      ),
+    ).rejects.toMatchObject({ code: BeepErrorCode.INVALID_AMOUNT });
+    expect(() => validateStreamingPolicy({ idleTimeoutMs: 0 })).toThrow(/idleTimeoutMs/);
+    expect(() => validateStreamingPolicy({ maxFailedChecks: 1.5 })).toThrow(/maxFailedChecks/);
+    expect(mockAxios.history.post).toHaveLength(0);
+  });
+});
@@ -0,0 +1,168 @@
+import * as otel from '@opentelemetry/api';
+import { context, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient, BeepErrorCode, BeepPublicClient, BeepTelemetryAttributes } from '../src';
+
+describe('OpenTelemetry instrumentation', () => {
+  let mockAxios: MockAdapter;
+  let exporter: InMemorySpanExporter;
+  let tracerProvider: BasicTracerProvider;
+  let metricReader: PeriodicExportingMetricReader;
+  let meterProvider: MeterProvider;
+  const contextManager = new AsyncLocalStorageContextManager();
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    exporter = new InMemorySpanExporter();
+    tracerProvider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)],
+    });
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE),
+      exportIntervalMillis: 60_000,
+    });
+    meterProvider = new MeterProvider({ readers: [metricReader] });
+  });
+
+  afterEach(async () => {
+    mockAxios.restore();
+    await meterProvider.shutdown();
+  });
+
+  const createClient = (retry = false) =>
+    new BeepClient({
+      apiKey: 'test-api-key',
+      telemetry: { api: otel, tracerProvider, meterProvider },
+      retry: retry && { baseDelayMs: 1, jitter: 'none' },
+    });
+
+  const collectMetric = async (name: string) => {
+    const { resourceMetrics } = await metricReader.collect();
+    return resourceMetrics.scopeMetrics
+      .flatMap((scope) => scope.metrics)
+      .find((metric) => metric.descriptor.name === name);
+  };
+
+  it('wraps module methods in a span with a child span per HTTP request', async () => {
+    mockAxios.onPost('/v1/payouts').reply(200, { payoutId: 'po_1', status: 'accepted' });
+
+    await createClient().payments.createPayout({
+      amount: '1',
+      destinationWalletAddress: `0x${'a'.repeat(64)}`,
+      chain: 'SUI',
+      token: 'USDC',
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const operation = spans.find((span) => span.name === 'beep.payments.createPayout')!;
+    const request = spans.find((span) => span.name === 'POST /v1/payouts')!;
+
+    expect(operation.attributes).toMatchObject({
+      [BeepTelemetryAttributes.OPERATION]: 'payments.createPayout',
+      [BeepTelemetryAttributes.ENDPOINT]: '/v1/payouts',
+      [BeepTelemetryAttributes.HTTP_STATUS_CODE]: 200,
+      [BeepTelemetryAttributes.RETRY_COUNT]: 0,
+    });
+    expect(request.kind).toBe(SpanKind.CLIENT);
+    expect(request.parentSpanContext?.spanId).toBe(operation.spanContext().spanId);
+  });
+
+  it('records the error code, status and retry count of failed operations', async () => {
+    mockAxios.onGet('/v1/invoices/inv_1').reply(503, { message: 'Down' });
+
+    await expect(createClient(true).invoices.getInvoice('inv_1')).rejects.toThrow('Down');
+
+    const spans = exporter.getFinishedSpans();
+    const operation = spans.find((span) => span.name === 'beep.invoices.getInvoice')!;
+    expect(operation.status.code).toBe(SpanStatusCode.ERROR);
+    expect(operation.attributes).toMatchObject({
+      [BeepTelemetryAttributes.ERROR_CODE]: BeepErrorCode.SERVER_ERROR,
+      [BeepTelemetryAttributes.HTTP_STATUS_CODE]: 503,
+      [BeepTelemetryAttributes.RETRY_COUNT]: 2,
+    });
+    const requests = spans.filter((span) => span.name === 'GET /v1/invoices/{id}');
+    expect(requests).toHaveLength(3);
+    expect(requests[0].attributes).toMatchObject({
+      [BeepTelemetryAttributes.HTTP_ROUTE]: '/v1/invoices/{id}',
+      [BeepTelemetryAttributes.ENDPOINT]: '/v1/invoices/inv_1',
+    });
+
+    const errors = await collectMetric('beep.client.operation.errors');
+    expect(errors?.dataPoints[0]).toMatchObject({
+      value: 1,
+      attributes: {
+        [BeepTelemetryAttributes.OPERATION]: 'invoices.getInvoice',
+        [BeepTelemetryAttributes.ERROR_CODE]: BeepErrorCode.SERVER_ERROR,
+      },
+    });
+  });
+
+  it('tags reference keys and records latency histograms', async () => {
+    const client = new BeepPublicClient({
+      publishableKey: 'beep_pk_test',
+      telemetry: { api: otel, tracerProvider, meterProvider },
+    });
+    mockAxios.onGet('/v1/widget/payment-status/ref_1').reply(200, { paid: true });
+
+    await client.widget.waitForPaid({ referenceKey: 'ref_1' });
+
+    const operation = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === 'beep.widget.waitForPaid')!;
+    expect(operation.attributes[BeepTelemetryAttributes.REFERENCE_KEY]).toBe('ref_1');
+    expect(exporter.getFinishedSpans().map((span) => span.name)).toContain(
+      'GET /v1/widget/payment-status/{referenceKey}',
+    );
+
+    const duration = await collectMetric('beep.client.request.duration');
+    expect(duration?.dataPoints[0].attributes).toEqual({
+      [BeepTelemetryAttributes.HTTP_METHOD]: 'GET',
+      [BeepTelemetryAttributes.HTTP_STATUS_CODE]: 200,
+    });
+  });
+
+  it('is a no-op without a registered OTel SDK', async () => {
+    const client = new BeepClient({ apiKey: 'test-api-key', telemetry: { api: otel } });
+    mockAxios.onGet('/v1/user').reply(200, { merchantId: 'm' });
+
+    await expect(client.user.getCurrentUser()).resolves.toEqual({ merchantId: 'm' });
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('traces the pages an iterator fetches rather than the iterator itself', async () => {
+    mockAxios.onGet('/v1/invoices').reply(200, []);
+
+    const invoices = createClient().invoices.iterate();
+    await invoices.next();
+
+    const names = exporter.getFinishedSpans().map((span) => span.name);
+    expect(names).toEqual(['GET /v1/invoices', 'beep.invoices.listInvoicesPage']);
+  });
+
+  it('requires the OTel API module', () => {
+    expect(() => new BeepClient({ apiKey: 'test-api-key', telemetry: {} as never })).toThrow(
+      expect.objectContaining({ code: BeepErrorCode.MISSING_PARAMETER }),
+    );
+  });
+});
@@ -1,9 +1,12 @@
-import { SupportedToken } from '../src/types';
-import { TokenUtils } from '../src/types/token';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { BeepClient, BeepErrorCode, BeepValidationError } from '../src';
+import { BlockchainNetwork, Money, SupportedToken } from '../src/types';
+import { TokenRegistry, TokenUtils, tokenRegistry } from '../src/types/token';
 
 describe('TokenUtils', () => {
   it('getTokenAddress returns correct address for USDC', () => {
-    const address = TokenUtils.getTokenAddress(SupportedToken.USDC);
+    const address = TokenUtils.getTokenAddress(SupportedToken.USDC, BlockchainNetwork.SOLANA);
     expect(address).toBe('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T');
   });
 
@@ -15,6 +18,19 @@ describe('TokenUtils', () => {
     expect(TokenUtils.isTokenSupported('NOT_REAL_TOKEN' as SupportedToken)).toBe(false);
   });
 
+  it('requires a chain to look up a token address', () => {
+    expect(() => TokenUtils.getTokenAddress(SupportedToken.USDC, undefined as never)).toThrow(
+      expect.objectContaining({ code: BeepErrorCode.MISSING_PARAMETER }),
+    );
+  });
+
+  it('getTokenDecimals falls back to the decimals shared by every chain', () => {
+    expect(TokenUtils.getTokenDecimals(SupportedToken.USDC)).toBe(6);
+    expect(() => TokenUtils.getTokenDecimals('NOT_REAL_TOKEN')).toThrow(
+      expect.objectContaining({ code: BeepErrorCode.INVALID_TOKEN }),
+    );
+  });
+
   it('getTokenFromAddress returns correct token for address', () => {
     const token = TokenUtils.getTokenFromAddress('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T');
     expect(token).toBe(SupportedToken.USDC);
@@ -28,4 +44,123 @@ describe('TokenUtils', () => {
   it('getDefaultToken returns USDC', () => {
     expect(TokenUtils.getDefaultToken()).toBe(SupportedToken.USDC);
   });
+
+  describe('multi-chain registry', () => {
+    afterEach(() => {
+      tokenRegistry.unregister('PYUSD', BlockchainNetwork.SOLANA);
+    });
+
+    it('resolves USDC per chain', () => {
+      expect(TokenUtils.getTokenAddress(SupportedToken.USDC, BlockchainNetwork.SUI)).toBe(
+        '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+      );
+      expect(TokenUtils.getTokenAddress(SupportedToken.USDC, 'base')).toBe(
+        '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      );
+      expect(TokenUtils.getTokenChains(SupportedToken.USDC)).toEqual([
+        BlockchainNetwork.SOLANA,
+        BlockchainNetwork.SUI,
+        BlockchainNetwork.BASE,
+      ]);
+    });
+
+    it('reverse-looks up addresses, case-insensitively for EVM', () => {
+      expect(TokenUtils.getTokenFromAddress('0x833589fcd6edb6e08f4c7c32d4f71b54bda02913')).toBe(
+        SupportedToken.USDC,
+      );
+      expect(
+        TokenUtils.getTokenFromAddress(
+          'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyB7u6T',
+          BlockchainNetwork.SUI,
+        ),
+      ).toBeNull();
+    });
+
+    it('throws a validation error for tokens not registered on a chain', () => {
+      try {
+        TokenUtils.getTokenAddress('PYUSD', BlockchainNetwork.SOLANA);
+        fail('expected lookup to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BeepValidationError);
+        expect((error as BeepValidationError).code).toBe(BeepErrorCode.INVALID_TOKEN);
+      }
+    });
+
+    it('registers custom tokens at runtime', () => {
+      TokenUtils.registerToken({
+        token: 'PYUSD',
+        chain: BlockchainNetwork.SOLANA,
+        address: '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo',
+        decimals: 6,
+        symbol: 'PYUSD',
+        explorerUrlTemplate: 'https://solscan.io/tx/{signature}',
+      });
+
+      expect(TokenUtils.isTokenRegistered('PYUSD')).toBe(true);
+      expect(TokenUtils.isTokenRegistered('PYUSD', BlockchainNetwork.SUI)).toBe(false);
+      expect(TokenUtils.isTokenSupported('PYUSD')).toBe(false);
+      expect(Money.parse('2.5', { token: 'PYUSD', chain: 'SOLANA' }).toBaseUnits()).toBe('2500000');
+      expect(
+        TokenUtils.getExplorerUrl({ token: 'pyusd', chain: 'solana', signature: 'abc123' }),
+      ).toBe('https://solscan.io/tx/abc123');
+    });
+
+    it('rejects incomplete definitions', () => {
+      const registry = new TokenRegistry();
+      expect(() =>
+        registry.register({ token: 'X', chain: 'SUI', address: '', decimals: 6, symbol: 'X' }),
+      ).toThrow(BeepValidationError);
+      expect(() =>
+        registry.register({ token: 'X', chain: 'SUI', address: '0x1', decimals: 1.5, symbol: 'X' }),
+      ).toThrow(BeepValidationError);
+    });
+  });
+
+  describe('explicit chain on API calls', () => {
+    let mockAxios: MockAdapter;
+    let client: BeepClient;
+
+    beforeEach(() => {
+      mockAxios = new MockAdapter(axios);
+      client = new BeepClient({ apiKey: 'test-api-key' });
+    });
+
+    afterEach(() => {
+      mockAxios.restore();
+    });
+
+    it('createProduct resolves the token address on the requested chain', async () => {
+      mockAxios.onPost('/v1/products').reply(200, { id: 'prod_1' });
+
+      await client.products.createProduct({
+        name: 'Sword',
+        price: '1.25',
+        token: SupportedToken.USDC,
+        chain: BlockchainNetwork.SUI,
+      });
+
+      const body = JSON.parse(mockAxios.history.post[0].data);
+      expect(body.chain).toBe('SUI');
+      expect(body.splTokenAddress).toBe(
+        TokenUtils.getTokenAddress(SupportedToken.USDC, BlockchainNetwork.SUI),
+      );
+      expect(body.price).toBe('1250000');
+    });
+
+    it('createInvoice resolves the token address on the requested chain', async () => {
+      mockAxios.onPost('/v1/invoices').reply(200, { id: 'inv_1' });
+
+      await client.invoices.createInvoice({
+        description: 'Consulting',
+        amount: '10',
+        token: SupportedToken.USDC,
+        chain: BlockchainNetwork.BASE,
+        payerType: 'customer_wallet',
+      });
+
+      const body = JSON.parse(mockAxios.history.post[0].data);
+      expect(body.splTokenAddress).toBe('0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913');
+      expect(body.chain).toBe('BASE');
+    });
+  });
 });
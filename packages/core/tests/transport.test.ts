@@ -0,0 +1,133 @@
+import axios from 'axios';
+import {
+  BeepClient,
+  BeepErrorCode,
+  BeepNetworkError,
+  BeepPublicClient,
+  createTransportAdapter,
+  FetchTransport,
+  HttpRequest,
+  HttpTransport,
+} from '../src';
+
+describe('HTTP transports', () => {
+  const jsonResponse = (
+    status: number,
+    options: { body: unknown; headers?: Record<string, string> },
+  ) =>
+    new Response(JSON.stringify(options.body), {
+      status,
+      headers: { 'content-type': 'application/json', ...options.headers },
+    });
+
+  describe('fetch transport', () => {
+    it('sends requests through fetch with auth headers and body', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(jsonResponse(200, { body: { id: 'prod_1' } }));
+      const client = new BeepClient({
+        apiKey: 'test-api-key',
+        serverUrl: 'https://test-api.beep.com',
+        transport: new FetchTransport({ fetch: fetchMock }),
+      });
+
+      const product = await client.products.updateProduct('prod_1', { name: 'Coffee' });
+
+      expect(product).toEqual({ id: 'prod_1' });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://test-api.beep.com/v1/products/prod_1');
+      expect(init.method).toBe('PUT');
+      expect(init.headers.Authorization).toBe('Bearer test-api-key');
+      expect(JSON.parse(init.body)).toEqual({ name: 'Coffee' });
+    });
+
+    it('uses the global fetch when selected by name', async () => {
+      const fetchSpy = jest
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue(jsonResponse(200, { body: { paid: true, status: 'PAID' } }));
+      const client = new BeepPublicClient({ publishableKey: 'beep_pk_test', transport: 'fetch' });
+
+      await expect(client.widget.getPaymentStatus('ref_1')).resolves.toEqual({
+        paid: true,
+        status: 'PAID',
+      });
+      expect(fetchSpy.mock.calls[0][0]).toBe(
+        'https://api.justbeep.it/v1/widget/payment-status/ref_1',
+      );
+
+      fetchSpy.mockRestore();
+    });
+
+    it('maps error responses to BeepErrors', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(
+        jsonResponse(400, {
+          body: { message: 'Bad amount' },
+          headers: { 'x-request-id': 'req_9' },
+        }),
+      );
+      const client = new BeepClient({
+        apiKey: 'test-api-key',
+        transport: new FetchTransport({ fetch: fetchMock }),
+      });
+
+      await expect(
+        client.invoices.createInvoice({ productId: 'prod_1', payerType: 'customer_wallet' }),
+      ).rejects.toMatchObject({
+        code: BeepErrorCode.INVALID_PARAMETER,
+        message: 'Bad amount',
+        requestId: 'req_9',
+      });
+    });
+
+    it('maps fetch failures to BeepNetworkError', async () => {
+      const fetchMock = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+      const client = new BeepClient({
+        apiKey: 'test-api-key',
+        transport: new FetchTransport({ fetch: fetchMock }),
+      });
+
+      await expect(client.user.getCurrentUser()).rejects.toBeInstanceOf(BeepNetworkError);
+    });
+  });
+
+  describe('custom transports', () => {
+    it('works with retries', async () => {
+      const requests: HttpRequest[] = [];
+      const statuses = [503, 200];
+      const transport: HttpTransport = {
+        request: async (request) => {
+          requests.push(request);
+          const status = statuses.shift()!;
+          return { status, headers: {}, body: JSON.stringify({ merchantId: 'm' }) };
+        },
+      };
+      const client = new BeepClient({
+        apiKey: 'test-api-key',
+        transport,
+        retry: { baseDelayMs: 1, jitter: 'none' },
+      });
+
+      await expect(client.user.getCurrentUser()).resolves.toEqual({ merchantId: 'm' });
+      expect(requests).toHaveLength(2);
+      expect(requests[0].method).toBe('GET');
+    });
+
+    it('aborts the transport on timeout and caller cancellation', async () => {
+      const transport: HttpTransport = {
+        request: (request) =>
+          new Promise((_, reject) => {
+            request.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          }),
+      };
+      const instance = axios.create({ adapter: createTransportAdapter(transport) });
+
+      await expect(instance.get('https://x.test', { timeout: 5 })).rejects.toMatchObject({
+        code: 'ECONNABORTED',
+      });
+
+      const controller = new AbortController();
+      const pending = instance.get('https://x.test', { signal: controller.signal });
+      controller.abort();
+      const error = await pending.catch((e) => e);
+      expect(axios.isCancel(error)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import {
+  BeepClient,
+  BeepErrorCode,
+  InMemoryUsageEventStore,
+  StreamingSession,
+  UsageMeter,
+} from '../src';
+import { UsageEvent } from '../src/types';
+
+describe('UsageMeter', () => {
+  let client: BeepClient;
+  let mockAxios: MockAdapter;
+  let session: StreamingSession;
+
+  const reported = () =>
+    mockAxios.history.post
+      .filter((r) => r.url === '/v1/invoices/usage')
+      .map((r) => JSON.parse(r.data) as { invoiceId: string; events: UsageEvent[] });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockAxios = new MockAdapter(axios);
+    client = new BeepClient({ apiKey: 'test-api-key' });
+    mockAxios.onPost('/v1/invoices/usage').reply(200, { accepted: 1 });
+    mockAxios.onPost('/v1/invoices/pause').reply(200, { success: true });
+    mockAxios.onPost('/v1/invoices/stop').reply(200, { invoiceId: 'inv_1', referenceKeys: [] });
+    session = new StreamingSession({
+      payments: client.payments,
+      invoiceId: 'inv_1',
+      state: 'streaming',
+    });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+    jest.useRealTimers();
+  });
+
+  it('flushes buffered events on the interval', async () => {
+    const meter = new UsageMeter({ payments: client.payments, flushIntervalMs: 1000 });
+
+    const event = await meter.record({
+      session,
+      assetId: 'llm-tokens',
+      quantity: 512,
+      metadata: { requestId: 'req_1' },
+    });
+    await meter.record({ session, assetId: 'api-calls', quantity: 1 });
+    expect(reported()).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(reported()).toEqual([
+      {
+        invoiceId: 'inv_1',
+        events: [event, expect.objectContaining({ assetId: 'api-calls', quantity: 1 })],
+      },
+    ]);
+    expect(event.metadata).toEqual({ requestId: 'req_1' });
+    await meter.close();
+  });
+
+  it('flushes once the batch size is reached and splits large backlogs', async () => {
+    const store = new InMemoryUsageEventStore();
+    const meter = new UsageMeter({
+      payments: client.payments,
+      store,
+      flushIntervalMs: 0,
+      maxBatchSize: 2,
+    });
+
+    await meter.record({ session, assetId: 'a', quantity: 1 });
+    expect(reported()).toHaveLength(0);
+    await meter.record({ session, assetId: 'a', quantity: 2 });
+    await meter.flush();
+
+    expect(reported().map((r) => r.events.length)).toEqual([2]);
+    expect(store.load()).toEqual([]);
+
+    // Events left behind by a previous process are sent in batches too
+    store.save(
+      [1, 2, 3].map((n) => ({
+        id: `old_${n}`,
+        invoiceId: 'inv_old',
+        assetId: 'a',
+        quantity: n,
+        timestamp: '2024-06-01T00:00:00Z',
+      })),
+    );
+    const result = await meter.flush();
+
+    expect(result).toEqual({ sent: 3, pending: 0 });
+    expect(reported().map((r) => [r.invoiceId, r.events.length])).toEqual([
+      ['inv_1', 2],
+      ['inv_old', 2],
+      ['inv_old', 1],
+    ]);
+  });
+
+  it('keeps events in the store when reporting fails and retries them later', async () => {
+    mockAxios.resetHandlers();
+    mockAxios
+      .onPost('/v1/invoices/usage')
+      .replyOnce(400, { message: 'bad' })
+      .onPost('/v1/invoices/usage')
+      .reply(200, { accepted: 1 });
+    const store = new InMemoryUsageEventStore();
+    const onError = jest.fn();
+    const meter = new UsageMeter({
+      payments: client.payments,
+      store,
+      flushIntervalMs: 0,
+      onError,
+    });
+
+    await meter.record({ session, assetId: 'a', quantity: 1 });
+    expect(await meter.flush()).toEqual({ sent: 0, pending: 1 });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ invoiceId: 'inv_1', events: [expect.any(Object)] }),
+    );
+    expect(store.load()).toHaveLength(1);
+
+    expect(await meter.flush()).toEqual({ sent: 1, pending: 0 });
+    expect(reported()[0].events[0].id).toBe(reported()[1].events[0].id);
+  });
+
+  it('flushes before the session pauses and then rejects usage', async () => {
+    const meter = new UsageMeter({ payments: client.payments, flushIntervalMs: 0 });
+    await meter.record({ session, assetId: 'a', quantity: 1 });
+
+    const pausing = session.pause();
+    await expect(meter.record({ session, assetId: 'a', quantity: 1 })).rejects.toMatchObject({
+      code: BeepErrorCode.STREAMING_SESSION_INACTIVE,
+    });
+    await pausing;
+
+    expect(mockAxios.history.post.map((r) => r.url)).toEqual([
+      '/v1/invoices/usage',
+      '/v1/invoices/pause',
+    ]);
+    expect(reported()).toHaveLength(1);
+    await expect(meter.record({ session, assetId: 'a', quantity: 1 })).rejects.toMatchObject({
+      code: BeepErrorCode.STREAMING_SESSION_INACTIVE,
+    });
+
+    await session.stop();
+    await expect(meter.record({ session, assetId: 'a', quantity: 1 })).rejects.toMatchObject({
+      code: BeepErrorCode.STREAMING_SESSION_INACTIVE,
+    });
+  });
+
+  it('starts flushing events a durable store kept from an earlier run', async () => {
+    const store = new InMemoryUsageEventStore();
+    store.save([
+      {
+        id: 'evt_1',
+        invoiceId: 'inv_1',
+        assetId: 'a',
+        quantity: 1,
+        timestamp: '2024-06-01T00:00:00.000Z',
+      },
+    ]);
+    new UsageMeter({ payments: client.payments, store, flushIntervalMs: 1000 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(reported()).toEqual([
+      { invoiceId: 'inv_1', events: [expect.objectContaining({ id: 'evt_1' })] },
+    ]);
+    expect(store.load()).toEqual([]);
+  });
+
+  it('validates usage before storing it', async () => {
+    const store = new InMemoryUsageEventStore();
+    const meter = new UsageMeter({ payments: client.payments, store, flushIntervalMs: 0 });
+
+    await expect(meter.record({ session, assetId: '', quantity: 1 })).rejects.toMatchObject({
+      code: BeepErrorCode.MISSING_PARAMETER,
+    });
+    await expect(meter.record({ session, assetId: 'a', quantity: 0 })).rejects.toMatchObject({
+      code: BeepErrorCode.INVALID_PARAMETER,
+    });
+    await expect(meter.record({ session, assetId: 'a', quantity: NaN })).rejects.toMatchObject({
+      code: BeepErrorCode.INVALID_PARAMETER,
+    });
+    expect(store.load()).toEqual([]);
+  });
+
+  it('close stops the timer and sends what is left', async () => {
+    const meter = new UsageMeter({ payments: client.payments, flushIntervalMs: 1000 });
+    await meter.record({ session, assetId: 'a', quantity: 1 });
+
+    expect(await meter.close()).toEqual({ sent: 1, pending: 0 });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
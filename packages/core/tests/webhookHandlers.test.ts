@@ -0,0 +1,213 @@
+import {
+  BeepError,
+  BeepWebhooks,
+  createExpressWebhookHandler,
+  createFastifyWebhookHandler,
+  createNextWebhookHandler,
+  createWebhookProcessor,
+  InMemoryWebhookEventStore,
+} from '../src';
+import { WebhookEventType } from '../src/types';
+
+describe('Webhook handlers', () => {
+  const secret = 'whsec_test_secret';
+  const rawBody = JSON.stringify({
+    id: 'evt_123',
+    type: WebhookEventType.INVOICE_EXPIRED,
+    timestamp: '2025-01-01T00:00:00Z',
+    data: { invoiceId: 'inv_123', expiredAt: '2025-01-01T00:00:00Z' },
+  });
+  let signatureHeader: string;
+
+  beforeEach(async () => {
+    signatureHeader = await BeepWebhooks.generateSignatureHeader({ payload: rawBody, secret });
+  });
+
+  describe('createWebhookProcessor', () => {
+    it('dispatches to the handler named after the event type', async () => {
+      const onInvoiceExpired = jest.fn();
+      const onPaymentCompleted = jest.fn();
+      const onEvent = jest.fn();
+      const processDelivery = createWebhookProcessor({
+        secret,
+        onInvoiceExpired,
+        onPaymentCompleted,
+        onEvent,
+      });
+
+      const result = await processDelivery({ rawBody, signatureHeader });
+
+      expect(result).toEqual({ status: 200, body: { received: true } });
+      expect(onInvoiceExpired).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ invoiceId: 'inv_123' }) }),
+      );
+      expect(onPaymentCompleted).not.toHaveBeenCalled();
+      expect(onEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('acknowledges duplicate deliveries without calling handlers again', async () => {
+      const onInvoiceExpired = jest.fn();
+      const processDelivery = createWebhookProcessor({ secret, onInvoiceExpired });
+
+      await processDelivery({ rawBody, signatureHeader });
+      const result = await processDelivery({ rawBody, signatureHeader });
+
+      expect(result).toEqual({ status: 200, body: { received: true, duplicate: true } });
+      expect(onInvoiceExpired).toHaveBeenCalledTimes(1);
+    });
+
+    it('responds 500 and does not record the event when a handler throws', async () => {
+      const store = new InMemoryWebhookEventStore();
+      const onError = jest.fn();
+      const processDelivery = createWebhookProcessor({
+        secret,
+        store,
+        onError,
+        onInvoiceExpired: () => {
+          throw new Error('database down');
+        },
+      });
+
+      const result = await processDelivery({ rawBody, signatureHeader });
+
+      expect(result.status).toBe(500);
+      expect(store.claim('evt_123')).toBe(true);
+      expect(onError).toHaveBeenCalled();
+    });
+
+    it('handles concurrent duplicate deliveries once', async () => {
+      let finish = () => {};
+      const onInvoiceExpired = jest.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+      const processDelivery = createWebhookProcessor({ secret, onInvoiceExpired });
+
+      const first = processDelivery({ rawBody, signatureHeader });
+      const second = await processDelivery({ rawBody, signatureHeader });
+      finish();
+
+      expect(second.body.duplicate).toBe(true);
+      await expect(first).resolves.toEqual({ status: 200, body: { received: true } });
+      expect(onInvoiceExpired).toHaveBeenCalledTimes(1);
+    });
+
+    it('responds 400 for invalid signatures', async () => {
+      const processDelivery = createWebhookProcessor({ secret });
+
+      await expect(
+        processDelivery({
+          rawBody,
+          signatureHeader: signatureHeader.replace(/v1=\w+/, `v1=${'0'.repeat(64)}`),
+        }),
+      ).resolves.toMatchObject({ status: 400 });
+    });
+
+    it('responds 500 when the raw body is unavailable so BEEP retries', async () => {
+      const onError = jest.fn();
+      const processDelivery = createWebhookProcessor({ secret, onError });
+
+      await expect(processDelivery({ rawBody: undefined, signatureHeader })).resolves.toEqual({
+        status: 500,
+        body: {
+          received: false,
+          error: 'Raw request body unavailable; mount the handler behind a raw body parser',
+        },
+      });
+      expect(onError).toHaveBeenCalledWith(expect.any(BeepError));
+    });
+
+    it('still responds when onError throws', async () => {
+      const processDelivery = createWebhookProcessor({
+        secret,
+        onError: () => {
+          throw new Error('logger down');
+        },
+        onInvoiceExpired: () => {
+          throw new Error('database down');
+        },
+      });
+
+      await expect(processDelivery({ rawBody: undefined, signatureHeader })).resolves.toMatchObject(
+        { status: 500 },
+      );
+      await expect(processDelivery({ rawBody, signatureHeader })).resolves.toMatchObject({
+        status: 500,
+      });
+    });
+  });
+
+  describe('InMemoryWebhookEventStore', () => {
+    it('evicts the oldest IDs once full', () => {
+      const store = new InMemoryWebhookEventStore(2);
+      store.claim('a');
+      store.claim('b');
+      store.claim('c');
+
+      expect(store.claim('a')).toBe(true);
+      expect(store.claim('c')).toBe(false);
+    });
+
+    it('claims each ID once until it is released', () => {
+      const store = new InMemoryWebhookEventStore();
+
+      expect(store.claim('a')).toBe(true);
+      expect(store.claim('a')).toBe(false);
+      store.release('a');
+      expect(store.claim('a')).toBe(true);
+    });
+  });
+
+  describe('framework adapters', () => {
+    it('createExpressWebhookHandler reads the raw Buffer body and header', async () => {
+      const onInvoiceExpired = jest.fn();
+      const handler = createExpressWebhookHandler({ secret, onInvoiceExpired });
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+
+      await handler(
+        { headers: { 'x-beep-signature': signatureHeader }, body: Buffer.from(rawBody) },
+        res,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ received: true });
+      expect(onInvoiceExpired).toHaveBeenCalled();
+    });
+
+    it('createExpressWebhookHandler answers 500 for an already-parsed body', async () => {
+      const handler = createExpressWebhookHandler({ secret });
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+
+      await handler(
+        { headers: { 'x-beep-signature': signatureHeader }, body: JSON.parse(rawBody) },
+        res,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(500);
+    });
+
+    it('createFastifyWebhookHandler prefers request.rawBody', async () => {
+      const handler = createFastifyWebhookHandler({ secret });
+      const reply = { code: jest.fn().mockReturnThis(), send: jest.fn() };
+
+      await handler(
+        { headers: { 'x-beep-signature': signatureHeader }, body: JSON.parse(rawBody), rawBody },
+        reply,
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(200);
+    });
+
+    it('createNextWebhookHandler returns a JSON Response', async () => {
+      const handler = createNextWebhookHandler({ secret });
+
+      const response = await handler(
+        new Request('https://merchant.example.com/api/webhooks/beep', {
+          method: 'POST',
+          headers: { 'x-beep-signature': signatureHeader },
+          body: rawBody,
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toEqual({ received: true });
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  BeepErrorCode,
+  BeepValidationError,
+  BeepWebhooks,
+  BeepWebhookSignatureError,
+} from '../src';
+import { WebhookEventType } from '../src/types';
+
+describe('BeepWebhooks', () => {
+  const secret = 'whsec_test_secret';
+  const event = {
+    id: 'evt_123',
+    type: WebhookEventType.PAYMENT_COMPLETED,
+    timestamp: '2025-01-01T00:00:00Z',
+    data: {
+      referenceKey: 'ref_123',
+      amount: '10.50',
+      completedAt: '2025-01-01T00:00:00Z',
+    },
+  };
+  const rawBody = JSON.stringify(event);
+
+  describe('constructEvent', () => {
+    it('returns the typed event when the signature is valid', async () => {
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({
+        payload: rawBody,
+        secret,
+      });
+
+      const result = await BeepWebhooks.constructEvent({ rawBody, signatureHeader, secret });
+
+      expect(result.type).toBe(WebhookEventType.PAYMENT_COMPLETED);
+      if (result.type === WebhookEventType.PAYMENT_COMPLETED) {
+        expect(result.data.referenceKey).toBe('ref_123');
+      }
+    });
+
+    it('accepts a Uint8Array body', async () => {
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({
+        payload: rawBody,
+        secret,
+      });
+
+      const result = await BeepWebhooks.constructEvent({
+        rawBody: new TextEncoder().encode(rawBody),
+        signatureHeader,
+        secret,
+      });
+
+      expect(result.id).toBe('evt_123');
+    });
+
+    it('accepts any matching v1 signature for secret rotation', async () => {
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({
+        payload: rawBody,
+        secret,
+      });
+      const rotated = signatureHeader.replace(',v1=', `,v1=${'0'.repeat(64)},v1=`);
+
+      await expect(
+        BeepWebhooks.constructEvent({ rawBody, signatureHeader: rotated, secret }),
+      ).resolves.toBeDefined();
+    });
+
+    it('rejects a signature made with another secret', async () => {
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({
+        payload: rawBody,
+        secret: 'another_secret',
+      });
+
+      const promise = BeepWebhooks.constructEvent({ rawBody, signatureHeader, secret });
+
+      await expect(promise).rejects.toBeInstanceOf(BeepWebhookSignatureError);
+      await expect(promise).rejects.toMatchObject({
+        code: BeepErrorCode.INVALID_WEBHOOK_SIGNATURE,
+      });
+    });
+
+    it('rejects a tampered body', async () => {
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({
+        payload: rawBody,
+        secret,
+      });
+
+      await expect(
+        BeepWebhooks.constructEvent({
+          rawBody: rawBody.replace('10.50', '1000.50'),
+          signatureHeader,
+          secret,
+        }),
+      ).rejects.toBeInstanceOf(BeepWebhookSignatureError);
+    });
+
+    it('rejects missing and malformed headers', async () => {
+      await expect(
+        BeepWebhooks.constructEvent({ rawBody, signatureHeader: undefined, secret }),
+      ).rejects.toThrow('Missing x-beep-signature header');
+      await expect(
+        BeepWebhooks.constructEvent({ rawBody, signatureHeader: 'garbage', secret }),
+      ).rejects.toThrow('Malformed x-beep-signature header');
+    });
+
+    it('rejects timestamps outside the tolerance window', async () => {
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({
+        payload: rawBody,
+        secret,
+        timestamp: Math.floor(Date.now() / 1000) - 600,
+      });
+
+      await expect(
+        BeepWebhooks.constructEvent({ rawBody, signatureHeader, secret }),
+      ).rejects.toMatchObject({ code: BeepErrorCode.WEBHOOK_TIMESTAMP_OUT_OF_TOLERANCE });
+
+      await expect(
+        BeepWebhooks.constructEvent({ rawBody, signatureHeader, secret, toleranceSeconds: 0 }),
+      ).resolves.toBeDefined();
+    });
+
+    it('rejects unknown event types after verifying the signature', async () => {
+      const body = JSON.stringify({ ...event, type: 'unknown.event' });
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({ payload: body, secret });
+
+      await expect(
+        BeepWebhooks.constructEvent({ rawBody: body, signatureHeader, secret }),
+      ).rejects.toBeInstanceOf(BeepValidationError);
+    });
+
+    it.each([
+      { name: 'a JSON array', body: '[]' },
+      { name: 'a payload without data', body: JSON.stringify({ ...event, data: null }) },
+    ])('rejects $name', async ({ body }) => {
+      const signatureHeader = await BeepWebhooks.generateSignatureHeader({ payload: body, secret });
+
+      await expect(
+        BeepWebhooks.constructEvent({ rawBody: body, signatureHeader, secret }),
+      ).rejects.toBeInstanceOf(BeepValidationError);
+    });
+  });
+});
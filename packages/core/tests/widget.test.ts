@@ -306,6 +306,91 @@ describe('Widget Module', () => {
       expect(result.paid).toBe(true);
       expect(onError).toHaveBeenCalledTimes(1);
     });
+
+    it('returns paid:false once the invoice expires', async () => {
+      mockAxios
+        .onGet(/\/v1\/widget\/payment-status\//)
+        .reply(200, { paid: false, status: 'EXPIRED' });
+
+      const result = await client.widget.waitForPaid({ referenceKey: 'ref_123' });
+
+      expect(result).toEqual({ paid: false, last: { paid: false, status: 'EXPIRED' } });
+      expect(mockAxios.history.get).toHaveLength(1);
+    });
+
+    it('stops once the invoice is cancelled', async () => {
+      mockAxios
+        .onGet(/\/v1\/widget\/payment-status\//)
+        .reply(200, { paid: false, status: 'cancelled' });
+
+      const watcher = client.widget.watchPayment('ref_123');
+
+      expect(await watcher.result).toMatchObject({ reason: 'settled', outcome: 'cancelled' });
+      expect(mockAxios.history.get).toHaveLength(1);
+    });
+  });
+
+  describe('watchPayment', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('yields each status with for await until paid', async () => {
+      mockAxios
+        .onGet('/v1/widget/payment-status/ref_123')
+        .replyOnce(200, { paid: false, status: 'pending' })
+        .onGet('/v1/widget/payment-status/ref_123')
+        .replyOnce(200, { paid: true, status: 'paid' });
+
+      const statuses: (string | undefined)[] = [];
+      const consumed = (async () => {
+        for await (const update of client.widget.watchPayment('ref_123', { intervalMs: 100 })) {
+          statuses.push(update.status);
+        }
+      })();
+      await jest.advanceTimersByTimeAsync(100);
+      await consumed;
+
+      expect(statuses).toEqual(['pending', 'paid']);
+    });
+
+    it.each([
+      ['expired', 'expired'],
+      ['FAILED', 'failed'],
+    ])('emits %s statuses as the %s event', async (status, event) => {
+      mockAxios.onGet('/v1/widget/payment-status/ref_123').reply(200, { paid: false, status });
+      const watcher = client.widget.watchPayment('ref_123');
+      const listener = jest.fn();
+      watcher.on(event as 'expired' | 'failed', listener);
+
+      const result = await watcher.result;
+
+      expect(result.outcome).toBe(event);
+      expect(listener).toHaveBeenCalledWith({ paid: false, status });
+    });
+
+    it('emits error events for failed polls', async () => {
+      mockAxios
+        .onGet('/v1/widget/payment-status/ref_123')
+        .replyOnce(500, { error: 'Server error' })
+        .onGet('/v1/widget/payment-status/ref_123')
+        .replyOnce(200, { paid: true });
+      const watcher = client.widget.watchPayment('ref_123', { intervalMs: 100 });
+      const onError = jest.fn();
+      const onPaid = jest.fn();
+      watcher.on('error', onError);
+      watcher.on('paid', onPaid);
+
+      await jest.advanceTimersByTimeAsync(150);
+
+      expect((await watcher.result).reason).toBe('settled');
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 500 }));
+      expect(onPaid).toHaveBeenCalledWith({ paid: true });
+    });
   });
 
   describe('getDynamicEnv', () => {